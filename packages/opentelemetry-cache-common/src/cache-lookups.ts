@@ -0,0 +1,99 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { diag, Span, SpanAttributes } from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Meter,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { CacheAttributeNames } from './enums/AttributeNames';
+import { CacheMetricNames } from './enums/MetricNames';
+import {
+  CacheKeyPrefixFunction,
+  CacheLookup,
+  CacheLookupCounters,
+} from './types';
+
+/**
+ * Creates the `cache.hits` and `cache.misses` counters
+ * @param meter - meter of the instrumentation
+ */
+export function createCacheLookupCounters(meter: Meter): CacheLookupCounters {
+  return {
+    hits: meter.createCounter(CacheMetricNames.CACHE_HITS, {
+      description: 'Number of keys found by cache lookups.',
+      valueType: ValueType.INT,
+    }),
+    misses: meter.createCounter(CacheMetricNames.CACHE_MISSES, {
+      description: 'Number of keys missing from cache lookups.',
+      valueType: ValueType.INT,
+    }),
+  };
+}
+
+/**
+ * Returns whether the key was found for a single key lookup, or how many keys
+ * were found and missing for a multiple keys lookup
+ */
+export function getCacheAttributes(lookups: CacheLookup[]): SpanAttributes {
+  if (lookups.length === 1) {
+    return { [CacheAttributeNames.CACHE_HIT]: lookups[0].hit };
+  }
+  const hitCount = lookups.filter(lookup => lookup.hit).length;
+  return {
+    [CacheAttributeNames.CACHE_HIT_COUNT]: hitCount,
+    [CacheAttributeNames.CACHE_MISS_COUNT]: lookups.length - hitCount,
+  };
+}
+
+/** Returns the part of the key before its first `:`, or an empty string */
+export const defaultCacheKeyPrefix: CacheKeyPrefixFunction = key => {
+  const separatorIndex = key.indexOf(':');
+  return separatorIndex === -1 ? '' : key.slice(0, separatorIndex);
+};
+
+/**
+ * Sets the lookup attributes on the span of a command and counts each key
+ * looked up as a hit or a miss, labeled with the prefix of the key. Errors
+ * thrown by a custom `cacheKeyPrefix` are logged and the prefix left empty
+ * @param span - span of the command
+ * @param counters - counters created by {@link createCacheLookupCounters}
+ * @param lookups - keys looked up by the command
+ * @param attributes - attributes of the counters, eg. `db.system`
+ * @param [cacheKeyPrefix] - extracts the prefix of a key
+ */
+export function recordCacheLookups(
+  span: Span,
+  counters: CacheLookupCounters,
+  lookups: CacheLookup[],
+  attributes: MetricAttributes,
+  cacheKeyPrefix: CacheKeyPrefixFunction = defaultCacheKeyPrefix
+) {
+  span.setAttributes(getCacheAttributes(lookups));
+  lookups.forEach(({ key, hit }) => {
+    let keyPrefix = '';
+    try {
+      keyPrefix = cacheKeyPrefix(key);
+    } catch (err) {
+      diag.error('Error executing cacheKeyPrefix', err);
+    }
+    (hit ? counters.hits : counters.misses).add(1, {
+      ...attributes,
+      [CacheAttributeNames.CACHE_KEY_PREFIX]: keyPrefix ?? '',
+    });
+  });
+}
@@ -0,0 +1,43 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CacheLookup } from './types';
+
+/**
+ * Returns the keys looked up by a cache-style redis command (`GET`, `MGET`,
+ * `HGET`) and whether each one was found, or undefined for other commands
+ * @param cmdName - name of the command, in any case
+ * @param cmdArgs - arguments of the command
+ * @param response - reply to the command
+ */
+export function getRedisCacheLookups(
+  cmdName: string,
+  cmdArgs: ReadonlyArray<unknown>,
+  response: unknown
+): CacheLookup[] | undefined {
+  switch (cmdName.toLowerCase()) {
+    case 'get':
+    case 'hget':
+      return [{ key: String(cmdArgs[0]), hit: response != null }];
+    case 'mget':
+      return cmdArgs.map((key, i) => ({
+        key: String(key),
+        hit: Array.isArray(response) && response[i] != null,
+      }));
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,38 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Counter } from '@opentelemetry/api-metrics';
+
+/** A key looked up by a cache command, and whether it was found */
+export interface CacheLookup {
+  key: string;
+  hit: boolean;
+}
+
+/**
+ * Function that can be used to extract the prefix of a cache key, by which
+ * the cache hits and misses metrics are grouped
+ * @param key - The key looked up by the command (eg. `user:42`)
+ *
+ * @returns the prefix of the key (eg. `user`)
+ */
+export type CacheKeyPrefixFunction = (key: string) => string;
+
+/** The `cache.hits` and `cache.misses` counters of an instrumentation */
+export interface CacheLookupCounters {
+  hits: Counter;
+  misses: Counter;
+}
@@ -0,0 +1,164 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  INVALID_SPAN_CONTEXT,
+  Span,
+  SpanAttributes,
+  trace,
+} from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Counter,
+  NoopMeter,
+} from '@opentelemetry/api-metrics';
+import * as assert from 'assert';
+import {
+  CacheAttributeNames,
+  CacheMetricNames,
+  createCacheLookupCounters,
+  defaultCacheKeyPrefix,
+  getCacheAttributes,
+  recordCacheLookups,
+} from '../src';
+
+class RecordingCounter implements Counter {
+  records: Array<{ value: number; attributes?: MetricAttributes }> = [];
+
+  add(value: number, attributes?: MetricAttributes) {
+    this.records.push({ value, attributes });
+  }
+}
+
+class RecordingSpan {
+  attributes: SpanAttributes = {};
+
+  setAttributes(attributes: SpanAttributes) {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+}
+
+describe('cache lookups', () => {
+  describe('createCacheLookupCounters()', () => {
+    it('should create the hits and misses counters', () => {
+      const names: string[] = [];
+      const meter = new NoopMeter();
+      meter.createCounter = name => {
+        names.push(name);
+        return new RecordingCounter();
+      };
+      createCacheLookupCounters(meter);
+      assert.deepStrictEqual(names, [
+        CacheMetricNames.CACHE_HITS,
+        CacheMetricNames.CACHE_MISSES,
+      ]);
+    });
+  });
+
+  describe('getCacheAttributes()', () => {
+    it('should return whether a single key was found', () => {
+      assert.deepStrictEqual(getCacheAttributes([{ key: 'a', hit: false }]), {
+        [CacheAttributeNames.CACHE_HIT]: false,
+      });
+    });
+
+    it('should count the keys found and missing', () => {
+      assert.deepStrictEqual(
+        getCacheAttributes([
+          { key: 'a', hit: true },
+          { key: 'b', hit: false },
+          { key: 'c', hit: true },
+        ]),
+        {
+          [CacheAttributeNames.CACHE_HIT_COUNT]: 2,
+          [CacheAttributeNames.CACHE_MISS_COUNT]: 1,
+        }
+      );
+    });
+  });
+
+  describe('defaultCacheKeyPrefix()', () => {
+    it('should return the part of the key before its first colon', () => {
+      assert.strictEqual(defaultCacheKeyPrefix('user:42:name'), 'user');
+      assert.strictEqual(defaultCacheKeyPrefix('user'), '');
+    });
+  });
+
+  describe('recordCacheLookups()', () => {
+    let counters: { hits: RecordingCounter; misses: RecordingCounter };
+
+    beforeEach(() => {
+      counters = {
+        hits: new RecordingCounter(),
+        misses: new RecordingCounter(),
+      };
+    });
+
+    it('should set the span attributes and count the lookups', () => {
+      const span = new RecordingSpan();
+      recordCacheLookups(
+        span as unknown as Span,
+        counters,
+        [
+          { key: 'session:1', hit: true },
+          { key: 'other', hit: false },
+        ],
+        { 'db.system': 'redis' }
+      );
+      assert.deepStrictEqual(span.attributes, {
+        [CacheAttributeNames.CACHE_HIT_COUNT]: 1,
+        [CacheAttributeNames.CACHE_MISS_COUNT]: 1,
+      });
+      assert.deepStrictEqual(counters.hits.records, [
+        {
+          value: 1,
+          attributes: {
+            'db.system': 'redis',
+            [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+          },
+        },
+      ]);
+      assert.deepStrictEqual(counters.misses.records, [
+        {
+          value: 1,
+          attributes: {
+            'db.system': 'redis',
+            [CacheAttributeNames.CACHE_KEY_PREFIX]: '',
+          },
+        },
+      ]);
+    });
+
+    it('should not fail when the cacheKeyPrefix function throws', () => {
+      recordCacheLookups(
+        trace.wrapSpanContext(INVALID_SPAN_CONTEXT),
+        counters,
+        [{ key: 'session:1', hit: true }],
+        {},
+        () => {
+          throw new Error('cacheKeyPrefix failure');
+        }
+      );
+      assert.deepStrictEqual(counters.hits.records, [
+        {
+          value: 1,
+          attributes: { [CacheAttributeNames.CACHE_KEY_PREFIX]: '' },
+        },
+      ]);
+    });
+  });
+});
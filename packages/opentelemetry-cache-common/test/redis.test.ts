@@ -0,0 +1,46 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { getRedisCacheLookups } from '../src';
+
+describe('getRedisCacheLookups()', () => {
+  it('should return the lookup of a single key', () => {
+    assert.deepStrictEqual(getRedisCacheLookups('GET', ['a'], null), [
+      { key: 'a', hit: false },
+    ]);
+    assert.deepStrictEqual(getRedisCacheLookups('hget', ['h', 'f'], 'v'), [
+      { key: 'h', hit: true },
+    ]);
+  });
+
+  it('should return the lookups of mget', () => {
+    assert.deepStrictEqual(
+      getRedisCacheLookups('MGET', ['a', Buffer.from('b')], ['1', null]),
+      [
+        { key: 'a', hit: true },
+        { key: 'b', hit: false },
+      ]
+    );
+  });
+
+  it('should ignore other commands', () => {
+    assert.strictEqual(
+      getRedisCacheLookups('SET', ['a', '1'], 'OK'),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,57 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Context } from '@opentelemetry/api';
+import { getRPCMetadata, RPCType } from '@opentelemetry/core';
+import type { IncomingMessage } from 'http';
+
+const requestRouteSymbol = Symbol.for('opentelemetry.http-common.route');
+
+type RouteCarrier = IncomingMessage & { [requestRouteSymbol]?: string };
+
+/**
+ * Publishes the route template that matched a request, e.g. `/users/:id`.
+ * The route is set in the RPC metadata of the context, which the http
+ * instrumentation labels its `http.server.duration` histogram with, and on
+ * the request for {@link recordServerDuration}
+ * @param ctx - context the request is handled in
+ * @param request - the request
+ * @param route - route template
+ */
+export function setHttpRoute(
+  ctx: Context,
+  request: IncomingMessage,
+  route: string
+): void {
+  const rpcMetadata = getRPCMetadata(ctx);
+  if (rpcMetadata?.type === RPCType.HTTP) {
+    rpcMetadata.route = route;
+  }
+  Object.defineProperty(request, requestRouteSymbol, {
+    enumerable: false,
+    configurable: true,
+    writable: true,
+    value: route,
+  });
+}
+
+/**
+ * Returns the route template published for a request by {@link setHttpRoute}
+ * @param request - the request
+ */
+export function getHttpRoute(request: IncomingMessage): string | undefined {
+  return (request as RouteCarrier)[requestRouteSymbol];
+}
@@ -0,0 +1,108 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Context, HrTime } from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Histogram,
+  Meter,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { getRPCMetadata, hrTime, hrTimeDuration } from '@opentelemetry/core';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { TLSSocket } from 'tls';
+import { getHttpRoute } from './route';
+
+export const HTTP_SERVER_DURATION = 'http.server.duration';
+
+const recordedSymbol = Symbol.for('opentelemetry.http-common.server_duration');
+
+type RecordedRequest = IncomingMessage & { [recordedSymbol]?: boolean };
+
+/**
+ * Creates the `http.server.duration` histogram, in milliseconds
+ * @param meter - meter of the instrumentation
+ */
+export function createServerDurationHistogram(meter: Meter): Histogram {
+  return meter.createHistogram(HTTP_SERVER_DURATION, {
+    description: 'Duration of the inbound HTTP requests.',
+    unit: 'ms',
+    valueType: ValueType.DOUBLE,
+  });
+}
+
+/**
+ * Records the duration of a request once its response has been sent, labeled
+ * with the route published by {@link setHttpRoute}. Requests traced by the
+ * http instrumentation, which records the histogram itself, are skipped, and
+ * a request is only recorded by the first instrumentation to see it
+ * @param ctx - context the request is handled in
+ * @param histogram - histogram created by {@link createServerDurationHistogram}
+ * @param request - the request
+ * @param response - the response to the request
+ * @param startTime - time the request was received, defaults to now
+ */
+export function recordServerDuration(
+  ctx: Context,
+  histogram: Histogram,
+  request: IncomingMessage,
+  response: ServerResponse,
+  startTime: HrTime = hrTime()
+): void {
+  if (getRPCMetadata(ctx) || (request as RecordedRequest)[recordedSymbol]) {
+    return;
+  }
+  Object.defineProperty(request, recordedSymbol, {
+    enumerable: false,
+    configurable: true,
+    value: true,
+  });
+
+  const onResponseEnd = () => {
+    response.removeListener('finish', onResponseEnd);
+    response.removeListener('close', onResponseEnd);
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    histogram.record(
+      seconds * 1e3 + nanos / 1e6,
+      getServerDurationAttributes(request, response)
+    );
+  };
+  response.once('finish', onResponseEnd);
+  response.once('close', onResponseEnd);
+}
+
+function getServerDurationAttributes(
+  request: IncomingMessage,
+  response: ServerResponse
+): MetricAttributes {
+  const attributes: MetricAttributes = {
+    [SemanticAttributes.HTTP_SCHEME]: (request.socket as TLSSocket | undefined)
+      ?.encrypted
+      ? 'https'
+      : 'http',
+    [SemanticAttributes.HTTP_FLAVOR]: request.httpVersion,
+    [SemanticAttributes.HTTP_STATUS_CODE]: String(response.statusCode),
+  };
+  if (request.method) {
+    attributes[SemanticAttributes.HTTP_METHOD] = request.method;
+  }
+  const route = getHttpRoute(request);
+  if (route) {
+    attributes[SemanticAttributes.HTTP_ROUTE] = route;
+  }
+  return attributes;
+}
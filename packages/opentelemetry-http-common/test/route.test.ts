@@ -0,0 +1,63 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { INVALID_SPAN_CONTEXT, ROOT_CONTEXT, trace } from '@opentelemetry/api';
+import {
+  getRPCMetadata,
+  RPCMetadata,
+  RPCType,
+  setRPCMetadata,
+} from '@opentelemetry/core';
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import type { IncomingMessage } from 'http';
+import { getHttpRoute, setHttpRoute } from '../src';
+
+describe('setHttpRoute', () => {
+  let request: IncomingMessage;
+
+  beforeEach(() => {
+    request = new EventEmitter() as IncomingMessage;
+  });
+
+  it('should set the route of the RPC metadata', () => {
+    const rpcMetadata: RPCMetadata = {
+      type: RPCType.HTTP,
+      span: trace.wrapSpanContext(INVALID_SPAN_CONTEXT),
+    };
+    const ctx = setRPCMetadata(ROOT_CONTEXT, rpcMetadata);
+
+    setHttpRoute(ctx, request, '/users/:id');
+
+    assert.strictEqual(getRPCMetadata(ctx)?.route, '/users/:id');
+    assert.strictEqual(getHttpRoute(request), '/users/:id');
+  });
+
+  it('should set the route of the request without RPC metadata', () => {
+    setHttpRoute(ROOT_CONTEXT, request, '/users/:id');
+    setHttpRoute(ROOT_CONTEXT, request, '/users/:id/posts');
+
+    assert.strictEqual(getHttpRoute(request), '/users/:id/posts');
+    assert.deepStrictEqual(
+      Object.keys(request),
+      Object.keys(new EventEmitter())
+    );
+  });
+
+  it('should return undefined for requests without route', () => {
+    assert.strictEqual(getHttpRoute(request), undefined);
+  });
+});
@@ -0,0 +1,137 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { INVALID_SPAN_CONTEXT, ROOT_CONTEXT, trace } from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Histogram,
+  NoopMeter,
+} from '@opentelemetry/api-metrics';
+import { hrTime, RPCType, setRPCMetadata } from '@opentelemetry/core';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  createServerDurationHistogram,
+  HTTP_SERVER_DURATION,
+  recordServerDuration,
+  setHttpRoute,
+} from '../src';
+
+class RecordingHistogram implements Histogram {
+  records: Array<{ value: number; attributes?: MetricAttributes }> = [];
+
+  record(value: number, attributes?: MetricAttributes) {
+    this.records.push({ value, attributes });
+  }
+}
+
+describe('recordServerDuration', () => {
+  let histogram: RecordingHistogram;
+  let request: IncomingMessage;
+  let response: ServerResponse;
+
+  beforeEach(() => {
+    histogram = new RecordingHistogram();
+    request = Object.assign(new EventEmitter(), {
+      method: 'GET',
+      httpVersion: '1.1',
+      socket: {},
+    }) as unknown as IncomingMessage;
+    response = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+    }) as unknown as ServerResponse;
+  });
+
+  it('should record the duration when the response finishes', () => {
+    recordServerDuration(ROOT_CONTEXT, histogram, request, response);
+    setHttpRoute(ROOT_CONTEXT, request, '/users/:id');
+    assert.strictEqual(histogram.records.length, 0);
+
+    response.emit('finish');
+
+    assert.strictEqual(histogram.records.length, 1);
+    assert.ok(histogram.records[0].value >= 0);
+    assert.deepStrictEqual(histogram.records[0].attributes, {
+      [SemanticAttributes.HTTP_SCHEME]: 'http',
+      [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+      [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+      [SemanticAttributes.HTTP_METHOD]: 'GET',
+      [SemanticAttributes.HTTP_ROUTE]: '/users/:id',
+    });
+  });
+
+  it('should record requests without route', () => {
+    recordServerDuration(ROOT_CONTEXT, histogram, request, response);
+    response.emit('close');
+
+    assert.strictEqual(histogram.records.length, 1);
+    assert.strictEqual(
+      histogram.records[0].attributes?.[SemanticAttributes.HTTP_ROUTE],
+      undefined
+    );
+  });
+
+  it('should measure the duration from the given start time', () => {
+    const [seconds, nanos] = hrTime();
+    recordServerDuration(ROOT_CONTEXT, histogram, request, response, [
+      seconds - 2,
+      nanos,
+    ]);
+    response.emit('finish');
+
+    assert.ok(histogram.records[0].value >= 2000);
+  });
+
+  it('should record a request once', () => {
+    const other = new RecordingHistogram();
+    recordServerDuration(ROOT_CONTEXT, histogram, request, response);
+    recordServerDuration(ROOT_CONTEXT, other, request, response);
+    response.emit('finish');
+    response.emit('close');
+
+    assert.strictEqual(histogram.records.length, 1);
+    assert.strictEqual(other.records.length, 0);
+  });
+
+  it('should not record requests traced by the http instrumentation', () => {
+    const ctx = setRPCMetadata(ROOT_CONTEXT, {
+      type: RPCType.HTTP,
+      span: trace.wrapSpanContext(INVALID_SPAN_CONTEXT),
+    });
+    recordServerDuration(ctx, histogram, request, response);
+    response.emit('finish');
+
+    assert.strictEqual(histogram.records.length, 0);
+  });
+});
+
+describe('createServerDurationHistogram', () => {
+  it('should create the http.server.duration histogram', () => {
+    const names: string[] = [];
+    const meter = new (class extends NoopMeter {
+      override createHistogram(name: string) {
+        names.push(name);
+        return super.createHistogram(name);
+      }
+    })();
+
+    createServerDurationHistogram(meter);
+
+    assert.deepStrictEqual(names, [HTTP_SERVER_DURATION]);
+  });
+});
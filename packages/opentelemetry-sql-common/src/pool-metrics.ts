@@ -0,0 +1,186 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Attributes as MetricAttributes,
+  Meter,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+
+export const POOL_NAME_ATTRIBUTE = 'db.client.connections.pool.name';
+export const POOL_STATE_ATTRIBUTE = 'db.client.connections.state';
+
+/** The state of a connection pool, as reported by the pool metrics */
+export interface ConnectionPoolStats {
+  /** Number of open connections waiting to be used */
+  idle: number;
+  /** Number of open connections in use */
+  used: number;
+  /** Maximum number of open connections allowed */
+  max: number;
+  /** Number of requests waiting for an open connection */
+  pending: number;
+}
+
+/** The settings of a connection, or of the connections of a pool */
+export interface SqlConnectionConfig {
+  host?: string;
+  port?: number;
+  database?: string;
+  /** The settings of the connections of a pool */
+  connectionConfig?: SqlConnectionConfig;
+}
+
+/**
+ * Extracts the SQL verb (e.g. `SELECT`) of the statement being executed.
+ *
+ * @returns the upper-cased first keyword of the statement
+ */
+export function getDbOperation(query: string | { sql?: string }): string {
+  const sql = typeof query === 'object' ? query.sql : query;
+  return (sql || '').trim().split(/\s+/)[0].toUpperCase();
+}
+
+/**
+ * Get the low cardinality attributes used to label query duration metrics
+ *
+ * @param dbSystem the `db.system` of the client, e.g. `mysql`
+ * @param config the config of the connection or of the pool
+ * @param query the query being executed
+ */
+export function getMetricAttributes(
+  dbSystem: string,
+  config: SqlConnectionConfig | undefined,
+  query: string | { sql?: string }
+): MetricAttributes {
+  const { host, port, database } = config?.connectionConfig || config || {};
+  const attributes: MetricAttributes = {
+    [SemanticAttributes.DB_SYSTEM]: dbSystem,
+    [SemanticAttributes.DB_OPERATION]: getDbOperation(query),
+  };
+  if (typeof host === 'string') {
+    attributes[SemanticAttributes.NET_PEER_NAME] = host;
+  }
+  if (typeof port === 'number') {
+    attributes[SemanticAttributes.NET_PEER_PORT] = String(port);
+  }
+  if (typeof database === 'string') {
+    attributes[SemanticAttributes.DB_NAME] = database;
+  }
+  return attributes;
+}
+
+/** Reads the name and the state of the pools of a client library */
+export interface ConnectionPoolReader<P> {
+  /** Returns the `db.client.connections.pool.name` attribute of the pool */
+  getPoolName(pool: P): string;
+  /** Returns the state of the pool, or undefined once it has been closed */
+  getPoolStats(pool: P): ConnectionPoolStats | undefined;
+}
+
+/**
+ * Creates the `db.client.connections.*` observable instruments reporting the
+ * state of the tracked pools. The stats of pools sharing a name are summed.
+ *
+ * Every tracked pool is observed until it is closed, idle pools reporting 0
+ * connections. Closed pools are removed from `pools` as they are observed.
+ * Without a metrics SDK the pools are never observed, so instrumentations
+ * should also remove a pool from `pools` when it is closed.
+ *
+ * @param meter the meter of the instrumentation
+ * @param pools the pools tracked by the instrumentation
+ * @param reader reads the name and the state of the pools
+ */
+export function createConnectionPoolInstruments<P>(
+  meter: Meter,
+  pools: Set<P>,
+  reader: ConnectionPoolReader<P>
+) {
+  const observePools = (
+    observe: (
+      stats: ConnectionPoolStats,
+      attributes: { [key: string]: string }
+    ) => void
+  ) => {
+    const statsByName = new Map<string, ConnectionPoolStats>();
+    for (const pool of pools) {
+      const poolStats = reader.getPoolStats(pool);
+      if (!poolStats) {
+        pools.delete(pool);
+        continue;
+      }
+      const name = reader.getPoolName(pool);
+      const stats = statsByName.get(name) ?? {
+        idle: 0,
+        used: 0,
+        max: 0,
+        pending: 0,
+      };
+      stats.idle += poolStats.idle;
+      stats.used += poolStats.used;
+      stats.max += poolStats.max;
+      stats.pending += poolStats.pending;
+      statsByName.set(name, stats);
+    }
+    statsByName.forEach((stats, name) =>
+      observe(stats, { [POOL_NAME_ATTRIBUTE]: name })
+    );
+  };
+
+  meter.createObservableUpDownCounter(
+    'db.client.connections.usage',
+    {
+      description:
+        'The number of connections that are currently in state described by the state attribute.',
+      unit: '{connection}',
+      valueType: ValueType.INT,
+    },
+    result =>
+      observePools((stats, attributes) => {
+        result.observe(stats.idle, {
+          ...attributes,
+          [POOL_STATE_ATTRIBUTE]: 'idle',
+        });
+        result.observe(stats.used, {
+          ...attributes,
+          [POOL_STATE_ATTRIBUTE]: 'used',
+        });
+      })
+  );
+  meter.createObservableUpDownCounter(
+    'db.client.connections.max',
+    {
+      description: 'The maximum number of open connections allowed.',
+      unit: '{connection}',
+      valueType: ValueType.INT,
+    },
+    result =>
+      observePools((stats, attributes) => result.observe(stats.max, attributes))
+  );
+  meter.createObservableUpDownCounter(
+    'db.client.connections.pending_requests',
+    {
+      description:
+        'The number of pending requests for an open connection, cumulative for the entire pool.',
+      unit: '{request}',
+      valueType: ValueType.INT,
+    },
+    result =>
+      observePools((stats, attributes) =>
+        result.observe(stats.pending, attributes)
+      )
+  );
+}
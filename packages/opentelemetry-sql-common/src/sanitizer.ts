@@ -0,0 +1,163 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DiagLogger } from '@opentelemetry/api';
+import { tokenizeSql } from './tokenizer';
+import {
+  DbStatement,
+  DbStatementSanitizer,
+  DbStatementSerializer,
+  SqlDialectOptions,
+  SqlToken,
+  SqlTokenKind,
+} from './types';
+
+const LITERAL_PLACEHOLDER: SqlToken = {
+  kind: SqlTokenKind.PLACEHOLDER,
+  text: '?',
+};
+
+/**
+ * Replaces string and numeric literals with `?` and collapses `IN (...)`
+ * lists made only of `?` or `$n` placeholders to `IN (?)`, so that statements
+ * differing only by their values or number of parameters share the same text.
+ *
+ * @param sql the statement to obfuscate
+ * @param options dialect specific lexing rules
+ */
+export function obfuscateSql(sql: string, options?: SqlDialectOptions): string {
+  const tokens = tokenizeSql(sql, options).map(token =>
+    token.kind === SqlTokenKind.STRING || token.kind === SqlTokenKind.NUMBER
+      ? LITERAL_PLACEHOLDER
+      : token
+  );
+  return collapseInLists(tokens)
+    .map(token => token.text)
+    .join('');
+}
+
+/**
+ * Applies the configured sanitizer to a statement before it is recorded as
+ * the `db.statement` attribute.
+ *
+ * @param statement the statement as issued by the client
+ * @param sanitizer the configured sanitizer, `obfuscate` when not set
+ * @param options dialect specific lexing rules
+ */
+export function sanitizeDbStatement(
+  statement: string,
+  sanitizer: DbStatementSanitizer = 'obfuscate',
+  options?: SqlDialectOptions
+): string {
+  if (sanitizer === 'none') {
+    return statement;
+  }
+  return obfuscateSql(statement, options);
+}
+
+/**
+ * Builds the `db.statement` attribute with the user provided serializer, or
+ * with the configured sanitizer when there is none or it throws.
+ *
+ * @param serializer the configured `dbStatementSerializer`, if any
+ * @param statement the statement as issued by the client
+ * @param dialect dialect specific lexing rules
+ * @param diag the logger errors of the serializer are reported to
+ */
+export function serializeDbStatement<V>(
+  serializer: DbStatementSerializer<V> | undefined,
+  statement: DbStatement<V>,
+  dialect: SqlDialectOptions | undefined,
+  diag: DiagLogger
+): string {
+  if (typeof serializer === 'function') {
+    try {
+      return serializer(statement.text, statement.values);
+    } catch (err) {
+      diag.error('Error running dbStatementSerializer hook', err);
+    }
+  }
+  return sanitizeDbStatement(
+    statement.formattedText ?? statement.text,
+    statement.sanitizer,
+    dialect
+  );
+}
+
+function collapseInLists(tokens: SqlToken[]): SqlToken[] {
+  const result: SqlToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    result.push(tokens[i]);
+    if (
+      tokens[i].kind !== SqlTokenKind.WORD ||
+      tokens[i].text.toUpperCase() !== 'IN'
+    ) {
+      continue;
+    }
+    const open = skipInsignificant(tokens, i + 1);
+    if (tokens[open]?.text !== '(') {
+      continue;
+    }
+    const close = findPlaceholderListEnd(tokens, open + 1);
+    if (close === -1) {
+      continue;
+    }
+    result.push(...tokens.slice(i + 1, open + 1), LITERAL_PLACEHOLDER);
+    result.push(tokens[close]);
+    i = close;
+  }
+  return result;
+}
+
+function skipInsignificant(tokens: SqlToken[], pos: number): number {
+  while (
+    pos < tokens.length &&
+    (tokens[pos].kind === SqlTokenKind.WHITESPACE ||
+      tokens[pos].kind === SqlTokenKind.COMMENT)
+  ) {
+    pos++;
+  }
+  return pos;
+}
+
+/**
+ * Returns the position of the `)` closing a list of `?` or `$n` placeholders
+ * starting at `pos`, or -1 if the list holds anything else.
+ */
+function findPlaceholderListEnd(tokens: SqlToken[], pos: number): number {
+  let expectPlaceholder = true;
+  for (let i = skipInsignificant(tokens, pos); i < tokens.length; ) {
+    const token = tokens[i];
+    if (expectPlaceholder && isPositionalPlaceholder(token)) {
+      expectPlaceholder = false;
+    } else if (!expectPlaceholder && token.text === ',') {
+      expectPlaceholder = true;
+    } else if (!expectPlaceholder && token.text === ')') {
+      return i;
+    } else {
+      return -1;
+    }
+    i = skipInsignificant(tokens, i + 1);
+  }
+  return -1;
+}
+
+function isPositionalPlaceholder(token: SqlToken): boolean {
+  return (
+    token.kind === SqlTokenKind.PLACEHOLDER &&
+    (token.text === '?' || token.text[0] === '$')
+  );
+}
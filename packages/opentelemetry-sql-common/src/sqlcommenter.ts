@@ -0,0 +1,82 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  defaultTextMapSetter,
+  ROOT_CONTEXT,
+  Span,
+  trace,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { tokenizeSql } from './tokenizer';
+import { SqlDialectOptions, SqlTokenKind } from './types';
+
+const propagator = new W3CTraceContextPropagator();
+
+/**
+ * Appends a sqlcommenter comment holding the `traceparent` and `tracestate`
+ * of `span` to the query, so that database side logs can be correlated with
+ * the trace.
+ *
+ * The query is returned unchanged when it already contains a comment, as
+ * comments may hold hints or a sqlcommenter comment added by another layer,
+ * or when the span context is not valid.
+ *
+ * @see https://google.github.io/sqlcommenter/spec/
+ *
+ * @param span the span representing the query
+ * @param query the query text
+ * @param options dialect specific lexing rules
+ */
+export function addSqlCommenterComment(
+  span: Span,
+  query: string,
+  options?: SqlDialectOptions
+): string {
+  if (typeof query !== 'string' || query.length === 0) {
+    return query;
+  }
+  if (
+    tokenizeSql(query, options).some(
+      token => token.kind === SqlTokenKind.COMMENT
+    )
+  ) {
+    return query;
+  }
+
+  const headers: { [key: string]: string } = {};
+  propagator.inject(
+    trace.setSpan(ROOT_CONTEXT, span),
+    headers,
+    defaultTextMapSetter
+  );
+  const keys = Object.keys(headers);
+  if (keys.length === 0) {
+    return query;
+  }
+
+  const comment = keys
+    .sort()
+    .map(key => `${encodeValue(key)}='${encodeValue(headers[key])}'`)
+    .join(',');
+  return `${query} /*${comment}*/`;
+}
+
+// URL-encodes the value, then escapes the single quotes that
+// `encodeURIComponent` keeps, as required by the sqlcommenter spec
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/'/g, "\\'");
+}
@@ -0,0 +1,164 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SqlDialectOptions, SqlToken, SqlTokenKind } from './types';
+
+const WHITESPACE = /\s/;
+const DIGIT = /[0-9]/;
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const NUMBER =
+  /^(?:0[xX][0-9a-fA-F]+|(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][+-]?[0-9]+)?)/;
+const DOLLAR_QUOTE_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/;
+const STRING_PREFIXES = ['n', 'x', 'b', 'e'];
+
+/**
+ * Splits a SQL statement into tokens. The tokenizer is deliberately lenient:
+ * it never throws, and joining the text of all returned tokens yields the
+ * original statement.
+ *
+ * @param sql the statement to tokenize
+ * @param options dialect specific lexing rules
+ */
+export function tokenizeSql(
+  sql: string,
+  options: SqlDialectOptions = {}
+): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let pos = 0;
+  while (pos < sql.length) {
+    const [kind, end] = scanToken(sql, pos, options);
+    tokens.push({ kind, text: sql.slice(pos, end) });
+    pos = end;
+  }
+  return tokens;
+}
+
+function scanToken(
+  sql: string,
+  pos: number,
+  options: SqlDialectOptions
+): [SqlTokenKind, number] {
+  const char = sql[pos];
+  const next = sql[pos + 1];
+
+  if (WHITESPACE.test(char)) {
+    let end = pos + 1;
+    while (end < sql.length && WHITESPACE.test(sql[end])) end++;
+    return [SqlTokenKind.WHITESPACE, end];
+  }
+  if (
+    (char === '-' && next === '-') ||
+    (char === '#' && options.hashComments)
+  ) {
+    const end = sql.indexOf('\n', pos);
+    return [SqlTokenKind.COMMENT, end === -1 ? sql.length : end];
+  }
+  if (char === '/' && next === '*') {
+    const end = sql.indexOf('*/', pos + 2);
+    return [SqlTokenKind.COMMENT, end === -1 ? sql.length : end + 2];
+  }
+  if (char === "'") {
+    return [
+      SqlTokenKind.STRING,
+      scanQuoted(sql, pos, "'", options.backslashEscapes),
+    ];
+  }
+  if (char === '"') {
+    return options.doubleQuotedStrings
+      ? [
+          SqlTokenKind.STRING,
+          scanQuoted(sql, pos, '"', options.backslashEscapes),
+        ]
+      : [SqlTokenKind.QUOTED_IDENTIFIER, scanQuoted(sql, pos, '"')];
+  }
+  if (char === '`') {
+    return [SqlTokenKind.QUOTED_IDENTIFIER, scanQuoted(sql, pos, '`')];
+  }
+  if (char === '[' && options.bracketIdentifiers) {
+    return [SqlTokenKind.QUOTED_IDENTIFIER, scanQuoted(sql, pos, ']')];
+  }
+  if (char === '$') {
+    if (DIGIT.test(next)) {
+      let end = pos + 1;
+      while (end < sql.length && DIGIT.test(sql[end])) end++;
+      return [SqlTokenKind.PLACEHOLDER, end];
+    }
+    const tag = DOLLAR_QUOTE_TAG.exec(sql.slice(pos));
+    if (tag) {
+      const end = sql.indexOf(tag[0], pos + tag[0].length);
+      return [
+        SqlTokenKind.STRING,
+        end === -1 ? sql.length : end + tag[0].length,
+      ];
+    }
+  }
+  if (char === '?') {
+    return [SqlTokenKind.PLACEHOLDER, pos + 1];
+  }
+  if ((char === ':' || char === '@') && next && WORD_START.test(next)) {
+    return [SqlTokenKind.PLACEHOLDER, scanWord(sql, pos + 1)];
+  }
+  if (DIGIT.test(char) || (char === '.' && next && DIGIT.test(next))) {
+    const number = NUMBER.exec(sql.slice(pos));
+    return [SqlTokenKind.NUMBER, pos + number![0].length];
+  }
+  if (WORD_START.test(char)) {
+    if (next === "'" && STRING_PREFIXES.includes(char.toLowerCase())) {
+      const backslashEscapes =
+        options.backslashEscapes || char.toLowerCase() === 'e';
+      return [
+        SqlTokenKind.STRING,
+        scanQuoted(sql, pos + 1, "'", backslashEscapes),
+      ];
+    }
+    return [SqlTokenKind.WORD, scanWord(sql, pos)];
+  }
+  return [SqlTokenKind.PUNCTUATION, pos + 1];
+}
+
+function scanWord(sql: string, pos: number): number {
+  let end = pos;
+  while (end < sql.length && WORD_PART.test(sql[end])) end++;
+  return end;
+}
+
+/**
+ * Returns the position right after the quoted section starting at `pos`.
+ * Doubled closing quotes are always honored, backslash escapes only when the
+ * dialect has them: elsewhere a literal ending with a backslash would
+ * otherwise swallow its closing quote.
+ */
+function scanQuoted(
+  sql: string,
+  pos: number,
+  closing: string,
+  backslashEscapes = false
+): number {
+  let end = pos + 1;
+  while (end < sql.length) {
+    const char = sql[end];
+    if (char === '\\' && backslashEscapes) {
+      end += 2;
+    } else if (char === closing) {
+      if (sql[end + 1] !== closing) return end + 1;
+      end += 2;
+    } else {
+      end++;
+    }
+  }
+  return sql.length;
+}
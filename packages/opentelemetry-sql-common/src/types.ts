@@ -0,0 +1,103 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * How the `db.statement` attribute is sanitized before being recorded.
+ *
+ * - `obfuscate`: string and numeric literals are replaced with `?` and
+ *   `IN (...)` lists of values or placeholders are collapsed to `IN (?)`.
+ * - `none`: the statement is recorded verbatim.
+ */
+export type DbStatementSanitizer = 'obfuscate' | 'none';
+
+/**
+ * Function that can be used to serialize the `db.statement` attribute
+ * @param statement - The statement text, as passed to the client
+ * @param values - The values bound to the statement, if any
+ *
+ * @returns serialized string that will be used as the db.statement attribute.
+ */
+export type DbStatementSerializer<V = unknown> = (
+  statement: string,
+  values?: V
+) => string;
+
+/**
+ * A statement about to be recorded as the `db.statement` attribute.
+ */
+export interface DbStatement<V = unknown> {
+  /** The statement text, as passed to the serializer */
+  text: string;
+  /** The values bound to the statement, if any */
+  values?: V;
+  /** The configured sanitizer, `obfuscate` when not set */
+  sanitizer?: DbStatementSanitizer;
+  /**
+   * The statement with its values formatted in, sanitized in place of `text`
+   * when set
+   */
+  formattedText?: string;
+}
+
+export enum SqlTokenKind {
+  WHITESPACE = 'whitespace',
+  COMMENT = 'comment',
+  STRING = 'string',
+  NUMBER = 'number',
+  WORD = 'word',
+  QUOTED_IDENTIFIER = 'quoted_identifier',
+  PLACEHOLDER = 'placeholder',
+  PUNCTUATION = 'punctuation',
+}
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  text: string;
+}
+
+/**
+ * Dialect specific lexing rules. The defaults follow standard SQL, as used by
+ * PostgreSQL and Cassandra.
+ */
+export interface SqlDialectOptions {
+  /**
+   * Treat `"..."` as a string literal rather than a quoted identifier, as
+   * MySQL does unless `ANSI_QUOTES` is enabled.
+   * @default false
+   */
+  doubleQuotedStrings?: boolean;
+
+  /**
+   * Treat `[...]` as a quoted identifier, as SQL Server does.
+   * @default false
+   */
+  bracketIdentifiers?: boolean;
+
+  /**
+   * Treat a backslash as an escape character in string literals, as MySQL
+   * does unless `NO_BACKSLASH_ESCAPES` is enabled. `E'...'` strings always
+   * honor backslash escapes.
+   * @default false
+   */
+  backslashEscapes?: boolean;
+
+  /**
+   * Treat `#` as the start of a comment running to the end of the line, as
+   * MySQL does.
+   * @default false
+   */
+  hashComments?: boolean;
+}
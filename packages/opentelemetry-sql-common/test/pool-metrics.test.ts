@@ -0,0 +1,178 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import { Meter, ObservableResult } from '@opentelemetry/api-metrics';
+import {
+  ConnectionPoolStats,
+  createConnectionPoolInstruments,
+  getDbOperation,
+  getMetricAttributes,
+} from '../src';
+
+interface FakePool {
+  name: string;
+  stats?: ConnectionPoolStats;
+}
+
+describe('createConnectionPoolInstruments', () => {
+  let callbacks: Map<string, (result: ObservableResult) => void>;
+  let pools: Set<FakePool>;
+
+  const observe = (name: string) => {
+    const observations: Array<{ value: number; attributes?: object }> = [];
+    callbacks.get(name)!({
+      observe: (value, attributes) => observations.push({ value, attributes }),
+    });
+    return observations;
+  };
+
+  beforeEach(() => {
+    callbacks = new Map();
+    pools = new Set();
+    const meter = {
+      createObservableUpDownCounter: (
+        name: string,
+        _options: unknown,
+        callback: (result: ObservableResult) => void
+      ) => callbacks.set(name, callback),
+    } as unknown as Meter;
+    createConnectionPoolInstruments(meter, pools, {
+      getPoolName: pool => pool.name,
+      getPoolStats: pool => pool.stats,
+    });
+  });
+
+  it('should sum the stats of pools sharing a name', () => {
+    pools.add({ name: 'a', stats: { idle: 1, used: 2, max: 10, pending: 0 } });
+    pools.add({ name: 'a', stats: { idle: 0, used: 1, max: 5, pending: 3 } });
+    pools.add({ name: 'b', stats: { idle: 4, used: 0, max: 4, pending: 0 } });
+
+    assert.deepStrictEqual(observe('db.client.connections.usage'), [
+      {
+        value: 1,
+        attributes: {
+          'db.client.connections.pool.name': 'a',
+          'db.client.connections.state': 'idle',
+        },
+      },
+      {
+        value: 3,
+        attributes: {
+          'db.client.connections.pool.name': 'a',
+          'db.client.connections.state': 'used',
+        },
+      },
+      {
+        value: 4,
+        attributes: {
+          'db.client.connections.pool.name': 'b',
+          'db.client.connections.state': 'idle',
+        },
+      },
+      {
+        value: 0,
+        attributes: {
+          'db.client.connections.pool.name': 'b',
+          'db.client.connections.state': 'used',
+        },
+      },
+    ]);
+    assert.deepStrictEqual(observe('db.client.connections.max'), [
+      { value: 15, attributes: { 'db.client.connections.pool.name': 'a' } },
+      { value: 4, attributes: { 'db.client.connections.pool.name': 'b' } },
+    ]);
+    assert.deepStrictEqual(observe('db.client.connections.pending_requests'), [
+      { value: 3, attributes: { 'db.client.connections.pool.name': 'a' } },
+      { value: 0, attributes: { 'db.client.connections.pool.name': 'b' } },
+    ]);
+  });
+
+  it('should stop tracking closed pools', () => {
+    pools.add({ name: 'closed' });
+    assert.deepStrictEqual(observe('db.client.connections.max'), []);
+    assert.strictEqual(pools.size, 0);
+  });
+
+  it('should keep observing pools without connections', () => {
+    const idle = {
+      name: 'idle',
+      stats: { idle: 0, used: 0, max: 10, pending: 0 },
+    };
+    pools.add(idle);
+    assert.deepStrictEqual(observe('db.client.connections.usage'), [
+      {
+        value: 0,
+        attributes: {
+          'db.client.connections.pool.name': 'idle',
+          'db.client.connections.state': 'idle',
+        },
+      },
+      {
+        value: 0,
+        attributes: {
+          'db.client.connections.pool.name': 'idle',
+          'db.client.connections.state': 'used',
+        },
+      },
+    ]);
+    assert.deepStrictEqual([...pools], [idle]);
+  });
+});
+
+describe('getDbOperation', () => {
+  it('should return the upper-cased SQL verb', () => {
+    assert.strictEqual(getDbOperation('  select * from users'), 'SELECT');
+    assert.strictEqual(
+      getDbOperation({ sql: 'INSERT INTO t VALUES (1)' }),
+      'INSERT'
+    );
+    assert.strictEqual(getDbOperation({}), '');
+  });
+});
+
+describe('getMetricAttributes', () => {
+  it('should only keep the low cardinality settings of the connection', () => {
+    assert.deepStrictEqual(
+      getMetricAttributes(
+        'mysql',
+        { host: 'localhost', port: 3306, database: 'test' },
+        'SELECT 1'
+      ),
+      {
+        'db.system': 'mysql',
+        'db.operation': 'SELECT',
+        'net.peer.name': 'localhost',
+        'net.peer.port': '3306',
+        'db.name': 'test',
+      }
+    );
+  });
+
+  it('should read the connection settings of a pool', () => {
+    assert.deepStrictEqual(
+      getMetricAttributes(
+        'mysql',
+        { connectionConfig: { host: 'localhost' } },
+        { sql: 'update t set a = 1' }
+      ),
+      {
+        'db.system': 'mysql',
+        'db.operation': 'UPDATE',
+        'net.peer.name': 'localhost',
+      }
+    );
+  });
+});
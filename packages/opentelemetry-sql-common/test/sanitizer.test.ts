@@ -0,0 +1,192 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { diag } from '@opentelemetry/api';
+import {
+  obfuscateSql,
+  sanitizeDbStatement,
+  serializeDbStatement,
+} from '../src';
+
+describe('obfuscateSql', () => {
+  it('should replace string and numeric literals', () => {
+    assert.strictEqual(
+      obfuscateSql(
+        "SELECT * FROM users WHERE email = 'jane@example.com' AND age > 42"
+      ),
+      'SELECT * FROM users WHERE email = ? AND age > ?'
+    );
+  });
+
+  it('should keep identifiers, placeholders and comments', () => {
+    const sql =
+      'SELECT "t1"."col2", `x` FROM t1 /* hint */ WHERE id = $1 AND b = ?';
+    assert.strictEqual(obfuscateSql(sql), sql);
+  });
+
+  it('should replace decimal, exponent and hexadecimal numbers', () => {
+    assert.strictEqual(
+      obfuscateSql('SELECT 1.5, .5, 1e10, 0xFF, -3'),
+      'SELECT ?, ?, ?, ?, -?'
+    );
+  });
+
+  it('should collapse IN lists', () => {
+    assert.strictEqual(
+      obfuscateSql("SELECT * FROM t WHERE id IN (1, 2, 3) AND s in ('a','b')"),
+      'SELECT * FROM t WHERE id IN (?) AND s in (?)'
+    );
+  });
+
+  it('should collapse IN lists of placeholders', () => {
+    assert.strictEqual(
+      obfuscateSql('DELETE FROM t WHERE id IN ( ?, ? , ? )'),
+      'DELETE FROM t WHERE id IN (?)'
+    );
+  });
+
+  it('should not collapse IN subqueries', () => {
+    const sql = 'SELECT * FROM t WHERE id IN (SELECT id FROM u WHERE v = ?)';
+    assert.strictEqual(obfuscateSql(sql), sql);
+  });
+
+  it('should collapse IN lists of numbered placeholders', () => {
+    assert.strictEqual(
+      obfuscateSql('SELECT * FROM t WHERE id IN ($1, $2) AND v = $3'),
+      'SELECT * FROM t WHERE id IN (?) AND v = $3'
+    );
+  });
+
+  it('should not collapse IN lists of named placeholders', () => {
+    const sql = 'SELECT * FROM t WHERE id IN (:a, :b)';
+    assert.strictEqual(obfuscateSql(sql), sql);
+  });
+
+  it('should obfuscate double quoted strings for MySQL', () => {
+    assert.strictEqual(
+      obfuscateSql('SELECT * FROM t WHERE a = "secret"', {
+        doubleQuotedStrings: true,
+      }),
+      'SELECT * FROM t WHERE a = ?'
+    );
+  });
+
+  it('should obfuscate the whole of a literal with escaped quotes', () => {
+    assert.strictEqual(
+      obfuscateSql("UPDATE t SET a = 'it\\'s ''quoted''' WHERE b = 1", {
+        backslashEscapes: true,
+      }),
+      'UPDATE t SET a = ? WHERE b = ?'
+    );
+  });
+
+  it('should not let a trailing backslash hide the next literal', () => {
+    assert.strictEqual(
+      obfuscateSql(
+        "SELECT * FROM t WHERE path = 'C:\\' AND token = 'hunter2secret'"
+      ),
+      'SELECT * FROM t WHERE path = ? AND token = ?'
+    );
+  });
+
+  it('should not let a MySQL hash comment hide the next literal', () => {
+    assert.strictEqual(
+      obfuscateSql("SELECT 1 # it's\n, 'secret'", { hashComments: true }),
+      "SELECT ? # it's\n, ?"
+    );
+  });
+
+  it('should keep literals inside MySQL hash comments', () => {
+    assert.strictEqual(
+      obfuscateSql("SELECT a # 'note' 42\nFROM t WHERE b = 'secret'", {
+        hashComments: true,
+      }),
+      "SELECT a # 'note' 42\nFROM t WHERE b = ?"
+    );
+  });
+});
+
+describe('sanitizeDbStatement', () => {
+  const sql = "SELECT * FROM t WHERE a = 'secret'";
+
+  it('should obfuscate by default', () => {
+    assert.strictEqual(sanitizeDbStatement(sql), 'SELECT * FROM t WHERE a = ?');
+  });
+
+  it('should keep the statement when the sanitizer is none', () => {
+    assert.strictEqual(sanitizeDbStatement(sql, 'none'), sql);
+  });
+});
+
+describe('serializeDbStatement', () => {
+  const statement = { text: "SELECT * FROM t WHERE a = 'secret'" };
+
+  it('should sanitize the statement without a serializer', () => {
+    assert.strictEqual(
+      serializeDbStatement(undefined, statement, undefined, diag),
+      'SELECT * FROM t WHERE a = ?'
+    );
+  });
+
+  it('should pass the text and values to the serializer', () => {
+    assert.strictEqual(
+      serializeDbStatement(
+        (text, values) => `${text} -- ${JSON.stringify(values)}`,
+        { text: 'SELECT ?', values: [1] },
+        undefined,
+        diag
+      ),
+      'SELECT ? -- [1]'
+    );
+  });
+
+  it('should sanitize the formatted text when set', () => {
+    assert.strictEqual(
+      serializeDbStatement(
+        undefined,
+        {
+          text: 'SELECT ?',
+          formattedText: "SELECT 'secret'",
+          sanitizer: 'none',
+        },
+        undefined,
+        diag
+      ),
+      "SELECT 'secret'"
+    );
+  });
+
+  it('should fall back to the sanitized statement when the serializer throws', () => {
+    const errors: unknown[][] = [];
+    const logger = {
+      ...diag,
+      error: (...args: unknown[]) => errors.push(args),
+    };
+    assert.strictEqual(
+      serializeDbStatement(
+        () => {
+          throw new Error('serializer error');
+        },
+        statement,
+        undefined,
+        logger
+      ),
+      'SELECT * FROM t WHERE a = ?'
+    );
+    assert.strictEqual(errors.length, 1);
+  });
+});
@@ -0,0 +1,71 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { INVALID_SPAN_CONTEXT, trace, TraceFlags } from '@opentelemetry/api';
+import { TraceState } from '@opentelemetry/core';
+import * as assert from 'assert';
+import { addSqlCommenterComment } from '../src';
+
+const spanContext = {
+  traceId: 'd4cda95b652f4a1592b449d5929fda1b',
+  spanId: '6e0c63257de34c92',
+  traceFlags: TraceFlags.SAMPLED,
+};
+
+describe('addSqlCommenterComment', () => {
+  it('should append the traceparent of the span', () => {
+    const span = trace.wrapSpanContext(spanContext);
+    assert.strictEqual(
+      addSqlCommenterComment(span, 'SELECT * FROM users'),
+      "SELECT * FROM users /*traceparent='00-d4cda95b652f4a1592b449d5929fda1b-6e0c63257de34c92-01'*/"
+    );
+  });
+
+  it('should url-encode the tracestate', () => {
+    const span = trace.wrapSpanContext({
+      ...spanContext,
+      traceState: new TraceState('congo=t61rcWkgMzE,rojo=00f067aa0ba902b7'),
+    });
+    assert.strictEqual(
+      addSqlCommenterComment(span, 'SELECT 1'),
+      "SELECT 1 /*traceparent='00-d4cda95b652f4a1592b449d5929fda1b-6e0c63257de34c92-01',tracestate='congo%3Dt61rcWkgMzE%2Crojo%3D00f067aa0ba902b7'*/"
+    );
+  });
+
+  it('should not modify queries that already contain a comment', () => {
+    const span = trace.wrapSpanContext(spanContext);
+    const queries = [
+      'SELECT /*+ INDEX(users idx) */ * FROM users',
+      'SELECT 1 -- trailing comment',
+    ];
+    for (const query of queries) {
+      assert.strictEqual(addSqlCommenterComment(span, query), query);
+    }
+  });
+
+  it('should ignore comment markers inside string literals', () => {
+    const span = trace.wrapSpanContext(spanContext);
+    assert.notStrictEqual(
+      addSqlCommenterComment(span, "SELECT '--' AS dashes"),
+      "SELECT '--' AS dashes"
+    );
+  });
+
+  it('should not modify the query for an invalid span context', () => {
+    const span = trace.wrapSpanContext(INVALID_SPAN_CONTEXT);
+    assert.strictEqual(addSqlCommenterComment(span, 'SELECT 1'), 'SELECT 1');
+  });
+});
@@ -0,0 +1,163 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { SqlTokenKind, tokenizeSql } from '../src';
+
+describe('tokenizeSql', () => {
+  it('should round-trip the original statement', () => {
+    const sql =
+      "SELECT a, \"b\" FROM `t` WHERE c = 'it''s' -- trailing\n AND d > 1.5e3 /* x */";
+    assert.strictEqual(
+      tokenizeSql(sql)
+        .map(token => token.text)
+        .join(''),
+      sql
+    );
+  });
+
+  it('should tokenize an empty statement', () => {
+    assert.deepStrictEqual(tokenizeSql(''), []);
+  });
+
+  it('should classify tokens', () => {
+    const kinds = tokenizeSql("SELECT 'a', 1, $1, ?, :name, @p1 FROM t")
+      .filter(token => token.kind !== SqlTokenKind.WHITESPACE)
+      .map(token => [token.kind, token.text]);
+    assert.deepStrictEqual(kinds, [
+      [SqlTokenKind.WORD, 'SELECT'],
+      [SqlTokenKind.STRING, "'a'"],
+      [SqlTokenKind.PUNCTUATION, ','],
+      [SqlTokenKind.NUMBER, '1'],
+      [SqlTokenKind.PUNCTUATION, ','],
+      [SqlTokenKind.PLACEHOLDER, '$1'],
+      [SqlTokenKind.PUNCTUATION, ','],
+      [SqlTokenKind.PLACEHOLDER, '?'],
+      [SqlTokenKind.PUNCTUATION, ','],
+      [SqlTokenKind.PLACEHOLDER, ':name'],
+      [SqlTokenKind.PUNCTUATION, ','],
+      [SqlTokenKind.PLACEHOLDER, '@p1'],
+      [SqlTokenKind.WORD, 'FROM'],
+      [SqlTokenKind.WORD, 't'],
+    ]);
+  });
+
+  it('should not split numbers out of identifiers', () => {
+    const tokens = tokenizeSql('t1.col2');
+    assert.deepStrictEqual(
+      tokens.map(token => token.kind),
+      [SqlTokenKind.WORD, SqlTokenKind.PUNCTUATION, SqlTokenKind.WORD]
+    );
+  });
+
+  it('should honor doubled quotes', () => {
+    const [token] = tokenizeSql("'a''b''c' rest");
+    assert.strictEqual(token.kind, SqlTokenKind.STRING);
+    assert.strictEqual(token.text, "'a''b''c'");
+  });
+
+  it('should not treat backslashes as escapes by default', () => {
+    const tokens = tokenizeSql("'C:\\' 'x'");
+    assert.deepStrictEqual(
+      tokens
+        .filter(token => token.kind === SqlTokenKind.STRING)
+        .map(token => token.text),
+      ["'C:\\'", "'x'"]
+    );
+  });
+
+  it('should honor backslash escapes in E strings', () => {
+    const [token] = tokenizeSql("E'a\\'b' rest");
+    assert.strictEqual(token.text, "E'a\\'b'");
+  });
+
+  it('should treat an unterminated literal as running to the end', () => {
+    const tokens = tokenizeSql("SELECT 'abc");
+    assert.deepStrictEqual(tokens[tokens.length - 1], {
+      kind: SqlTokenKind.STRING,
+      text: "'abc",
+    });
+  });
+
+  it('should tokenize dollar-quoted strings', () => {
+    const tokens = tokenizeSql('SELECT $tag$it is $1$tag$, $$x$$');
+    const strings = tokens.filter(token => token.kind === SqlTokenKind.STRING);
+    assert.deepStrictEqual(
+      strings.map(token => token.text),
+      ['$tag$it is $1$tag$', '$$x$$']
+    );
+  });
+
+  it('should tokenize prefixed strings', () => {
+    const tokens = tokenizeSql("N'abc' X'0F' E'\\n'");
+    assert.deepStrictEqual(
+      tokens
+        .filter(token => token.kind === SqlTokenKind.STRING)
+        .map(token => token.text),
+      ["N'abc'", "X'0F'", "E'\\n'"]
+    );
+  });
+
+  describe('dialect options', () => {
+    it('should treat double quotes as identifiers by default', () => {
+      assert.strictEqual(
+        tokenizeSql('"col"')[0].kind,
+        SqlTokenKind.QUOTED_IDENTIFIER
+      );
+    });
+
+    it('should treat double quotes as strings when configured', () => {
+      assert.strictEqual(
+        tokenizeSql('"abc"', { doubleQuotedStrings: true })[0].kind,
+        SqlTokenKind.STRING
+      );
+    });
+
+    it('should honor backslash escapes when configured', () => {
+      const [token] = tokenizeSql("'a\\'b''c' rest", {
+        backslashEscapes: true,
+      });
+      assert.strictEqual(token.kind, SqlTokenKind.STRING);
+      assert.strictEqual(token.text, "'a\\'b''c'");
+    });
+
+    it('should treat hash as an operator by default', () => {
+      assert.strictEqual(tokenizeSql('# x')[0].kind, SqlTokenKind.PUNCTUATION);
+    });
+
+    it('should treat hash as a line comment when configured', () => {
+      const tokens = tokenizeSql("# it's\n'x'", { hashComments: true });
+      assert.deepStrictEqual(tokens, [
+        { kind: SqlTokenKind.COMMENT, text: "# it's" },
+        { kind: SqlTokenKind.WHITESPACE, text: '\n' },
+        { kind: SqlTokenKind.STRING, text: "'x'" },
+      ]);
+    });
+
+    it('should treat brackets as identifiers when configured', () => {
+      assert.deepStrictEqual(
+        tokenizeSql('[dbo].[users]', { bracketIdentifiers: true }).map(
+          token => token.kind
+        ),
+        [
+          SqlTokenKind.QUOTED_IDENTIFIER,
+          SqlTokenKind.PUNCTUATION,
+          SqlTokenKind.QUOTED_IDENTIFIER,
+        ]
+      );
+    });
+  });
+});
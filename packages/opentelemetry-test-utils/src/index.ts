@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+export * from './metrics';
 export * from './resource-assertions';
 export * from './test-utils';
 export * from './instrumentations';
@@ -0,0 +1,128 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Attributes as MetricAttributes,
+  Counter,
+  Histogram,
+  MetricOptions,
+  NoopMeter,
+  ObservableCounter,
+  ObservableGauge,
+  ObservableResult,
+  ObservableUpDownCounter,
+  UpDownCounter,
+} from '@opentelemetry/api-metrics';
+
+export interface MetricRecord {
+  name: string;
+  value: number;
+  attributes?: MetricAttributes;
+}
+
+export interface MetricObservation {
+  value: number;
+  attributes?: MetricAttributes;
+}
+
+type ObservableCallback = (observableResult: ObservableResult) => void;
+
+/**
+ * A meter keeping the values recorded by its synchronous instruments, and the
+ * callbacks of its observable instruments so that tests can observe them.
+ *
+ * @example
+ * const meter = new RecordingMeter();
+ * instrumentation.setMeterProvider({ getMeter: () => meter });
+ */
+export class RecordingMeter extends NoopMeter {
+  records: MetricRecord[] = [];
+  callbacks = new Map<string, ObservableCallback>();
+
+  override createHistogram(name: string, _options?: MetricOptions): Histogram {
+    return { record: this._recorder(name) };
+  }
+
+  override createCounter(name: string, _options?: MetricOptions): Counter {
+    return { add: this._recorder(name) };
+  }
+
+  override createUpDownCounter(
+    name: string,
+    _options?: MetricOptions
+  ): UpDownCounter {
+    return { add: this._recorder(name) };
+  }
+
+  override createObservableGauge(
+    name: string,
+    options?: MetricOptions,
+    callback?: ObservableCallback
+  ): ObservableGauge {
+    this._addCallback(name, callback);
+    return super.createObservableGauge(name, options, callback);
+  }
+
+  override createObservableCounter(
+    name: string,
+    options?: MetricOptions,
+    callback?: ObservableCallback
+  ): ObservableCounter {
+    this._addCallback(name, callback);
+    return super.createObservableCounter(name, options, callback);
+  }
+
+  override createObservableUpDownCounter(
+    name: string,
+    options?: MetricOptions,
+    callback?: ObservableCallback
+  ): ObservableUpDownCounter {
+    this._addCallback(name, callback);
+    return super.createObservableUpDownCounter(name, options, callback);
+  }
+
+  /** Returns what the callback of an observable instrument observes */
+  observe(name: string): MetricObservation[] {
+    const observations: MetricObservation[] = [];
+    this.callbacks.get(name)!({
+      observe: (value, attributes) => observations.push({ value, attributes }),
+    });
+    return observations;
+  }
+
+  /** Sums the values recorded for an instrument with the given attributes */
+  sum(name: string, attributes: MetricAttributes): number {
+    return this.records
+      .filter(
+        record =>
+          record.name === name &&
+          JSON.stringify(record.attributes) === JSON.stringify(attributes)
+      )
+      .reduce((sum, record) => sum + record.value, 0);
+  }
+
+  private _recorder(name: string) {
+    return (value: number, attributes?: MetricAttributes) => {
+      this.records.push({ name, value, attributes });
+    };
+  }
+
+  private _addCallback(name: string, callback?: ObservableCallback) {
+    if (callback) {
+      this.callbacks.set(name, callback);
+    }
+  }
+}
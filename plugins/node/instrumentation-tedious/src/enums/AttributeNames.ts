@@ -0,0 +1,26 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Tedious specific attributes not covered by semantic conventions
+export enum AttributeNames {
+  PROCEDURE_COUNT = 'tedious.procedure_count',
+  STATEMENT_COUNT = 'tedious.statement_count',
+  ROW_COUNT = 'tedious.row_count',
+  // followed by the name of the parameter
+  PARAMETERS_PREFIX = 'tedious.parameters.',
+  TRANSACTION_NAME = 'tedious.transaction.name',
+  TRANSACTION_ISOLATION_LEVEL = 'tedious.transaction.isolation_level',
+}
@@ -19,4 +19,10 @@ import { TediousInstrumentation } from './instrumentation';
 export * from './instrumentation';
 export default TediousInstrumentation;
 
-export { TediousInstrumentationConfig } from './types';
+export {
+  TediousInstrumentationConfig,
+  TediousInstrumentationExecutionRequestHook,
+  TediousInstrumentationExecutionResponseHook,
+  TediousRequestHookInformation,
+  TediousResponseHookInformation,
+} from './types';
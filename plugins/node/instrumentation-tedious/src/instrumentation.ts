@@ -20,14 +20,25 @@ import {
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
   isWrapped,
+  safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
 import {
   DbSystemValues,
   SemanticAttributes,
 } from '@opentelemetry/semantic-conventions';
 import type * as tedious from 'tedious';
-import { TediousInstrumentationConfig } from './types';
-import { getSpanName, once } from './utils';
+import {
+  TediousInstrumentationConfig,
+  TediousRequestHookInformation,
+} from './types';
+import {
+  getDbStatement,
+  getIsolationLevelName,
+  getParameterAttributes,
+  getSpanName,
+  once,
+} from './utils';
+import { AttributeNames } from './enums/AttributeNames';
 import { VERSION } from './version';
 
 const CURRENT_DATABASE = Symbol(
@@ -41,6 +52,11 @@ const PATCHED_METHODS = [
   'prepare',
   'execute',
 ];
+const TRANSACTION_METHODS = [
+  'beginTransaction',
+  'commitTransaction',
+  'rollbackTransaction',
+];
 
 type UnknownFunction = (...args: any[]) => any;
 type ApproxConnection = EventEmitter & {
@@ -51,6 +67,7 @@ type ApproxRequest = EventEmitter & {
   sqlTextOrProcedure: string | undefined;
   callback: any;
   table: string | undefined;
+  parameters: any;
   parametersByName: any;
 };
 
@@ -70,6 +87,14 @@ export class TediousInstrumentation extends InstrumentationBase<
     super('@opentelemetry/instrumentation-tedious', VERSION, config);
   }
 
+  override setConfig(config: TediousInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): TediousInstrumentationConfig {
+    return this._config;
+  }
+
   protected init() {
     return [
       new InstrumentationNodeModuleDefinition<typeof tedious>(
@@ -89,6 +114,16 @@ export class TediousInstrumentation extends InstrumentationBase<
               this._patchQuery(method) as any
             );
           }
+          for (const method of TRANSACTION_METHODS) {
+            if (isWrapped(ConnectionPrototype[method])) {
+              this._unwrap(ConnectionPrototype, method);
+            }
+            this._wrap(
+              ConnectionPrototype,
+              method,
+              this._patchTransaction(method) as any
+            );
+          }
 
           if (isWrapped(ConnectionPrototype.connect)) {
             this._unwrap(ConnectionPrototype, 'connect');
@@ -103,6 +138,9 @@ export class TediousInstrumentation extends InstrumentationBase<
           for (const method of PATCHED_METHODS) {
             this._unwrap(ConnectionPrototype, method);
           }
+          for (const method of TRANSACTION_METHODS) {
+            this._unwrap(ConnectionPrototype, method);
+          }
           this._unwrap(ConnectionPrototype, 'connect');
         }
       ),
@@ -140,7 +178,13 @@ export class TediousInstrumentation extends InstrumentationBase<
         }
         let procCount = 0;
         let statementCount = 0;
-        const incrementStatementCount = () => statementCount++;
+        let rowCount: number | undefined;
+        const incrementStatementCount = (statementRowCount?: number) => {
+          statementCount++;
+          if (typeof statementRowCount === 'number') {
+            rowCount = (rowCount ?? 0) + statementRowCount;
+          }
+        };
         const incrementProcCount = () => procCount++;
         const databaseName = this[CURRENT_DATABASE];
         const sql = (request => {
@@ -159,16 +203,17 @@ export class TediousInstrumentation extends InstrumentationBase<
           {
             kind: api.SpanKind.CLIENT,
             attributes: {
-              [SemanticAttributes.DB_SYSTEM]: DbSystemValues.MSSQL,
-              [SemanticAttributes.DB_NAME]: databaseName,
-              [SemanticAttributes.NET_PEER_PORT]: this.config?.options?.port,
-              [SemanticAttributes.NET_PEER_NAME]: this.config?.server,
-              // >=4 uses `authentication` object, older versions just userName and password pair
-              [SemanticAttributes.DB_USER]:
-                this.config?.userName ??
-                this.config?.authentication?.options?.userName,
-              [SemanticAttributes.DB_STATEMENT]: sql,
+              ...getConnectionAttributes(this),
+              [SemanticAttributes.DB_STATEMENT]: getDbStatement(
+                thisPlugin.getConfig(),
+                sql
+              ),
               [SemanticAttributes.DB_SQL_TABLE]: request.table,
+              ...getParameterAttributes(
+                thisPlugin.getConfig(),
+                request.parameters,
+                operation === 'execute' ? arguments[1] : undefined
+              ),
             },
           }
         );
@@ -180,8 +225,11 @@ export class TediousInstrumentation extends InstrumentationBase<
           request.removeListener('error', endSpan);
           this.removeListener('end', endSpan);
 
-          span.setAttribute('tedious.procedure_count', procCount);
-          span.setAttribute('tedious.statement_count', statementCount);
+          span.setAttribute(AttributeNames.PROCEDURE_COUNT, procCount);
+          span.setAttribute(AttributeNames.STATEMENT_COUNT, statementCount);
+          if (rowCount !== undefined) {
+            span.setAttribute(AttributeNames.ROW_COUNT, rowCount);
+          }
           if (err) {
             span.setStatus({
               code: api.SpanStatusCode.ERROR,
@@ -201,12 +249,18 @@ export class TediousInstrumentation extends InstrumentationBase<
           thisPlugin._wrap(
             request,
             'callback',
-            thisPlugin._patchCallbackQuery(endSpan)
+            thisPlugin._patchCallbackQuery(span, request, endSpan)
           );
         } else {
           thisPlugin._diag.error('Expected request.callback to be a function');
         }
 
+        thisPlugin._runRequestHook(span, {
+          operation,
+          request: request as unknown as tedious.Request,
+          connection: this as unknown as tedious.Connection,
+        });
+
         return api.context.with(
           api.trace.setSpan(api.context.active(), span),
           originalMethod,
@@ -224,7 +278,85 @@ export class TediousInstrumentation extends InstrumentationBase<
     };
   }
 
-  private _patchCallbackQuery(endSpan: Function) {
+  private _patchTransaction(operation: string) {
+    return (originalMethod: UnknownFunction): UnknownFunction => {
+      const thisPlugin = this;
+      this._diag.debug(
+        `TediousInstrumentation: patched Connection.prototype.${operation}`
+      );
+
+      function patchedMethod(
+        this: ApproxConnection,
+        callback: unknown,
+        name?: string,
+        isolationLevel?: number
+      ) {
+        if (typeof callback !== 'function') {
+          return originalMethod.call(this, callback, name, isolationLevel);
+        }
+
+        const span = thisPlugin.tracer.startSpan(
+          getSpanName(operation, this[CURRENT_DATABASE], undefined, undefined),
+          {
+            kind: api.SpanKind.CLIENT,
+            attributes: getConnectionAttributes(this),
+          }
+        );
+        if (name) {
+          span.setAttribute(AttributeNames.TRANSACTION_NAME, name);
+        }
+        if (operation === 'beginTransaction') {
+          const isolationLevelName = getIsolationLevelName(
+            isolationLevel ?? this.config?.options?.isolationLevel
+          );
+          if (isolationLevelName) {
+            span.setAttribute(
+              AttributeNames.TRANSACTION_ISOLATION_LEVEL,
+              isolationLevelName
+            );
+          }
+        }
+
+        const patchedCallback = function (
+          this: unknown,
+          err?: Error | null,
+          ...args: unknown[]
+        ) {
+          if (err) {
+            span.setStatus({
+              code: api.SpanStatusCode.ERROR,
+              message: err.message,
+            });
+          }
+          span.end();
+          return callback.call(this, err, ...args);
+        };
+
+        return api.context.with(
+          api.trace.setSpan(api.context.active(), span),
+          originalMethod,
+          this,
+          patchedCallback,
+          name,
+          isolationLevel
+        );
+      }
+
+      Object.defineProperty(patchedMethod, 'length', {
+        value: originalMethod.length,
+        writable: false,
+      });
+
+      return patchedMethod;
+    };
+  }
+
+  private _patchCallbackQuery(
+    span: api.Span,
+    request: ApproxRequest,
+    endSpan: Function
+  ) {
+    const thisPlugin = this;
     return (originalCallback: Function) => {
       return function (
         this: any,
@@ -232,9 +364,70 @@ export class TediousInstrumentation extends InstrumentationBase<
         rowCount?: number,
         rows?: any
       ) {
+        if (!err) {
+          thisPlugin._runResponseHook(span, request, rowCount, rows);
+        }
         endSpan(err);
         return originalCallback.apply(this, arguments);
       };
     };
   }
+
+  private _runRequestHook(
+    span: api.Span,
+    requestInfo: TediousRequestHookInformation
+  ) {
+    const { requestHook } = this.getConfig();
+    if (!requestHook) {
+      return;
+    }
+    safeExecuteInTheMiddle(
+      () => requestHook(span, requestInfo),
+      err => {
+        if (err) {
+          this._diag.error('Error running request hook', err);
+        }
+      },
+      true
+    );
+  }
+
+  private _runResponseHook(
+    span: api.Span,
+    request: ApproxRequest,
+    rowCount?: number,
+    rows?: unknown[]
+  ) {
+    const { responseHook } = this.getConfig();
+    if (!responseHook) {
+      return;
+    }
+    safeExecuteInTheMiddle(
+      () =>
+        responseHook(span, {
+          request: request as unknown as tedious.Request,
+          rowCount,
+          rows,
+        }),
+      err => {
+        if (err) {
+          this._diag.error('Error running response hook', err);
+        }
+      },
+      true
+    );
+  }
+}
+
+function getConnectionAttributes(connection: ApproxConnection) {
+  return {
+    [SemanticAttributes.DB_SYSTEM]: DbSystemValues.MSSQL,
+    [SemanticAttributes.DB_NAME]: connection[CURRENT_DATABASE],
+    [SemanticAttributes.NET_PEER_PORT]: connection.config?.options?.port,
+    [SemanticAttributes.NET_PEER_NAME]: connection.config?.server,
+    // >=4 uses `authentication` object, older versions just userName and password pair
+    [SemanticAttributes.DB_USER]:
+      connection.config?.userName ??
+      connection.config?.authentication?.options?.userName,
+  };
 }
@@ -14,6 +14,79 @@
  * limitations under the License.
  */
 
+import type * as api from '@opentelemetry/api';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
+import type { Connection, Request } from 'tedious';
 
-export type TediousInstrumentationConfig = InstrumentationConfig;
+export interface TediousRequestHookInformation {
+  /** The patched `Connection` method, eg. `execSql` or `callProcedure` */
+  operation: string;
+  request: Request;
+  connection: Connection;
+}
+
+export interface TediousInstrumentationExecutionRequestHook {
+  (span: api.Span, requestInfo: TediousRequestHookInformation): void;
+}
+
+export interface TediousResponseHookInformation {
+  request: Request;
+  rowCount?: number;
+  /**
+   * Rows of the request, only collected by tedious with the
+   * `rowCollectionOnRequestCompletion` connection option.
+   */
+  rows?: unknown[];
+}
+
+export interface TediousInstrumentationExecutionResponseHook {
+  (span: api.Span, responseInfo: TediousResponseHookInformation): void;
+}
+
+export interface TediousInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * How literals are stripped from the db.statement tag.
+   * Defaults to `obfuscate`.
+   */
+  dbStatementSanitizer?: DbStatementSanitizer;
+
+  /**
+   * Custom serializer function for the db.statement tag. Takes precedence
+   * over `dbStatementSanitizer`.
+   */
+  dbStatementSerializer?: DbStatementSerializer;
+
+  /**
+   * Hook that allows adding custom span attributes once the request has been
+   * handed to the connection.
+   *
+   * @default undefined
+   */
+  requestHook?: TediousInstrumentationExecutionRequestHook;
+
+  /**
+   * Hook that allows adding custom span attributes once the request
+   * completed successfully.
+   *
+   * @default undefined
+   */
+  responseHook?: TediousInstrumentationExecutionResponseHook;
+
+  /**
+   * Record the values of the request parameters, eg. the arguments of
+   * `callProcedure`, as `tedious.parameters.<name>` attributes.
+   *
+   * @default false
+   */
+  captureParameters?: boolean;
+
+  /**
+   * Names of the parameters whose values are recorded as `[REDACTED]` when
+   * `captureParameters` is enabled, compared case-insensitively.
+   */
+  redactedParameters?: string[];
+}
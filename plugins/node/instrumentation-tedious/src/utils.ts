@@ -14,6 +14,22 @@
  * limitations under the License.
  */
 
+import { serializeDbStatement } from '@opentelemetry/sql-common';
+import { diag, SpanAttributes } from '@opentelemetry/api';
+import { TediousInstrumentationConfig } from './types';
+import { AttributeNames } from './enums/AttributeNames';
+
+const REDACTED = '[REDACTED]';
+// indexed by the values of tedious' ISOLATION_LEVEL
+const ISOLATION_LEVELS = [
+  'NO_CHANGE',
+  'READ_UNCOMMITTED',
+  'READ_COMMITTED',
+  'REPEATABLE_READ',
+  'SERIALIZABLE',
+  'SNAPSHOT',
+];
+
 /**
  * The span name SHOULD be set to a low cardinality value
  * representing the statement executed on the database.
@@ -43,6 +59,25 @@ export function getSpanName(
   return `${operation}`;
 }
 
+/**
+ * @returns the db.statement tag for the request. The SQL text, or the procedure
+ * name of `callProcedure`, goes through the configured serializer or sanitizer.
+ */
+export function getDbStatement(
+  config: TediousInstrumentationConfig,
+  sql: string | undefined
+): string | undefined {
+  if (typeof sql !== 'string') {
+    return sql;
+  }
+  return serializeDbStatement(
+    config.dbStatementSerializer,
+    { text: sql, sanitizer: config.dbStatementSanitizer },
+    { bracketIdentifiers: true },
+    diag
+  );
+}
+
 export const once = (fn: Function) => {
   let called = false;
   return (...args: unknown[]) => {
@@ -51,3 +86,64 @@ export const once = (fn: Function) => {
     return fn(...args);
   };
 };
+
+/**
+ * Attributes for the parameters of a request, as added by `addParameter`.
+ * `execute` passes the values of the prepared request parameters separately.
+ */
+export function getParameterAttributes(
+  config: TediousInstrumentationConfig,
+  parameters: Array<{ name: string; value?: unknown }> | undefined,
+  values?: { [name: string]: unknown }
+): SpanAttributes {
+  const attributes: SpanAttributes = {};
+  if (!config.captureParameters || !Array.isArray(parameters)) {
+    return attributes;
+  }
+  const redacted = (config.redactedParameters ?? []).map(name =>
+    name.replace(/^@/, '').toLowerCase()
+  );
+  for (const { name, value } of parameters) {
+    const key = AttributeNames.PARAMETERS_PREFIX + name;
+    if (redacted.includes(name.replace(/^@/, '').toLowerCase())) {
+      attributes[key] = REDACTED;
+    } else {
+      attributes[key] = serializeParameterValue(
+        values && name in values ? values[name] : value
+      );
+    }
+  }
+  return attributes;
+}
+
+function serializeParameterValue(value: unknown): string | number | boolean {
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `<Buffer ${value.length} bytes>`;
+  }
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export function getIsolationLevelName(
+  isolationLevel: unknown
+): string | undefined {
+  return typeof isolationLevel === 'number'
+    ? ISOLATION_LEVELS[isolationLevel]
+    : undefined;
+}
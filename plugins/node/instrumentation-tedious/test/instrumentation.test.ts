@@ -27,6 +27,7 @@ import {
 } from '@opentelemetry/sdk-trace-base';
 import * as assert from 'assert';
 import { TediousInstrumentation } from '../src';
+import { AttributeNames } from '../src/enums/AttributeNames';
 import makeApi from './api';
 import type { Connection, ConnectionConfig } from 'tedious';
 
@@ -141,7 +142,7 @@ describe('tedious', () => {
 
     assertSpan(spans[0], {
       name: 'execSql master',
-      sql: queryString,
+      sql: 'SELECT ?, ?',
       parentSpan,
     });
 
@@ -182,7 +183,7 @@ describe('tedious', () => {
 
     assertSpan(spans[0], {
       name: 'execSql master',
-      sql: queryString,
+      sql: 'SELECT ?; SELECT ?; SELECT ?;',
       procCount: 1,
       statementCount: 3,
     });
@@ -199,7 +200,7 @@ describe('tedious', () => {
 
     assertSpan(spans[0], {
       name: 'execSqlBatch master',
-      sql: queryString,
+      sql: 'SELECT ?; SELECT ?; SELECT ?;',
       procCount: 0,
       statementCount: 3,
     });
@@ -274,7 +275,7 @@ describe('tedious', () => {
     });
     assertSpan(spans[2], {
       name: 'execSql temp_otel_db',
-      sql: sql.select,
+      sql: 'SELECT ?, ?',
       database: 'temp_otel_db',
     });
   });
@@ -301,6 +302,238 @@ describe('tedious', () => {
       table: 'test_bulk',
     });
   });
+
+  it('should instrument transactions', async () => {
+    assert.deepStrictEqual(await tedious.transaction.execute(connection), [1]);
+    const spans = memoryExporter.getFinishedSpans();
+    assert.strictEqual(spans.length, 5, 'Received incorrect number of spans');
+
+    assertTransactionSpan(spans[0], 'beginTransaction master');
+    assert.strictEqual(
+      spans[0].attributes[AttributeNames.TRANSACTION_ISOLATION_LEVEL],
+      'READ_COMMITTED'
+    );
+    assertSpan(spans[1], {
+      name: 'execSql master',
+      sql: /CREATE TABLE/,
+    });
+    assertSpan(spans[2], {
+      name: 'execSql master',
+      sql: /INSERT INTO/,
+    });
+    assert.strictEqual(spans[2].attributes[AttributeNames.ROW_COUNT], 1);
+    assertTransactionSpan(spans[3], 'commitTransaction master');
+    assert.strictEqual(
+      spans[3].attributes[AttributeNames.TRANSACTION_ISOLATION_LEVEL],
+      undefined
+    );
+    assertSpan(spans[4], {
+      name: 'execSql master',
+      sql: /SELECT \* FROM/,
+    });
+  });
+
+  it('should instrument rolled back transactions', async () => {
+    assert.strictEqual(await tedious.transaction.fail(connection), true);
+    const spans = memoryExporter.getFinishedSpans();
+    assert.strictEqual(spans.length, 6, 'Received incorrect number of spans');
+
+    assertTransactionSpan(spans[0], 'beginTransaction master');
+    assertTransactionSpan(spans[4], 'rollbackTransaction master');
+  });
+
+  describe('captureParameters', () => {
+    afterEach(() => {
+      instrumentation.setConfig();
+    });
+
+    it('should not record parameters by default', async () => {
+      assert.strictEqual(
+        await tedious.storedProcedure.create(connection),
+        true
+      );
+      await tedious.storedProcedure.call(connection);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        spans[1].attributes[`${AttributeNames.PARAMETERS_PREFIX}inputVal`],
+        undefined
+      );
+    });
+
+    it('should record the parameters of stored procedure calls', async () => {
+      instrumentation.setConfig({ captureParameters: true });
+      assert.strictEqual(
+        await tedious.storedProcedure.create(connection),
+        true
+      );
+      await tedious.storedProcedure.call(connection);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 2, 'Received incorrect number of spans');
+      assert.strictEqual(
+        spans[1].attributes[`${AttributeNames.PARAMETERS_PREFIX}inputVal`],
+        'hello world'
+      );
+      assert.strictEqual(
+        spans[1].attributes[`${AttributeNames.PARAMETERS_PREFIX}outputCount`],
+        'undefined'
+      );
+    });
+
+    it('should record the values of executed prepared statements', async () => {
+      instrumentation.setConfig({ captureParameters: true });
+      assert.strictEqual(
+        await tedious.preparedSQL.createTable(connection),
+        true
+      );
+      const request = await tedious.preparedSQL.prepare(connection);
+      await tedious.preparedSQL.execute(connection, request);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 3, 'Received incorrect number of spans');
+      assert.strictEqual(
+        spans[2].attributes[`${AttributeNames.PARAMETERS_PREFIX}val1`],
+        1
+      );
+      assert.strictEqual(
+        spans[2].attributes[`${AttributeNames.PARAMETERS_PREFIX}val2`],
+        2
+      );
+    });
+
+    it('should redact the configured parameters', async () => {
+      instrumentation.setConfig({
+        captureParameters: true,
+        redactedParameters: ['@INPUTVAL'],
+      });
+      assert.strictEqual(
+        await tedious.storedProcedure.create(connection),
+        true
+      );
+      await tedious.storedProcedure.call(connection);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        spans[1].attributes[`${AttributeNames.PARAMETERS_PREFIX}inputVal`],
+        '[REDACTED]'
+      );
+    });
+  });
+
+  describe('hooks', () => {
+    afterEach(() => {
+      instrumentation.setConfig();
+    });
+
+    it('should call the requestHook and responseHook', async () => {
+      instrumentation.setConfig({
+        requestHook: (span, { operation, request, connection: conn }) => {
+          assert.strictEqual(conn, connection);
+          span.setAttribute(
+            'test.request',
+            `${operation} ${(request as any).sqlTextOrProcedure}`
+          );
+        },
+        responseHook: (span, { rowCount, rows }) => {
+          span.setAttribute('test.row_count', rowCount!);
+          span.setAttribute('test.rows', rows!.length);
+        },
+      });
+      await tedious.query(connection, 'SELECT 42');
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 1, 'Received incorrect number of spans');
+      assert.strictEqual(
+        spans[0].attributes['test.request'],
+        'execSql SELECT 42'
+      );
+      assert.strictEqual(spans[0].attributes['test.row_count'], 1);
+      assert.strictEqual(spans[0].attributes['test.rows'], 1);
+    });
+
+    it('should not call the responseHook on errors', async () => {
+      let called = false;
+      instrumentation.setConfig({
+        responseHook: () => {
+          called = true;
+        },
+      });
+      await assertRejects(
+        () => tedious.query(connection, 'select !'),
+        /incorrect syntax/i
+      );
+      assert.strictEqual(called, false);
+    });
+
+    it('should not fail when the hooks throw', async () => {
+      instrumentation.setConfig({
+        requestHook: () => {
+          throw new Error('requestHook failure');
+        },
+        responseHook: () => {
+          throw new Error('responseHook failure');
+        },
+      });
+      assert.deepStrictEqual(await tedious.query(connection, 'SELECT 42'), [
+        42,
+      ]);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 1, 'Received incorrect number of spans');
+    });
+  });
+
+  describe('db.statement', () => {
+    afterEach(() => {
+      instrumentation.setConfig();
+    });
+
+    it('should keep literals when the sanitizer is disabled', async () => {
+      instrumentation.setConfig({ dbStatementSanitizer: 'none' });
+      const queryString = "SELECT 42, 'hello world'";
+      await tedious.query(connection, queryString);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 1, 'Received incorrect number of spans');
+      assertSpan(spans[0], {
+        name: 'execSql master',
+        sql: queryString,
+      });
+    });
+
+    it('should use the custom serializer when provided', async () => {
+      instrumentation.setConfig({
+        dbStatementSerializer: sql => `custom: ${sql.length}`,
+      });
+      await tedious.query(connection, 'SELECT 42');
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 1, 'Received incorrect number of spans');
+      assertSpan(spans[0], {
+        name: 'execSql master',
+        sql: 'custom: 9',
+      });
+    });
+
+    it('should serialize the procedure names of stored procedure calls', async () => {
+      assert.strictEqual(
+        await tedious.storedProcedure.create(connection),
+        true
+      );
+      instrumentation.setConfig({
+        dbStatementSerializer: sql => `custom: ${sql}`,
+      });
+      await tedious.storedProcedure.call(connection);
+
+      const spans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(spans.length, 2, 'Received incorrect number of spans');
+      assertSpan(spans[1], {
+        name: `callProcedure ${tedious.storedProcedure.procedureName} master`,
+        sql: `custom: ${tedious.storedProcedure.procedureName}`,
+      });
+    });
+  });
 });
 
 const assertMatch = (actual: string | undefined, expected: RegExp) => {
@@ -330,6 +563,19 @@ const assertRejects = (
     });
 };
 
+function assertTransactionSpan(span: ReadableSpan, name: string) {
+  assert(span);
+  assert.strictEqual(span.name, name);
+  assert.strictEqual(span.kind, SpanKind.CLIENT);
+  assert.strictEqual(span.attributes[SemanticAttributes.DB_SYSTEM], 'mssql');
+  assert.strictEqual(span.attributes[SemanticAttributes.DB_NAME], database);
+  assert.strictEqual(
+    span.attributes[SemanticAttributes.DB_STATEMENT],
+    undefined
+  );
+  assert.strictEqual(span.status.code, SpanStatusCode.UNSET);
+}
+
 function assertSpan(span: ReadableSpan, expected: any) {
   assert(span);
   assert.strictEqual(span.name, expected.name);
@@ -15,4 +15,8 @@
  */
 
 export * from './instrumentation';
-export { CassandraDriverInstrumentationConfig } from './types';
+export {
+  CassandraDriverInstrumentationConfig,
+  CassandraDriverResponseCustomAttributeFunction,
+  CassandraDriverResponseHookInformation,
+} from './types';
@@ -16,6 +16,7 @@
 
 import {
   context,
+  diag,
   trace,
   Span,
   SpanAttributes,
@@ -29,17 +30,47 @@ import {
   isWrapped,
   safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
-import { CassandraDriverInstrumentationConfig } from './types';
+import { serializeDbStatement } from '@opentelemetry/sql-common';
+import {
+  CassandraDriverClientWithOptions,
+  CassandraDriverExecutionOptions,
+  CassandraDriverInstrumentationConfig,
+} from './types';
 import {
   SemanticAttributes,
+  DbCassandraConsistencyLevelValues,
   DbSystemValues,
 } from '@opentelemetry/semantic-conventions';
+import { AttributeNames } from './enums/AttributeNames';
+import { EventNames } from './enums/EventNames';
 import { VERSION } from './version';
 import { EventEmitter } from 'events';
 import type * as CassandraDriver from 'cassandra-driver';
 
 const supportedVersions = ['>=4.4 <5.0'];
 
+// indexed by the protocol value of the consistency level
+const consistencyLevels = [
+  DbCassandraConsistencyLevelValues.ANY,
+  DbCassandraConsistencyLevelValues.ONE,
+  DbCassandraConsistencyLevelValues.TWO,
+  DbCassandraConsistencyLevelValues.THREE,
+  DbCassandraConsistencyLevelValues.QUORUM,
+  DbCassandraConsistencyLevelValues.ALL,
+  DbCassandraConsistencyLevelValues.LOCAL_QUORUM,
+  DbCassandraConsistencyLevelValues.EACH_QUORUM,
+  DbCassandraConsistencyLevelValues.SERIAL,
+  DbCassandraConsistencyLevelValues.LOCAL_SERIAL,
+  DbCassandraConsistencyLevelValues.LOCAL_ONE,
+];
+
+interface ExecutionDetails {
+  consistency?: number;
+  fetchSize?: number;
+  pageState?: Buffer | string;
+  prepared?: boolean;
+}
+
 export class CassandraDriverInstrumentation extends InstrumentationBase {
   constructor(config: CassandraDriverInstrumentationConfig = {}) {
     super('@opentelemetry/instrumentation-cassandra-driver', VERSION, config);
@@ -117,6 +148,20 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
     return config.maxQueryLength ?? 65536;
   }
 
+  private _serializeStatement(query: unknown, params?: unknown): string {
+    const config = this.getConfig() as CassandraDriverInstrumentationConfig;
+    return serializeDbStatement(
+      config.dbStatementSerializer,
+      {
+        text: String(query),
+        values: params,
+        sanitizer: config.dbStatementSanitizer,
+      },
+      undefined,
+      this._diag
+    );
+  }
+
   private _shouldIncludeDbStatement(): boolean {
     const config = this.getConfig() as CassandraDriverInstrumentationConfig;
     return config.enhancedDatabaseReporting ?? false;
@@ -131,7 +176,18 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
         this: CassandraDriver.Client,
         ...args: unknown[]
       ) {
-        const span = plugin.startSpan({ op: 'execute', query: args[0] }, this);
+        const execOptions = args[2] as
+          | CassandraDriverExecutionOptions
+          | undefined;
+        const span = plugin.startSpan(
+          {
+            op: 'execute',
+            query: args[0],
+            params: args[1],
+            details: getExecutionDetails(execOptions),
+          },
+          this
+        );
 
         const execContext = trace.setSpan(context.active(), span);
         const execPromise = safeExecuteInTheMiddle(
@@ -147,7 +203,9 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
           }
         );
 
-        const wrappedPromise = wrapPromise(span, execPromise);
+        const wrappedPromise = wrapPromise(span, execPromise, result =>
+          plugin._onResult(span, this, result)
+        );
 
         return context.bind(execContext, wrappedPromise);
       };
@@ -180,12 +238,24 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
     return (original: (...args: unknown[]) => unknown) => {
       const plugin = this;
       return function patchedBatch(
-        this: CassandraDriver.Client,
+        this: CassandraDriverClientWithOptions,
         ...args: unknown[]
       ) {
         const queries = Array.isArray(args[0]) ? args[0] : [];
+        const options =
+          typeof args[1] === 'object' && args[1] !== null
+            ? (args[1] as CassandraDriver.QueryOptions)
+            : {};
+        const defaults = this.options?.queryOptions ?? {};
         const span = plugin.startSpan(
-          { op: 'batch', query: combineQueries(queries) },
+          {
+            op: 'batch',
+            query: queries,
+            details: {
+              consistency: options.consistency ?? defaults.consistency,
+              prepared: options.prepare ?? defaults.prepare,
+            },
+          },
           this
         );
 
@@ -200,7 +270,7 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
             this: unknown,
             ...cbArgs: Parameters<typeof originalCallback>
           ) {
-            const error = cbArgs[0];
+            const [error, result] = cbArgs;
 
             if (error) {
               span.setStatus({
@@ -208,6 +278,8 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
                 message: error.message,
               });
               span.recordException(error);
+            } else {
+              plugin._onResult(span, client, result);
             }
 
             span.end();
@@ -215,6 +287,7 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
             return originalCallback.apply(this, cbArgs);
           };
 
+          const client = this;
           args[args.length - 1] = patchedCallback;
 
           return context.with(batchContext, () => {
@@ -236,7 +309,9 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
           }
         );
 
-        const wrappedPromise = wrapPromise(span, batchPromise);
+        const wrappedPromise = wrapPromise(span, batchPromise, result =>
+          plugin._onResult(span, this, result)
+        );
 
         return context.bind(batchContext, wrappedPromise);
       };
@@ -290,21 +365,60 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
     };
   }
 
+  private _onResult(
+    span: Span,
+    client: CassandraDriver.Client,
+    result: CassandraDriver.types.ResultSet
+  ) {
+    if (result?.info) {
+      span.setAttributes(getCoordinatorAttributes(client, result.info));
+      recordTriedHosts(span, result.info.triedHosts);
+    }
+
+    const config = this.getConfig() as CassandraDriverInstrumentationConfig;
+    if (typeof config.responseHook === 'function') {
+      safeExecuteInTheMiddle(
+        () => config.responseHook!(span, { response: result }),
+        err => {
+          if (err) {
+            diag.error('Error running response hook', err);
+          }
+        },
+        true
+      );
+    }
+  }
+
   public startSpan(
-    { op, query }: { op: string; query?: unknown },
+    {
+      op,
+      query,
+      params,
+      details,
+    }: {
+      op: string;
+      query?: unknown;
+      params?: unknown;
+      details?: ExecutionDetails;
+    },
     client: CassandraDriver.Client
   ): Span {
     const attributes: SpanAttributes = {
       [SemanticAttributes.DB_SYSTEM]: DbSystemValues.CASSANDRA,
+      ...getExecutionAttributes(details),
     };
 
     if (this._shouldIncludeDbStatement() && query !== undefined) {
-      const statement = truncateQuery(query, this._getMaxQueryLength());
+      // batch queries are combined into a single statement
+      const serialized = Array.isArray(query)
+        ? combineQueries(query, (q, p) => this._serializeStatement(q, p))
+        : this._serializeStatement(query, params);
+      const statement = truncateQuery(serialized, this._getMaxQueryLength());
       attributes[SemanticAttributes.DB_STATEMENT] = statement;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const user = (client as any).options?.credentials?.username;
+    const user = (client as CassandraDriverClientWithOptions).options
+      ?.credentials?.username;
 
     if (user) {
       attributes[SemanticAttributes.DB_USER] = user;
@@ -321,6 +435,96 @@ export class CassandraDriverInstrumentation extends InstrumentationBase {
   }
 }
 
+function getExecutionDetails(
+  execOptions?: CassandraDriverExecutionOptions
+): ExecutionDetails | undefined {
+  if (typeof execOptions?.getConsistency !== 'function') {
+    return undefined;
+  }
+  return {
+    consistency: execOptions.getConsistency(),
+    fetchSize: execOptions.getFetchSize(),
+    pageState: execOptions.getPageState(),
+    prepared: execOptions.isPrepared(),
+  };
+}
+
+function getExecutionAttributes(details?: ExecutionDetails): SpanAttributes {
+  const attributes: SpanAttributes = {};
+  if (details === undefined) {
+    return attributes;
+  }
+
+  const { consistency, fetchSize, pageState, prepared } = details;
+  if (consistency !== undefined && consistencyLevels[consistency]) {
+    attributes[SemanticAttributes.DB_CASSANDRA_CONSISTENCY_LEVEL] =
+      consistencyLevels[consistency];
+  }
+  if (typeof fetchSize === 'number') {
+    attributes[SemanticAttributes.DB_CASSANDRA_PAGE_SIZE] = fetchSize;
+  }
+  if (pageState) {
+    attributes[AttributeNames.PAGE_STATE] = Buffer.isBuffer(pageState)
+      ? pageState.toString('hex')
+      : pageState;
+  }
+  attributes[AttributeNames.PREPARED] = !!prepared;
+  return attributes;
+}
+
+function getCoordinatorAttributes(
+  client: CassandraDriver.Client,
+  info: CassandraDriver.types.ResultSet['info']
+): SpanAttributes {
+  const attributes: SpanAttributes = {
+    [SemanticAttributes.DB_CASSANDRA_SPECULATIVE_EXECUTION_COUNT]:
+      info.speculativeExecutions ?? 0,
+  };
+  if (!info.queriedHost) {
+    return attributes;
+  }
+  Object.assign(attributes, getPeerAttributes(info.queriedHost));
+
+  const host = client.hosts?.get(info.queriedHost);
+  if (host?.hostId) {
+    attributes[SemanticAttributes.DB_CASSANDRA_COORDINATOR_ID] =
+      host.hostId.toString();
+  }
+  if (host?.datacenter) {
+    attributes[SemanticAttributes.DB_CASSANDRA_COORDINATOR_DC] =
+      host.datacenter;
+  }
+  return attributes;
+}
+
+// host addresses are `host:port`
+function getPeerAttributes(address: string): SpanAttributes {
+  const separatorIndex = address.lastIndexOf(':');
+  const port = parseInt(address.slice(separatorIndex + 1), 10);
+  if (separatorIndex === -1 || isNaN(port)) {
+    return { [SemanticAttributes.NET_PEER_NAME]: address };
+  }
+  return {
+    [SemanticAttributes.NET_PEER_NAME]: address.slice(0, separatorIndex),
+    [SemanticAttributes.NET_PEER_PORT]: port,
+  };
+}
+
+// the hosts queried before the one that served the request, by address
+function recordTriedHosts(
+  span: Span,
+  triedHosts: { [address: string]: unknown } | undefined
+) {
+  Object.keys(triedHosts ?? {}).forEach(address => {
+    const error = triedHosts![address];
+    span.addEvent(EventNames.TRIED_HOST, {
+      ...getPeerAttributes(address),
+      [SemanticAttributes.EXCEPTION_MESSAGE]:
+        error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
 function failSpan(span: Span, error: Error) {
   span.setStatus({
     code: SpanStatusCode.ERROR,
@@ -330,16 +534,28 @@ function failSpan(span: Span, error: Error) {
   span.end();
 }
 
-function combineQueries(queries: Array<string | { query: string }>) {
+function combineQueries(
+  queries: Array<string | { query: string; params?: unknown }>,
+  serialize: (query: string, params?: unknown) => string
+) {
   return queries
-    .map(query => (typeof query === 'string' ? query : query.query))
+    .map(query =>
+      typeof query === 'string'
+        ? serialize(query)
+        : serialize(query.query, query.params)
+    )
     .join('\n');
 }
 
-function wrapPromise<T>(span: Span, promise: Promise<T>): Promise<T> {
+function wrapPromise<T>(
+  span: Span,
+  promise: Promise<T>,
+  onResult?: (result: T) => void
+): Promise<T> {
   return promise
     .then(result => {
       return new Promise<T>(resolve => {
+        onResult?.(result);
         span.end();
         resolve(result);
       });
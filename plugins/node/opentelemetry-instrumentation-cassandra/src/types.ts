@@ -14,7 +14,21 @@
  * limitations under the License.
  */
 
+import type { Span } from '@opentelemetry/api';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
+import type * as CassandraDriver from 'cassandra-driver';
+
+export interface CassandraDriverResponseHookInformation {
+  response: CassandraDriver.types.ResultSet;
+}
+
+export interface CassandraDriverResponseCustomAttributeFunction {
+  (span: Span, responseInfo: CassandraDriverResponseHookInformation): void;
+}
 
 export interface CassandraDriverInstrumentationConfig
   extends InstrumentationConfig {
@@ -29,4 +43,39 @@ export interface CassandraDriverInstrumentationConfig
    * @default 65536
    */
   maxQueryLength?: number;
+  /**
+   * How literals are stripped from recorded statements.
+   * @default 'obfuscate'
+   */
+  dbStatementSanitizer?: DbStatementSanitizer;
+  /**
+   * Custom serializer function for recorded statements.
+   * Takes precedence over `dbStatementSanitizer`.
+   */
+  dbStatementSerializer?: DbStatementSerializer;
+  /**
+   * Hook that allows adding custom span attributes based on the result set
+   * of `execute` and `batch` calls.
+   * @default undefined
+   */
+  responseHook?: CassandraDriverResponseCustomAttributeFunction;
 }
+
+/**
+ * The options of a single execution, built by the driver from the query
+ * options and the client defaults. Not part of the driver's types.
+ */
+export interface CassandraDriverExecutionOptions {
+  getConsistency(): number | undefined;
+  getFetchSize(): number | undefined;
+  getPageState(): Buffer | undefined;
+  isPrepared(): boolean | undefined;
+}
+
+/**
+ * A client exposing the options it was created with, e.g. the default
+ * `queryOptions`. Not part of the driver's types.
+ */
+export type CassandraDriverClientWithOptions = CassandraDriver.Client & {
+  options?: CassandraDriver.ClientOptions;
+};
@@ -21,6 +21,7 @@ import {
 } from '@opentelemetry/sdk-trace-base';
 import {
   context,
+  SpanAttributes,
   SpanKind,
   SpanStatus,
   SpanStatusCode,
@@ -29,6 +30,7 @@ import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import {
   SemanticAttributes,
+  DbCassandraConsistencyLevelValues,
   DbSystemValues,
 } from '@opentelemetry/semantic-conventions';
 import * as assert from 'assert';
@@ -38,6 +40,7 @@ import {
   CassandraDriverInstrumentation,
   CassandraDriverInstrumentationConfig,
 } from '../src';
+import { AttributeNames } from '../src/enums/AttributeNames';
 
 const memoryExporter = new InMemorySpanExporter();
 const provider = new NodeTracerProvider();
@@ -49,17 +52,61 @@ const testCassandraLocally = process.env.RUN_CASSANDRA_TESTS_LOCAL;
 const shouldTest = testCassandra || testCassandraLocally;
 const cassandraTimeoutMs = 60000;
 
+// attributes of the execution options, with the client defaults
+const executionAttributes: { [name: string]: SpanAttributes } = {
+  'cassandra-driver.execute': {
+    [SemanticAttributes.DB_CASSANDRA_CONSISTENCY_LEVEL]:
+      DbCassandraConsistencyLevelValues.LOCAL_ONE,
+    [SemanticAttributes.DB_CASSANDRA_PAGE_SIZE]: 5000,
+    [AttributeNames.PREPARED]: false,
+  },
+  'cassandra-driver.batch': {
+    [SemanticAttributes.DB_CASSANDRA_CONSISTENCY_LEVEL]:
+      DbCassandraConsistencyLevelValues.LOCAL_ONE,
+    [AttributeNames.PREPARED]: false,
+  },
+};
+
+// the coordinator depends on the cluster, only its datacenter is known
+function getCoordinatorAttributes(span: ReadableSpan): SpanAttributes {
+  assert.strictEqual(
+    typeof span.attributes[SemanticAttributes.NET_PEER_NAME],
+    'string'
+  );
+  assert.strictEqual(
+    typeof span.attributes[SemanticAttributes.DB_CASSANDRA_COORDINATOR_ID],
+    'string'
+  );
+  return {
+    [SemanticAttributes.NET_PEER_NAME]:
+      span.attributes[SemanticAttributes.NET_PEER_NAME],
+    [SemanticAttributes.NET_PEER_PORT]: 9042,
+    [SemanticAttributes.DB_CASSANDRA_COORDINATOR_ID]:
+      span.attributes[SemanticAttributes.DB_CASSANDRA_COORDINATOR_ID],
+    [SemanticAttributes.DB_CASSANDRA_COORDINATOR_DC]: 'datacenter1',
+    [SemanticAttributes.DB_CASSANDRA_SPECULATIVE_EXECUTION_COUNT]: 0,
+  };
+}
+
 function assertSpan(
   span: ReadableSpan,
   name: string,
   query?: string,
   status?: SpanStatus
 ) {
-  const attributes = {
+  const attributes: SpanAttributes = {
     [SemanticAttributes.DB_SYSTEM]: DbSystemValues.CASSANDRA,
     [SemanticAttributes.DB_USER]: 'cassandra',
   };
 
+  if (name in executionAttributes) {
+    Object.assign(
+      attributes,
+      executionAttributes[name],
+      getCoordinatorAttributes(span)
+    );
+  }
+
   if (query !== undefined) {
     attributes[SemanticAttributes.DB_STATEMENT] = query;
   }
@@ -85,9 +132,10 @@ function assertErrorSpan(
   assert.strictEqual(spans.length, 1);
   const [span] = spans;
 
-  const attributes = {
+  const attributes: SpanAttributes = {
     [SemanticAttributes.DB_SYSTEM]: DbSystemValues.CASSANDRA,
     [SemanticAttributes.DB_USER]: 'cassandra',
+    ...executionAttributes[name],
   };
 
   if (query !== undefined) {
@@ -227,6 +275,111 @@ describe('CassandraDriverInstrumentation', () => {
         await client.execute(query);
         assertSingleSpan('cassandra-driver.execute', query.substr(0, 25));
       });
+
+      it('obfuscates literals', async () => {
+        const config: CassandraDriverInstrumentationConfig = {
+          enhancedDatabaseReporting: true,
+        };
+        instrumentation.setConfig(config);
+        await client.execute("select * from ot.test where userid = '1234'");
+        assertSingleSpan(
+          'cassandra-driver.execute',
+          'select * from ot.test where userid = ?'
+        );
+      });
+
+      it('uses the custom serializer when provided', async () => {
+        const config: CassandraDriverInstrumentationConfig = {
+          enhancedDatabaseReporting: true,
+          dbStatementSerializer: (query, params) =>
+            `${(params as unknown[]).length} ${query}`,
+        };
+        instrumentation.setConfig(config);
+        await client.execute('select * from ot.test where userid = ?', [
+          '1234',
+        ]);
+        assertSingleSpan(
+          'cassandra-driver.execute',
+          '1 select * from ot.test where userid = ?'
+        );
+      });
+    });
+
+    describe('execution options', () => {
+      before(async () => {
+        await client.batch([
+          "insert into ot.test (userid, count) values ('1', 1)",
+          "insert into ot.test (userid, count) values ('2', 2)",
+        ]);
+      });
+
+      it('records prepared statements and their consistency', async () => {
+        await client.execute('select * from ot.test where userid = ?', ['1'], {
+          prepare: true,
+          consistency: 0x04,
+        });
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(span.attributes[AttributeNames.PREPARED], true);
+        assert.strictEqual(
+          span.attributes[SemanticAttributes.DB_CASSANDRA_CONSISTENCY_LEVEL],
+          DbCassandraConsistencyLevelValues.QUORUM
+        );
+      });
+
+      it('records the page size and the page state', async () => {
+        const query = 'select * from ot.test';
+        const firstPage = await client.execute(query, [], { fetchSize: 1 });
+        await client.execute(query, [], {
+          fetchSize: 1,
+          pageState: firstPage.pageState,
+        });
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans.length, 2);
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_CASSANDRA_PAGE_SIZE],
+          1
+        );
+        assert.strictEqual(
+          spans[0].attributes[AttributeNames.PAGE_STATE],
+          undefined
+        );
+        assert.strictEqual(
+          spans[1].attributes[AttributeNames.PAGE_STATE],
+          firstPage.pageState
+        );
+      });
+    });
+
+    describe('responseHook', () => {
+      afterEach(() => {
+        instrumentation.setConfig({});
+      });
+
+      it('receives the result set', async () => {
+        const config: CassandraDriverInstrumentationConfig = {
+          responseHook: (span, { response }) => {
+            span.setAttribute('db.cassandra.row_count', response.rowLength);
+          },
+        };
+        instrumentation.setConfig(config);
+        const result = await client.execute('select * from ot.test');
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          span.attributes['db.cassandra.row_count'],
+          result.rowLength
+        );
+      });
+
+      it('does not fail when the hook throws', async () => {
+        const config: CassandraDriverInstrumentationConfig = {
+          responseHook: () => {
+            throw new Error('hook failed');
+          },
+        };
+        instrumentation.setConfig(config);
+        await client.execute('select * from ot.test');
+        assertSingleSpan('cassandra-driver.execute');
+      });
     });
   });
 
@@ -237,7 +390,9 @@ describe('CassandraDriverInstrumentation', () => {
 
     const q1 = "insert into ot.test (userid, count) values ('1234', 42)";
     const q2 = "insert into ot.test (userid, count) values ('3421', 10)";
-    const combined = `${q1}\n${q2}`;
+    const combined =
+      'insert into ot.test (userid, count) values (?, ?)\n' +
+      'insert into ot.test (userid, count) values (?, ?)';
 
     it('creates a span for promise based batch', async () => {
       await client.batch([q1, q2]);
@@ -15,7 +15,13 @@
  */
 
 import { context, diag, Span, SpanOptions } from '@opentelemetry/api';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
 import { getRPCMetadata, RPCType } from '@opentelemetry/core';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import type { HandleFunction, NextFunction, Server } from 'connect';
 import type { IncomingMessage, ServerResponse } from 'http';
 import {
@@ -23,11 +29,10 @@ import {
   ConnectNames,
   ConnectTypes,
 } from './enums/AttributeNames';
-import { Use, UseArgs, UseArgs2 } from './types';
+import { ConnectInstrumentationConfig, Use, UseArgs, UseArgs2 } from './types';
 import { VERSION } from './version';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   isWrapped,
 } from '@opentelemetry/instrumentation';
@@ -37,12 +42,32 @@ export const ANONYMOUS_NAME = 'anonymous';
 
 /** Connect instrumentation for OpenTelemetry */
 export class ConnectInstrumentation extends InstrumentationBase<Server> {
-  constructor(config: InstrumentationConfig = {}) {
+  private _serverDuration!: Histogram;
+
+  constructor(config: ConnectInstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-connect',
       VERSION,
       Object.assign({}, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: ConnectInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): ConnectInstrumentationConfig {
+    return this._config as ConnectInstrumentationConfig;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
   }
 
   init() {
@@ -122,6 +147,17 @@ export class ConnectInstrumentation extends InstrumentationBase<Server> {
       const res = arguments[1] as ServerResponse;
       const next = arguments[2] as NextFunction;
 
+      if (instrumentation.getConfig().recordServerDuration) {
+        recordServerDuration(
+          context.active(),
+          instrumentation._serverDuration,
+          req,
+          res
+        );
+      }
+      if (routeName) {
+        setHttpRoute(context.active(), req, routeName);
+      }
       const rpcMetadata = getRPCMetadata(context.active());
       if (routeName && rpcMetadata?.type === RPCType.HTTP) {
         rpcMetadata.span.updateName(`${req.method} ${routeName || '/'}`);
@@ -14,9 +14,21 @@
  * limitations under the License.
  */
 
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 import type { HandleFunction, Server } from 'connect';
 
 export type UseArgs1 = [HandleFunction];
 export type UseArgs2 = [string, HandleFunction];
 export type UseArgs = UseArgs1 | UseArgs2;
 export type Use = (...args: UseArgs) => Server;
+
+/**
+ * Options available for the Connect Instrumentation
+ */
+export interface ConnectInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
+}
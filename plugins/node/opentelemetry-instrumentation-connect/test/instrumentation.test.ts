@@ -16,7 +16,9 @@
 import * as assert from 'assert';
 
 import { context, trace } from '@opentelemetry/api';
-import { RPCType, setRPCMetadata } from '@opentelemetry/core';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
+import { RPCMetadata, RPCType, setRPCMetadata } from '@opentelemetry/core';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
@@ -84,6 +86,8 @@ describe('connect', () => {
     contextManager.disable();
     contextManager.enable();
     memoryExporter.reset();
+    instrumentation.setConfig({});
+    instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
     instrumentation.disable();
   });
 
@@ -187,5 +191,51 @@ describe('connect', () => {
         changedRootSpan.spanContext().spanId
       );
     });
+
+    it('should publish the route in the RPC metadata', async () => {
+      const rootSpan = tracer.startSpan('root span');
+      const rpcMetadata: RPCMetadata = { type: RPCType.HTTP, span: rootSpan };
+      app.use((req, res, next) => {
+        return context.with(
+          setRPCMetadata(
+            trace.setSpan(context.active(), rootSpan),
+            rpcMetadata
+          ),
+          next
+        );
+      });
+
+      app.use('/foo', (req, res, next) => {
+        next();
+      });
+
+      await httpRequest.get(`http://localhost:${PORT}/foo`);
+      rootSpan.end();
+
+      assert.strictEqual(rpcMetadata.route, '/foo');
+    });
+
+    it('should record http.server.duration with the route', async () => {
+      const meter = new RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+      instrumentation.setConfig({ recordServerDuration: true });
+      app.use('/foo', (req, res) => {
+        res.end('OK');
+      });
+
+      await httpRequest.get(`http://localhost:${PORT}/foo`);
+
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'http.server.duration');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        [SemanticAttributes.HTTP_SCHEME]: 'http',
+        [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+        [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+        [SemanticAttributes.HTTP_METHOD]: 'GET',
+        [SemanticAttributes.HTTP_ROUTE]: '/foo',
+      });
+    });
   });
 });
@@ -17,4 +17,5 @@ export enum ExpressLayerType {
   ROUTER = 'router',
   MIDDLEWARE = 'middleware',
   REQUEST_HANDLER = 'request_handler',
+  ERROR_HANDLER = 'error_handler',
 }
@@ -20,13 +20,20 @@ import {
   getRPCMetadata,
   RPCType,
 } from '@opentelemetry/core';
-import { trace, context, diag, SpanAttributes } from '@opentelemetry/api';
+import { trace, context, diag, Span, SpanAttributes } from '@opentelemetry/api';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import type * as express from 'express';
 import {
   ExpressLayer,
   ExpressRouter,
   PatchedRequest,
   _LAYERS_STORE_PROPERTY,
+  _ERROR_STORE_PROPERTY,
   ExpressInstrumentationConfig,
   ExpressRequestInfo,
 } from './types';
@@ -51,12 +58,24 @@ export const kLayerPatched: unique symbol = Symbol('express-layer-patched');
 export class ExpressInstrumentation extends InstrumentationBase<
   typeof express
 > {
+  private _serverDuration!: Histogram;
+
   constructor(config: ExpressInstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-express',
       VERSION,
       Object.assign({}, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
   }
 
   override setConfig(config: ExpressInstrumentationConfig = {}) {
@@ -185,12 +204,20 @@ export class ExpressInstrumentation extends InstrumentationBase<
     layer[kLayerPatched] = true;
 
     this._wrap(layer, 'handle', (original: Function) => {
-      if (original.length === 4) return original;
-      return function (
+      const patched = function (
         this: ExpressLayer,
         req: PatchedRequest,
-        res: express.Response
+        res: express.Response,
+        args: IArguments
       ) {
+        if (instrumentation.getConfig().recordServerDuration) {
+          recordServerDuration(
+            context.active(),
+            instrumentation._serverDuration,
+            req,
+            res
+          );
+        }
         storeLayerPath(req, layerPath);
         const route = (req[_LAYERS_STORE_PROPERTY] as string[])
           .filter(path => path !== '/' && path !== '/*')
@@ -220,16 +247,20 @@ export class ExpressInstrumentation extends InstrumentationBase<
           );
           rpcMetadata.span.updateName(name);
         }
+        setHttpRoute(context.active(), req, route.length > 0 ? route : '/');
 
         // verify against the config if the layer should be ignored
         if (isLayerIgnored(metadata.name, type, instrumentation._config)) {
-          if (type === ExpressLayerType.MIDDLEWARE) {
+          if (
+            type === ExpressLayerType.MIDDLEWARE ||
+            type === ExpressLayerType.ERROR_HANDLER
+          ) {
             (req[_LAYERS_STORE_PROPERTY] as string[]).pop();
           }
-          return original.apply(this, arguments);
+          return original.apply(this, args);
         }
         if (trace.getSpan(context.active()) === undefined) {
-          return original.apply(this, arguments);
+          return original.apply(this, args);
         }
 
         const spanName = instrumentation._getSpanName(
@@ -245,11 +276,11 @@ export class ExpressInstrumentation extends InstrumentationBase<
         });
         const startTime = hrTime();
         let spanHasEnded = false;
-        // If we found anything that isnt a middleware, there no point of measuring
-        // their time since they dont have callback.
+        // If we found anything that isnt a middleware or an error handler, there
+        // no point of measuring their time since they dont have callback.
         if (
-          metadata.attributes[AttributeNames.EXPRESS_TYPE] !==
-          ExpressLayerType.MIDDLEWARE
+          type !== ExpressLayerType.MIDDLEWARE &&
+          type !== ExpressLayerType.ERROR_HANDLER
         ) {
           span.end(startTime);
           spanHasEnded = true;
@@ -261,18 +292,29 @@ export class ExpressInstrumentation extends InstrumentationBase<
             span.end(startTime);
           }
         };
+        const rootSpan =
+          rpcMetadata?.type === RPCType.HTTP ? rpcMetadata.span : undefined;
         // verify we have a callback
-        const args = Array.from(arguments);
-        const callbackIdx = args.findIndex(arg => typeof arg === 'function');
+        const callbackArgs = Array.from(args);
+        const callbackIdx = callbackArgs.findIndex(
+          arg => typeof arg === 'function'
+        );
         const newContext =
           rpcMetadata?.type === RPCType.HTTP
-            ? setRPCMetadata(
-                context.active(),
-                Object.assign(rpcMetadata, { route: route })
-              )
+            ? setRPCMetadata(context.active(), rpcMetadata)
             : context.active();
         if (callbackIdx >= 0) {
-          arguments[callbackIdx] = function () {
+          args[callbackIdx] = function () {
+            const error = arguments[0];
+            if (error && error !== 'route' && error !== 'router') {
+              instrumentation._recordLayerError(
+                req,
+                error,
+                spanHasEnded ? undefined : span,
+                rootSpan,
+                metadata.name
+              );
+            }
             if (spanHasEnded === false) {
               spanHasEnded = true;
               req.res?.removeListener('finish', onResponseFinish);
@@ -281,11 +323,28 @@ export class ExpressInstrumentation extends InstrumentationBase<
             if (!(req.route && arguments[0] instanceof Error)) {
               (req[_LAYERS_STORE_PROPERTY] as string[]).pop();
             }
-            const callback = args[callbackIdx] as Function;
+            const callback = callbackArgs[callbackIdx] as Function;
             return context.bind(newContext, callback).apply(this, arguments);
           };
         }
-        const result = original.apply(this, arguments);
+        let result;
+        try {
+          result = original.apply(this, args);
+        } catch (err) {
+          // express forwards a thrown error to `next()` by itself
+          instrumentation._recordLayerError(
+            req,
+            err,
+            spanHasEnded ? undefined : span,
+            rootSpan,
+            metadata.name
+          );
+          if (spanHasEnded === false) {
+            spanHasEnded = true;
+            span.end();
+          }
+          throw err;
+        }
         /**
          * At this point if the callback wasn't called, that means either the
          * layer is asynchronous (so it will call the callback later on) or that
@@ -297,7 +356,53 @@ export class ExpressInstrumentation extends InstrumentationBase<
         }
         return result;
       };
+      // express relies on the arity of a layer to tell error handlers apart
+      if (original.length === 4) {
+        return function (
+          this: ExpressLayer,
+          _err: unknown,
+          req: PatchedRequest,
+          res: express.Response,
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          _next: express.NextFunction
+        ) {
+          return patched.call(this, req, res, arguments);
+        };
+      }
+      return function (
+        this: ExpressLayer,
+        req: PatchedRequest,
+        res: express.Response
+      ) {
+        return patched.call(this, req, res, arguments);
+      };
+    });
+  }
+
+  /**
+   * Record an error passed to `next()` as an exception of the layer span and
+   * of the root http span, unless a previous layer already raised it
+   */
+  private _recordLayerError(
+    req: PatchedRequest,
+    error: unknown,
+    span: Span | undefined,
+    rootSpan: Span | undefined,
+    layerName: string
+  ) {
+    if (req[_ERROR_STORE_PROPERTY] === error) return;
+    Object.defineProperty(req, _ERROR_STORE_PROPERTY, {
+      enumerable: false,
+      configurable: true,
+      writable: true,
+      value: error,
     });
+    const exception = error instanceof Error ? error : String(error);
+    span?.recordException(exception);
+    if (rootSpan !== undefined) {
+      rootSpan.recordException(exception);
+      rootSpan.setAttribute(AttributeNames.EXPRESS_ERROR_LAYER, layerName);
+    }
   }
 
   _getSpanName(info: ExpressRequestInfo, defaultName: string) {
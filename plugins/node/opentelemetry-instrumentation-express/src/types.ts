@@ -38,8 +38,16 @@ import { ExpressLayerType } from './enums/ExpressLayerType';
  */
 export const _LAYERS_STORE_PROPERTY = '__ot_middlewares';
 
+/**
+ * This const define where on the `request` object the Instrumentation will
+ * keep the last error passed to `next()`, so that an error forwarded by
+ * several layers is only recorded for the layer that first raised it.
+ */
+export const _ERROR_STORE_PROPERTY = '__ot_error';
+
 export type PatchedRequest = {
   [_LAYERS_STORE_PROPERTY]?: string[];
+  [_ERROR_STORE_PROPERTY]?: unknown;
 } & Request;
 export type PathParams = string | RegExp | Array<string | RegExp>;
 
@@ -97,4 +105,9 @@ export interface ExpressInstrumentationConfig extends InstrumentationConfig {
   /** Ignore specific layers based on their type */
   ignoreLayersType?: ExpressLayerType[];
   spanNameHook?: SpanNameHook;
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
 }
@@ -69,6 +69,14 @@ export const getLayerMetadata = (
       },
       name: `request handler${layer.path ? ` - ${layerPath}` : ''}`,
     };
+  } else if (layer.handle?.length === 4) {
+    return {
+      attributes: {
+        [AttributeNames.EXPRESS_NAME]: layer.name,
+        [AttributeNames.EXPRESS_TYPE]: ExpressLayerType.ERROR_HANDLER,
+      },
+      name: `error handler - ${layer.name}`,
+    };
   } else {
     return {
       attributes: {
@@ -15,6 +15,8 @@
  */
 
 import { context, trace } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import {
@@ -56,6 +58,8 @@ describe('ExpressInstrumentation', () => {
     contextManager.disable();
     contextManager.enable();
     memoryExporter.reset();
+    instrumentation.setConfig({});
+    instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
   });
 
   describe('Instrumenting with specific config', () => {
@@ -212,5 +216,33 @@ describe('ExpressInstrumentation', () => {
         }
       );
     });
+
+    it('should record http.server.duration with the route', async () => {
+      const meter = new RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+      instrumentation.setConfig({ recordServerDuration: true });
+      const router = express.Router();
+      app.use('/toto', router);
+      router.get('/:id', (req, res) => {
+        res.send('ok');
+      });
+
+      const response = await httpRequest.get(
+        `http://localhost:${port}/toto/tata`
+      );
+      assert.strictEqual(response, 'ok');
+
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'http.server.duration');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        [SemanticAttributes.HTTP_SCHEME]: 'http',
+        [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+        [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+        [SemanticAttributes.HTTP_METHOD]: 'GET',
+        [SemanticAttributes.HTTP_ROUTE]: '/toto/:id',
+      });
+    });
   });
 });
@@ -287,6 +287,163 @@ describe('ExpressInstrumentation', () => {
     });
   });
 
+  describe('Instrumenting error handlers', () => {
+    it('should record the error passed to next()', async () => {
+      const rootSpan = tracer.startSpan('rootSpan');
+      const { server, port } = await serverWithMiddleware(
+        tracer,
+        rootSpan,
+        app => {
+          const failing: express.RequestHandler = (req, res, next) => {
+            next(new Error('boom'));
+          };
+          const errorHandler: express.ErrorRequestHandler = (
+            err,
+            req,
+            res,
+            _next
+          ) => {
+            res.status(500).end(err.message);
+          };
+          app.use(failing);
+          app.use(errorHandler);
+        }
+      );
+      await context.with(
+        trace.setSpan(context.active(), rootSpan),
+        async () => {
+          const response = await httpRequest.get(
+            `http://localhost:${port}/toto/tata`
+          );
+          assert.strictEqual(response, 'boom');
+          rootSpan.end();
+          const spans = memoryExporter.getFinishedSpans();
+          const failingSpan = spans.find(
+            span => span.name === 'middleware - failing'
+          );
+          assert.strictEqual(failingSpan?.events.length, 1);
+          assert.strictEqual(failingSpan?.events[0].name, 'exception');
+          const errorHandlerSpan = spans.find(
+            span => span.name === 'error handler - errorHandler'
+          );
+          assert.strictEqual(
+            errorHandlerSpan?.attributes[AttributeNames.EXPRESS_TYPE],
+            'error_handler'
+          );
+          assert.strictEqual(errorHandlerSpan?.events.length, 0);
+          const exportedRootSpan = spans.find(span => span.name === 'rootSpan');
+          assert.strictEqual(exportedRootSpan?.events.length, 1);
+          assert.strictEqual(
+            exportedRootSpan?.events[0].attributes?.['exception.message'],
+            'boom'
+          );
+          assert.strictEqual(
+            exportedRootSpan?.attributes[AttributeNames.EXPRESS_ERROR_LAYER],
+            'middleware - failing'
+          );
+        }
+      );
+      server.close();
+    });
+
+    it('should only record a forwarded error for the layer that raised it', async () => {
+      const rootSpan = tracer.startSpan('rootSpan');
+      const { server, port } = await serverWithMiddleware(
+        tracer,
+        rootSpan,
+        app => {
+          const failing: express.RequestHandler = (req, res, next) => {
+            next(new Error('boom'));
+          };
+          const forwarding: express.ErrorRequestHandler = (
+            err,
+            req,
+            res,
+            next
+          ) => {
+            next(err);
+          };
+          const errorHandler: express.ErrorRequestHandler = (
+            err,
+            req,
+            res,
+            _next
+          ) => {
+            res.status(500).end(err.message);
+          };
+          app.use(failing);
+          app.use(forwarding);
+          app.use(errorHandler);
+        }
+      );
+      await context.with(
+        trace.setSpan(context.active(), rootSpan),
+        async () => {
+          await httpRequest.get(`http://localhost:${port}/toto/tata`);
+          rootSpan.end();
+          const spans = memoryExporter.getFinishedSpans();
+          const forwardingSpan = spans.find(
+            span => span.name === 'error handler - forwarding'
+          );
+          assert.notStrictEqual(forwardingSpan, undefined);
+          assert.strictEqual(forwardingSpan?.events.length, 0);
+          const exportedRootSpan = spans.find(span => span.name === 'rootSpan');
+          assert.strictEqual(exportedRootSpan?.events.length, 1);
+          assert.strictEqual(
+            exportedRootSpan?.attributes[AttributeNames.EXPRESS_ERROR_LAYER],
+            'middleware - failing'
+          );
+        }
+      );
+      server.close();
+    });
+
+    it('should record an error thrown by a layer', async () => {
+      const rootSpan = tracer.startSpan('rootSpan');
+      const { server, port } = await serverWithMiddleware(
+        tracer,
+        rootSpan,
+        app => {
+          const throwing: express.RequestHandler = () => {
+            throw new Error('boom');
+          };
+          const errorHandler: express.ErrorRequestHandler = (
+            err,
+            req,
+            res,
+            _next
+          ) => {
+            res.status(500).end(err.message);
+          };
+          app.use(throwing);
+          app.use(errorHandler);
+        }
+      );
+      await context.with(
+        trace.setSpan(context.active(), rootSpan),
+        async () => {
+          const response = await httpRequest.get(
+            `http://localhost:${port}/toto/tata`
+          );
+          assert.strictEqual(response, 'boom');
+          rootSpan.end();
+          const spans = memoryExporter.getFinishedSpans();
+          const throwingSpan = spans.find(
+            span => span.name === 'middleware - throwing'
+          );
+          assert.strictEqual(throwingSpan?.events.length, 1);
+          const exportedRootSpan = spans.find(span => span.name === 'rootSpan');
+          assert.strictEqual(exportedRootSpan?.events.length, 1);
+          assert.strictEqual(
+            exportedRootSpan?.attributes[AttributeNames.EXPRESS_ERROR_LAYER],
+            'middleware - throwing'
+          );
+        }
+      );
+      server.close();
+    });
+  });
+
   describe('Disabling plugin', () => {
     it('should not create new spans', async () => {
       const rootSpan = tracer.startSpan('rootSpan');
@@ -140,5 +140,26 @@ describe('Utils', () => {
         }
       );
     });
+
+    it('should return error handler metadata', () => {
+      assert.deepEqual(
+        utils.getLayerMetadata({
+          name: 'errorHandler',
+          handle: (
+            _err: unknown,
+            _req: unknown,
+            _res: unknown,
+            _next: unknown
+          ) => {},
+        } as unknown as ExpressLayer),
+        {
+          attributes: {
+            [AttributeNames.EXPRESS_NAME]: 'errorHandler',
+            [AttributeNames.EXPRESS_TYPE]: 'error_handler',
+          },
+          name: 'error handler - errorHandler',
+        }
+      );
+    });
   });
 });
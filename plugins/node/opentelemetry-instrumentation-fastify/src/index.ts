@@ -16,3 +16,9 @@
 
 export * from './enums/AttributeNames';
 export * from './instrumentation';
+export {
+  FastifyCustomAttributeFunction,
+  FastifyInstrumentationConfig,
+  FastifyRequestInfo,
+  IgnoreMatcher,
+} from './types';
@@ -20,10 +20,15 @@ import {
   SpanStatusCode,
   trace,
 } from '@opentelemetry/api';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
 import { getRPCMetadata, RPCType } from '@opentelemetry/core';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
@@ -38,9 +43,15 @@ import {
   FastifyNames,
   FastifyTypes,
 } from './enums/AttributeNames';
-import type { HandlerOriginal, PluginFastifyReply } from './types';
+import type { FastifyReplyWithContext } from './internal-types';
+import type {
+  FastifyInstrumentationConfig,
+  HandlerOriginal,
+  PluginFastifyReply,
+} from './types';
 import {
   endSpan,
+  isHookIgnored,
   safeExecuteInTheMiddleMaybePromise,
   startSpan,
 } from './utils';
@@ -50,12 +61,32 @@ export const ANONYMOUS_NAME = 'anonymous';
 
 /** Fastify instrumentation for OpenTelemetry */
 export class FastifyInstrumentation extends InstrumentationBase {
-  constructor(config: InstrumentationConfig = {}) {
+  private _serverDuration!: Histogram;
+
+  constructor(config: FastifyInstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-fastify',
       VERSION,
       Object.assign({}, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: FastifyInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): FastifyInstrumentationConfig {
+    return this._config as FastifyInstrumentationConfig;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
   }
 
   init() {
@@ -83,8 +114,19 @@ export class FastifyInstrumentation extends InstrumentationBase {
       }
       instrumentation._wrap(reply, 'send', instrumentation._patchSend());
 
+      if (instrumentation.getConfig().recordServerDuration) {
+        recordServerDuration(
+          context.active(),
+          instrumentation._serverDuration,
+          request.raw,
+          reply.raw
+        );
+      }
       const rpcMetadata = getRPCMetadata(context.active());
       const routeName = request.routerPath;
+      if (routeName) {
+        setHttpRoute(context.active(), request.raw, routeName);
+      }
       if (routeName && rpcMetadata?.type === RPCType.HTTP) {
         rpcMetadata.span.setAttribute(SemanticAttributes.HTTP_ROUTE, routeName);
         rpcMetadata.span.updateName(`${request.method} ${routeName}`);
@@ -94,14 +136,21 @@ export class FastifyInstrumentation extends InstrumentationBase {
   }
 
   private _wrapHandler(
-    pluginName: string,
+    pluginName: string | undefined,
     hookName: string,
     original: (...args: unknown[]) => Promise<unknown>,
     syncFunctionWithDone: boolean
   ): () => Promise<unknown> {
     const instrumentation = this;
     return function (this: any, ...args: unknown[]): Promise<unknown> {
-      if (!instrumentation.isEnabled()) {
+      if (
+        !instrumentation.isEnabled() ||
+        isHookIgnored(
+          hookName,
+          pluginName,
+          instrumentation.getConfig().ignoreHooks
+        )
+      ) {
         return original.apply(this, args);
       }
 
@@ -242,10 +291,12 @@ export class FastifyInstrumentation extends InstrumentationBase {
       if (!instrumentation.isEnabled()) {
         return done();
       }
+      const config = instrumentation.getConfig();
       const requestContext = (request as any).context || {};
       const handlerName = (requestContext.handler?.name || '').substr(6);
+      const route = (reply as FastifyReplyWithContext).context?.config?.url;
       const spanName = `${FastifyNames.REQUEST_HANDLER} - ${
-        handlerName || ANONYMOUS_NAME
+        (config.useRouteAsSpanName && route) || handlerName || ANONYMOUS_NAME
       }`;
 
       const spanAttributes: SpanAttributes = {
@@ -262,6 +313,18 @@ export class FastifyInstrumentation extends InstrumentationBase {
         spanName,
         spanAttributes
       );
+      if (config.requestHook) {
+        const requestHook = config.requestHook;
+        safeExecuteInTheMiddle(
+          () => requestHook(span, { request }),
+          e => {
+            if (e) {
+              instrumentation._diag.error('requestHook error', e);
+            }
+          },
+          true
+        );
+      }
       return context.with(trace.setSpan(context.active(), span), () => {
         done();
       });
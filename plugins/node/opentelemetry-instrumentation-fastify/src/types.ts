@@ -15,7 +15,8 @@
  */
 
 import { Span } from '@opentelemetry/api';
-import { FastifyReply } from 'fastify';
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import { FastifyReply, FastifyRequest } from 'fastify';
 import { spanRequestSymbol } from './constants';
 
 export type HandlerOriginal = (() => Promise<unknown>) & (() => void);
@@ -23,3 +24,47 @@ export type HandlerOriginal = (() => Promise<unknown>) & (() => void);
 export type PluginFastifyReply = FastifyReply & {
   [spanRequestSymbol]?: Span[];
 };
+
+export type IgnoreMatcher =
+  | string
+  | RegExp
+  | ((hookName: string, pluginName?: string) => boolean);
+
+export interface FastifyRequestInfo {
+  request: FastifyRequest;
+}
+
+/**
+ * Function that can be used to add custom attributes to the span of the
+ * request handler
+ * @param span - the span of the request handler
+ * @param info - the request the span was started for
+ */
+export interface FastifyCustomAttributeFunction {
+  (span: Span, info: FastifyRequestInfo): void;
+}
+
+/**
+ * Options available for the Fastify Instrumentation
+ */
+export interface FastifyInstrumentationConfig extends InstrumentationConfig {
+  /** Function for adding custom attributes to the request handler span */
+  requestHook?: FastifyCustomAttributeFunction;
+  /**
+   * Hooks that should not be traced. A string or a RegExp matches the name
+   * of the hook, e.g. `onRequest`, or the name of the plugin that added it,
+   * a function receives both. Hooks added to the root instance have no
+   * plugin name
+   */
+  ignoreHooks?: IgnoreMatcher[];
+  /**
+   * Name the request handler span after the route, e.g. `/users/:id`,
+   * instead of the name of the handler. Defaults to false
+   */
+  useRouteAsSpanName?: boolean;
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
+}
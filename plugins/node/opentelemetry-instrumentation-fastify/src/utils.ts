@@ -22,7 +22,7 @@ import {
 } from '@opentelemetry/api';
 import { spanRequestSymbol } from './constants';
 
-import type { PluginFastifyReply } from './types';
+import type { IgnoreMatcher, PluginFastifyReply } from './types';
 
 /**
  * Starts Span
@@ -75,6 +75,39 @@ export function endSpan(reply: PluginFastifyReply, err?: any) {
   delete reply[spanRequestSymbol];
 }
 
+/**
+ * Checks whether a hook is ignored by the given patterns, exceptions
+ * thrown by the patterns are not re-thrown
+ * @param hookName - name of the hook, e.g. onRequest
+ * @param pluginName - name of the plugin that added the hook, if any
+ * @param patterns - ignore patterns
+ */
+export function isHookIgnored(
+  hookName: string,
+  pluginName: string | undefined,
+  patterns?: IgnoreMatcher[]
+): boolean {
+  if (!Array.isArray(patterns)) {
+    return false;
+  }
+  try {
+    return patterns.some(pattern => {
+      if (typeof pattern === 'function') {
+        return pattern(hookName, pluginName);
+      }
+      if (pattern instanceof RegExp) {
+        return (
+          pattern.test(hookName) ||
+          (pluginName !== undefined && pattern.test(pluginName))
+        );
+      }
+      return pattern === hookName || pattern === pluginName;
+    });
+  } catch (e) {
+    return false;
+  }
+}
+
 // @TODO after approve add this to instrumentation package and replace usage
 // when it will be released
 
@@ -16,6 +16,8 @@
 
 import * as assert from 'assert';
 import { context, ROOT_CONTEXT, SpanStatusCode } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
@@ -374,6 +376,178 @@ describe('fastify', () => {
       });
     });
 
+    describe('instrumentation config', () => {
+      afterEach(() => {
+        instrumentation.setConfig({});
+      });
+
+      it('should call requestHook with the request handler span', async () => {
+        instrumentation.setConfig({
+          requestHook: (span, { request }) => {
+            span.setAttribute('fastify.request.id', request.id);
+          },
+        });
+        app.get('/test', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test`);
+
+        const span = getSpans().find(
+          s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'request_handler'
+        )!;
+        assert.ok(span.attributes['fastify.request.id']);
+        const middlewareSpans = getSpans().filter(
+          s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'middleware'
+        );
+        middlewareSpans.forEach(s => {
+          assert.strictEqual(s.attributes['fastify.request.id'], undefined);
+        });
+      });
+
+      it('should not fail the request when requestHook throws', async () => {
+        instrumentation.setConfig({
+          requestHook: () => {
+            throw new Error('requestHook failed');
+          },
+        });
+        app.get('/test', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        const response = await httpRequest.get(`http://localhost:${PORT}/test`);
+
+        assert.strictEqual(response, 'OK');
+        const spans = getSpans().filter(
+          s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'request_handler'
+        );
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].status.code, SpanStatusCode.UNSET);
+      });
+
+      it('should not trace hooks ignored by name', async () => {
+        instrumentation.setConfig({ ignoreHooks: ['onRequest'] });
+        app.addHook('preValidation', (_req, _reply, done) => {
+          done();
+        });
+        app.get('/test', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test`);
+
+        const hookNames = getSpans()
+          .filter(
+            s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'middleware'
+          )
+          .map(s => s.attributes[AttributeNames.HOOK_NAME]);
+        assert.deepStrictEqual(hookNames, ['preValidation']);
+      });
+
+      it('should not trace hooks of ignored plugins', async () => {
+        instrumentation.setConfig({ ignoreHooks: [/^fastify-/] });
+        // eslint-disable-next-line prefer-arrow-callback
+        app.addHook('onRequest', function authenticate(_req, _reply, done) {
+          done();
+        });
+        app.get('/test', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test`);
+
+        const spanNames = getSpans().map(s => s.name);
+        assert.deepStrictEqual(spanNames.sort(), [
+          'middleware - authenticate',
+          `request handler - ${ANONYMOUS_NAME}`,
+        ]);
+      });
+
+      it('should pass the hook and plugin names to ignore functions', async () => {
+        const ignored: Array<[string, string | undefined]> = [];
+        instrumentation.setConfig({
+          ignoreHooks: [
+            (hookName, pluginName) => {
+              ignored.push([hookName, pluginName]);
+              return pluginName === undefined;
+            },
+          ],
+        });
+        // eslint-disable-next-line prefer-arrow-callback
+        app.addHook('onRequest', function authenticate(_req, _reply, done) {
+          done();
+        });
+        app.get('/test', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test`);
+
+        assert.ok(ignored.some(([hookName]) => hookName === 'onRequest'));
+        const spanNames = getSpans()
+          .filter(
+            s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'middleware'
+          )
+          .map(s => s.name);
+        assert.ok(!spanNames.includes('middleware - authenticate'));
+        assert.ok(spanNames.includes('middleware - runConnect'));
+      });
+
+      it('should name the request handler span after the route', async () => {
+        instrumentation.setConfig({ useRouteAsSpanName: true });
+        // eslint-disable-next-line prefer-arrow-callback
+        app.get('/test/:id', function namedHandler(_req, reply) {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test/1`);
+
+        const span = getSpans().find(
+          s => s.attributes[AttributeNames.FASTIFY_TYPE] === 'request_handler'
+        )!;
+        assert.strictEqual(span.name, 'request handler - /test/:id');
+        assert.strictEqual(
+          span.attributes[AttributeNames.FASTIFY_NAME],
+          'namedHandler'
+        );
+      });
+    });
+
+    describe('without http instrumentation', () => {
+      beforeEach(() => {
+        httpInstrumentation.disable();
+      });
+
+      afterEach(() => {
+        httpInstrumentation.enable();
+        instrumentation.setConfig({});
+        instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+      });
+
+      it('should record http.server.duration with the route', async () => {
+        const meter = new RecordingMeter();
+        instrumentation.setMeterProvider({ getMeter: () => meter });
+        instrumentation.setConfig({ recordServerDuration: true });
+        app.get('/test/:id', (_req: FastifyRequest, reply: FastifyReply) => {
+          reply.send('OK');
+        });
+        await startServer();
+        await httpRequest.get(`http://localhost:${PORT}/test/1`);
+
+        assert.strictEqual(meter.records.length, 1);
+        const [record] = meter.records;
+        assert.strictEqual(record.name, 'http.server.duration');
+        assert.ok(record.value >= 0);
+        assert.deepStrictEqual(record.attributes, {
+          [SemanticAttributes.HTTP_SCHEME]: 'http',
+          [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+          [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+          [SemanticAttributes.HTTP_METHOD]: 'GET',
+          [SemanticAttributes.HTTP_ROUTE]: '/test/:id',
+        });
+      });
+    });
+
     describe('application hooks', () => {
       it('onRoute not instrumented', done => {
         app.addHook('onRoute', () => {
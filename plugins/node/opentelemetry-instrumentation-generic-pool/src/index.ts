@@ -17,4 +17,5 @@
 import GenericPoolInstrumentation from './instrumentation';
 
 export { GenericPoolInstrumentation };
+export { GenericPoolInstrumentationConfig, PoolNameFunction } from './types';
 export default GenericPoolInstrumentation;
@@ -15,27 +15,123 @@
  */
 
 import * as api from '@opentelemetry/api';
+import {
+  Histogram,
+  MeterProvider,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   isWrapped,
+  safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
 
 import type * as genericPool from 'generic-pool';
 
+import { MetricNames } from './enums/MetricNames';
+import { GenericPoolInstrumentationConfig } from './types';
 import { VERSION } from './version';
 
 const MODULE_NAME = 'generic-pool';
+const POOL_NAME_ATTRIBUTE = 'pool.name';
+
+interface PoolStats {
+  size: number;
+  available: number;
+  borrowed: number;
+  pending: number;
+}
+
+/** The object returned by the v2 `Pool`, exposing its stats as methods */
+interface PoolV2 {
+  getName(): string;
+  getPoolSize(): number;
+  availableObjectsCount(): number;
+  inUseObjectsCount(): number;
+  waitingClientsCount(): number;
+  drain(callback?: () => void): void;
+}
+
+/** Pools of v2.4 and up flag themselves when they are drained */
+type TrackedPool = (genericPool.Pool<unknown> | PoolV2) & {
+  _draining?: boolean;
+};
 
 export default class Instrumentation extends InstrumentationBase<
   typeof genericPool
 > {
   // only used for v2 - v2.3)
   private _isDisabled = false;
+  // pools are tracked with their name from their creation or acquire until
+  // their drain() or clear(). Observing the pools also drops the empty ones
+  // until their next acquire
+  private _pools = new Map<TrackedPool, string>();
+  private _acquireWaitTime!: Histogram;
+
+  constructor(config: GenericPoolInstrumentationConfig = {}) {
+    super(`@opentelemetry/instrumentation-${MODULE_NAME}`, VERSION, config);
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: GenericPoolInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): GenericPoolInstrumentationConfig {
+    return this._config;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._acquireWaitTime = this.meter.createHistogram(
+      MetricNames.ACQUIRE_WAIT_TIME,
+      {
+        description: 'The time it took to acquire a resource from the pool.',
+        unit: 'ms',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    this._createPoolGauge(
+      MetricNames.POOL_SIZE,
+      'The number of resources in the pool, available or borrowed.',
+      stats => stats.size
+    );
+    this._createPoolGauge(
+      MetricNames.POOL_AVAILABLE,
+      'The number of unused resources in the pool.',
+      stats => stats.available
+    );
+    this._createPoolGauge(
+      MetricNames.POOL_BORROWED,
+      'The number of resources currently borrowed from the pool.',
+      stats => stats.borrowed
+    );
+    this._createPoolGauge(
+      MetricNames.POOL_PENDING,
+      'The number of acquire calls waiting for a resource.',
+      stats => stats.pending
+    );
+  }
 
-  constructor(config: InstrumentationConfig = {}) {
-    super(`@opentelemetry/instrumentation-${MODULE_NAME}`, VERSION);
+  private _createPoolGauge(
+    name: MetricNames,
+    description: string,
+    getValue: (stats: PoolStats) => number
+  ) {
+    this.meter.createObservableGauge(
+      name,
+      { description, unit: '{resource}', valueType: ValueType.INT },
+      result =>
+        this._observePools((stats, attributes) =>
+          result.observe(getValue(stats), attributes)
+        )
+    );
   }
 
   init() {
@@ -54,12 +150,33 @@ export default class Instrumentation extends InstrumentationBase<
             'acquire',
             this._acquirePatcher.bind(this)
           );
+          for (const method of ['drain', 'clear']) {
+            if (isWrapped(Pool.prototype[method])) {
+              this._unwrap(Pool.prototype, method);
+            }
+            this._wrap(
+              Pool.prototype,
+              method,
+              this._untrackPoolPatcher.bind(this)
+            );
+          }
+          if (isWrapped(moduleExports.createPool)) {
+            this._unwrap(moduleExports, 'createPool');
+          }
+          this._wrap(
+            moduleExports,
+            'createPool',
+            this._createPoolPatcher.bind(this)
+          );
           return moduleExports;
         },
         (moduleExports, moduleVersion) => {
           api.diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
           const Pool: any = moduleExports.Pool;
           this._unwrap(Pool.prototype, 'acquire');
+          this._unwrap(Pool.prototype, 'drain');
+          this._unwrap(Pool.prototype, 'clear');
+          this._unwrap(moduleExports, 'createPool');
           return moduleExports;
         }
       ),
@@ -77,12 +194,27 @@ export default class Instrumentation extends InstrumentationBase<
             'acquire',
             this._acquireWithCallbacksPatcher.bind(this)
           );
+          if (isWrapped(Pool.prototype.drain)) {
+            this._unwrap(Pool.prototype, 'drain');
+          }
+          this._wrap(
+            Pool.prototype,
+            'drain',
+            this._untrackPoolPatcher.bind(this)
+          );
+          if (isWrapped(moduleExports.Pool)) {
+            this._unwrap(moduleExports, 'Pool');
+          }
+          this._wrap(moduleExports, 'Pool', this._createPoolPatcher.bind(this));
           return moduleExports;
         },
         (moduleExports, moduleVersion) => {
           api.diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+          // the prototype is reached through the original constructor
+          this._unwrap(moduleExports, 'Pool');
           const Pool: any = moduleExports.Pool;
           this._unwrap(Pool.prototype, 'acquire');
+          this._unwrap(Pool.prototype, 'drain');
           return moduleExports;
         }
       ),
@@ -115,6 +247,8 @@ export default class Instrumentation extends InstrumentationBase<
       this: genericPool.Pool<unknown>,
       ...args: any[]
     ) {
+      instrumentation._trackPool(this);
+      const startTime = hrTime();
       const parent = api.context.active();
       const span = instrumentation.tracer.startSpan(
         'generic-pool.aquire',
@@ -125,10 +259,12 @@ export default class Instrumentation extends InstrumentationBase<
       return api.context.with(api.trace.setSpan(parent, span), () => {
         return original.call(this, ...args).then(
           value => {
+            instrumentation._recordAcquireWaitTime(this, startTime);
             span.end();
             return value;
           },
           err => {
+            instrumentation._recordAcquireWaitTime(this, startTime);
             span.recordException(err);
             span.end();
             throw err;
@@ -138,10 +274,38 @@ export default class Instrumentation extends InstrumentationBase<
     };
   }
 
+  /**
+   * Patches the functions creating the pools, `createPool` for v3 and the
+   * `Pool` constructor for v2.4 and up, to track the pools before their first
+   * acquire.
+   */
+  private _createPoolPatcher<T extends Function>(original: T): T {
+    const instrumentation = this;
+    function wrapped_createPool(this: unknown, ...args: unknown[]) {
+      const pool: TrackedPool = new.target
+        ? Reflect.construct(original, args, new.target)
+        : Reflect.apply(original, this, args);
+      instrumentation._trackPool(pool);
+      return pool;
+    }
+    // keep `instanceof Pool` working for pools created through the wrapper
+    wrapped_createPool.prototype = original.prototype;
+    return wrapped_createPool as unknown as T;
+  }
+
   private _poolWrapper(original: any) {
     const instrumentation = this;
     return function wrapped_pool(this: any) {
       const pool = original.apply(this, arguments);
+      if (!instrumentation._isDisabled) {
+        instrumentation._trackPool(pool);
+        // these pools are created with their own functions
+        instrumentation._wrap(
+          pool,
+          'drain',
+          instrumentation._untrackPoolPatcher.bind(instrumentation)
+        );
+      }
       instrumentation._wrap(
         pool,
         'acquire',
@@ -162,6 +326,8 @@ export default class Instrumentation extends InstrumentationBase<
       if (instrumentation._isDisabled) {
         return original.call(this, cb, priority);
       }
+      instrumentation._trackPool(this);
+      const startTime = hrTime();
       const parent = api.context.active();
       const span = instrumentation.tracer.startSpan(
         'generic-pool.aquire',
@@ -173,6 +339,7 @@ export default class Instrumentation extends InstrumentationBase<
         original.call(
           this,
           (err: unknown, client: unknown) => {
+            instrumentation._recordAcquireWaitTime(this, startTime);
             span.end();
             // Not checking whether cb is a function because
             // the original code doesn't do that either.
@@ -185,4 +352,109 @@ export default class Instrumentation extends InstrumentationBase<
       });
     };
   }
+
+  /**
+   * Patches `drain`, and `clear` for v3, to stop tracking the pool without
+   * waiting for its metrics to be observed. A pool cleared without being
+   * drained is tracked again on its next acquire.
+   */
+  private _untrackPoolPatcher(original: Function) {
+    const instrumentation = this;
+    return function wrapped_untrackPool(this: TrackedPool) {
+      instrumentation._pools.delete(this);
+      return original.apply(this, arguments);
+    };
+  }
+
+  private _trackPool(pool: TrackedPool) {
+    // acquiring from a drained pool fails
+    if (!this._pools.has(pool) && !pool._draining) {
+      this._pools.set(pool, this._getPoolName(pool));
+    }
+  }
+
+  private _getPoolName(pool: TrackedPool): string {
+    const { poolName } = this.getConfig();
+    if (poolName) {
+      const name = safeExecuteInTheMiddle(
+        () => poolName(pool),
+        err => {
+          if (err) {
+            api.diag.error('Error running poolName function', err);
+          }
+        },
+        true
+      );
+      if (typeof name === 'string') {
+        return name;
+      }
+    }
+    // v2 pools are named by their factory
+    return (isPoolV2(pool) && pool.getName()) || MODULE_NAME;
+  }
+
+  private _recordAcquireWaitTime(pool: TrackedPool, startTime: api.HrTime) {
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    this._acquireWaitTime.record(seconds * 1e3 + nanos / 1e6, {
+      [POOL_NAME_ATTRIBUTE]: this._pools.get(pool) ?? this._getPoolName(pool),
+    });
+  }
+
+  /**
+   * Calls `observe` once per pool name, summing the stats of pools sharing
+   * the same name. Drained pools, and pools with neither resources nor
+   * pending acquires, are dropped from tracking until their next acquire.
+   */
+  private _observePools(
+    observe: (stats: PoolStats, attributes: { [key: string]: string }) => void
+  ) {
+    const statsByName = new Map<string, PoolStats>();
+    this._pools.forEach((name, pool) => {
+      if (pool._draining) {
+        this._pools.delete(pool);
+        return;
+      }
+      const poolStats = getPoolStats(pool);
+      if (poolStats.size === 0 && poolStats.pending === 0) {
+        this._pools.delete(pool);
+        return;
+      }
+      const stats = statsByName.get(name) ?? {
+        size: 0,
+        available: 0,
+        borrowed: 0,
+        pending: 0,
+      };
+      stats.size += poolStats.size;
+      stats.available += poolStats.available;
+      stats.borrowed += poolStats.borrowed;
+      stats.pending += poolStats.pending;
+      statsByName.set(name, stats);
+    });
+    statsByName.forEach((stats, name) =>
+      observe(stats, { [POOL_NAME_ATTRIBUTE]: name })
+    );
+  }
+}
+
+function isPoolV2(pool: TrackedPool): pool is PoolV2 & TrackedPool {
+  return typeof (pool as PoolV2).getPoolSize === 'function';
+}
+
+function getPoolStats(pool: TrackedPool): PoolStats {
+  // v2 exposes the stats as methods, v3 as getters
+  if (isPoolV2(pool)) {
+    return {
+      size: pool.getPoolSize(),
+      available: pool.availableObjectsCount(),
+      borrowed: pool.inUseObjectsCount(),
+      pending: pool.waitingClientsCount(),
+    };
+  }
+  return {
+    size: pool.size,
+    available: pool.available,
+    borrowed: pool.borrowed,
+    pending: pool.pending,
+  };
 }
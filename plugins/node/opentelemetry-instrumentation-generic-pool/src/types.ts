@@ -0,0 +1,35 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+
+/**
+ * Function that can be used to name a pool, the name is recorded as the
+ * `pool.name` attribute of the pool metrics
+ * @param pool - The pool, a v3 `Pool` or the object returned by the v2 `Pool`
+ *
+ * @returns the name of the pool
+ */
+export type PoolNameFunction = (pool: unknown) => string;
+
+export interface GenericPoolInstrumentationConfig
+  extends InstrumentationConfig {
+  /**
+   * Custom function naming the pools, default is the `name` of the factory
+   * of v2 pools and `generic-pool` for v3 pools
+   */
+  poolName?: PoolNameFunction;
+}
@@ -15,6 +15,8 @@
  */
 
 import { context, trace } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import {
@@ -34,6 +36,8 @@ const CLIENT = '_client_';
 
 const version = require('generic-pool/package.json').version;
 const isOldVersion = semver.satisfies(version, '2');
+// before 2.4, `Pool` is a factory function rather than a class
+const isFactoryVersion = semver.satisfies(version, '2 - 2.3');
 
 const createPool = {
   v3: () => {
@@ -117,4 +121,210 @@ describe('GenericPool instrumentation', () => {
     assert.strictEqual(await acquire(), CLIENT);
     assert.strictEqual(memoryExporter.getFinishedSpans().length, 0);
   });
+
+  it('should untrack drained pools', async function () {
+    if (isOldVersion) {
+      this.skip();
+    }
+    // no MeterProvider is configured, the pools are never observed
+    const pool = genericPool.createPool({
+      create: () => Promise.resolve(CLIENT),
+      destroy: () => Promise.resolve(),
+    });
+    await pool.release(await pool.acquire());
+    assert.ok(plugin['_pools'].has(pool));
+
+    await pool.drain();
+    assert.ok(!plugin['_pools'].has(pool));
+    await pool.clear();
+  });
+
+  it('should untrack drained v2 pools', function (done) {
+    if (!isOldVersion) {
+      this.skip();
+    }
+    const Pool: any = genericPool.Pool;
+    const factory = {
+      create: (cb: Function) => cb(CLIENT),
+      destroy: () => {},
+    };
+    const pool = isFactoryVersion ? Pool(factory) : new Pool(factory);
+    assert.ok(plugin['_pools'].has(pool));
+    pool.drain(() => {
+      assert.ok(!plugin['_pools'].has(pool));
+      pool.destroyAllNow();
+      done();
+    });
+  });
+
+  describe('metrics', () => {
+    let meter: RecordingMeter;
+
+    beforeEach(() => {
+      meter = new RecordingMeter();
+      plugin.setMeterProvider({ getMeter: () => meter });
+    });
+
+    afterEach(() => {
+      plugin.setConfig({});
+      plugin.setMeterProvider(NOOP_METER_PROVIDER);
+    });
+
+    it('should record the acquire wait time', async () => {
+      assert.strictEqual(await acquire(), CLIENT);
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'pool.acquire.wait_time');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        'pool.name': 'generic-pool',
+      });
+    });
+
+    it('should observe the pool utilization', async () => {
+      plugin.setConfig({ poolName: () => 'utilization' });
+      const acquireUtilization = createPool();
+      assert.strictEqual(await acquireUtilization(), CLIENT);
+
+      const attributes = { 'pool.name': 'utilization' };
+      assert.deepStrictEqual(
+        meter
+          .observe('pool.size')
+          .filter(o => o.attributes?.['pool.name'] === 'utilization'),
+        [{ value: 1, attributes }]
+      );
+      assert.deepStrictEqual(
+        meter
+          .observe('pool.available')
+          .filter(o => o.attributes?.['pool.name'] === 'utilization'),
+        [{ value: 0, attributes }]
+      );
+      assert.deepStrictEqual(
+        meter
+          .observe('pool.borrowed')
+          .filter(o => o.attributes?.['pool.name'] === 'utilization'),
+        [{ value: 1, attributes }]
+      );
+      assert.deepStrictEqual(
+        meter
+          .observe('pool.pending')
+          .filter(o => o.attributes?.['pool.name'] === 'utilization'),
+        [{ value: 0, attributes }]
+      );
+    });
+
+    it('should stop observing drained pools', async function () {
+      if (isOldVersion) {
+        this.skip();
+      }
+      plugin.setConfig({ poolName: () => 'drained' });
+      const pool = genericPool.createPool({
+        create: () => Promise.resolve(CLIENT),
+        destroy: () => Promise.resolve(),
+      });
+      const observeDrained = () =>
+        meter
+          .observe('pool.size')
+          .filter(o => o.attributes?.['pool.name'] === 'drained');
+      await pool.release(await pool.acquire());
+      assert.strictEqual(observeDrained().length, 1);
+
+      // the pool still holds its resource until it is cleared
+      await pool.drain();
+      assert.deepStrictEqual(observeDrained(), []);
+      await pool.clear();
+    });
+
+    it('should stop observing empty pools until their next acquire', async function () {
+      if (isOldVersion) {
+        this.skip();
+      }
+      plugin.setConfig({ poolName: () => 'empty' });
+      const pool = genericPool.createPool({
+        create: () => Promise.resolve(CLIENT),
+        destroy: () => Promise.resolve(),
+      });
+      const observeEmpty = () =>
+        meter
+          .observe('pool.size')
+          .filter(o => o.attributes?.['pool.name'] === 'empty');
+      await pool.destroy(await pool.acquire());
+      assert.deepStrictEqual(observeEmpty(), []);
+
+      const client = await pool.acquire();
+      assert.deepStrictEqual(observeEmpty(), [
+        { value: 1, attributes: { 'pool.name': 'empty' } },
+      ]);
+      await pool.release(client);
+      await pool.drain();
+      await pool.clear();
+    });
+
+    describe('v2 pools', () => {
+      let pool: any;
+
+      before(function () {
+        if (!isOldVersion) {
+          this.skip();
+        }
+      });
+
+      beforeEach(() => {
+        const Pool: any = genericPool.Pool;
+        const factory = {
+          name: 'v2',
+          min: 1,
+          max: 2,
+          create: (cb: Function) => cb(CLIENT),
+          destroy: () => {},
+        };
+        pool = isFactoryVersion ? Pool(factory) : new Pool(factory);
+      });
+
+      afterEach(done => {
+        pool.drain(() => {
+          pool.destroyAllNow();
+          done();
+        });
+      });
+
+      const observeV2 = () =>
+        meter
+          .observe('pool.size')
+          .filter(o => o.attributes?.['pool.name'] === 'v2');
+
+      it('should track the pools from their creation', () => {
+        assert.deepStrictEqual(observeV2(), [
+          { value: 1, attributes: { 'pool.name': 'v2' } },
+        ]);
+      });
+
+      it('should stop observing drained pools', done => {
+        pool.acquire((err: unknown, client: unknown) => {
+          assert.ifError(err);
+          pool.release(client);
+          assert.strictEqual(observeV2().length, 1);
+          pool.drain(() => {
+            // the pool still holds its resource until it is destroyed
+            assert.strictEqual(pool.getPoolSize(), 1);
+            assert.deepStrictEqual(observeV2(), []);
+            done();
+          });
+        });
+      });
+    });
+
+    it('should not fail when the poolName function throws', async () => {
+      plugin.setConfig({
+        poolName: () => {
+          throw new Error('poolName failure');
+        },
+      });
+      const acquireFailing = createPool();
+      assert.strictEqual(await acquireFailing(), CLIENT);
+      assert.deepStrictEqual(meter.records[0].attributes, {
+        'pool.name': 'generic-pool',
+      });
+    });
+  });
 });
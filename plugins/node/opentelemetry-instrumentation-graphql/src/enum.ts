@@ -52,4 +52,17 @@ export enum SpanNames {
   VALIDATE = 'graphql.validate',
   SCHEMA_VALIDATE = 'graphql.validateSchema',
   SCHEMA_PARSE = 'graphql.parseSchema',
+  SUBSCRIBE = 'graphql.subscribe',
+  SUBSCRIPTION = 'graphql.subscription',
+}
+
+export enum MetricNames {
+  PARSE_DURATION = 'graphql.parse.duration',
+  VALIDATE_DURATION = 'graphql.validate.duration',
+  EXECUTE_DURATION = 'graphql.execute.duration',
+  EXECUTE_ERRORS = 'graphql.execute.errors',
+}
+
+export enum EventNames {
+  ERROR = 'graphql.error',
 }
@@ -20,6 +20,13 @@ export enum AttributeNames {
   FIELD_PATH = 'graphql.field.path',
   FIELD_TYPE = 'graphql.field.type',
   OPERATION = 'graphql.operation.name',
+  OPERATION_TYPE = 'graphql.operation.type',
+  OPERATION_SIGNATURE_HASH = 'graphql.operation.signature_hash',
+  PERSISTED_QUERY_HASH = 'graphql.persisted_query.hash',
   VARIABLES = 'graphql.variables.',
   ERROR_VALIDATION_NAME = 'graphql.validation.error',
+  DROPPED_RESOLVE_SPANS = 'graphql.resolve_spans.dropped',
+  ERROR_MESSAGE = 'graphql.error.message',
+  ERROR_PATH = 'graphql.error.path',
+  ERROR_CODE = 'graphql.error.code',
 }
@@ -14,7 +14,15 @@
  * limitations under the License.
  */
 
-import { context, trace } from '@opentelemetry/api';
+import { context, trace, HrTime } from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Counter,
+  Histogram,
+  MeterProvider,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
 import {
   isWrapped,
   InstrumentationBase,
@@ -24,9 +32,12 @@ import {
   safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
 import type * as graphqlTypes from 'graphql';
-import { SpanNames } from './enum';
+import { MetricNames, SpanNames } from './enum';
 import { AttributeNames } from './enums/AttributeNames';
-import { OTEL_GRAPHQL_DATA_SYMBOL } from './symbols';
+import {
+  OTEL_GRAPHQL_DATA_SYMBOL,
+  OTEL_GRAPHQL_SUBSCRIPTION_KEY,
+} from './symbols';
 
 import {
   executeFunctionWithObj,
@@ -36,16 +47,26 @@ import {
   validateType,
   GraphQLInstrumentationConfig,
   GraphQLInstrumentationParsedConfig,
+  GraphQLSubscription,
   OtelExecutionArgs,
+  OtelSubscriptionArgs,
   ObjectWithGraphQLData,
   OPERATION_NOT_SUPPORTED,
   Maybe,
+  subscribeArgumentsArray,
+  subscribeFunctionWithObj,
+  subscribeResult,
+  subscribeType,
 } from './types';
 import {
+  addErrorEvents,
   addInputVariableAttributes,
   addSpanSource,
   endSpan,
   getOperation,
+  getOperationMetricAttributes,
+  getOperationSignature,
+  getPersistedQueryHash,
   wrapFieldResolver,
   wrapFields,
 } from './utils';
@@ -58,11 +79,21 @@ const DEFAULT_CONFIG: GraphQLInstrumentationConfig = {
   mergeItems: false,
   depth: -1,
   allowValues: false,
+  ignoreTrivialResolveSpans: false,
+  ignoreResolveSpans: [],
+  maxResolveSpans: -1,
+  replaceSourceWithSignature: false,
+  subscriptionSpanTimeout: 0,
 };
 
 const supportedVersions = ['>=14'];
 
 export class GraphQLInstrumentation extends InstrumentationBase {
+  private _parseDuration!: Histogram;
+  private _validateDuration!: Histogram;
+  private _executeDuration!: Histogram;
+  private _executeErrors!: Counter;
+
   constructor(
     config: GraphQLInstrumentationConfig & InstrumentationConfig = {}
   ) {
@@ -71,6 +102,12 @@ export class GraphQLInstrumentation extends InstrumentationBase {
       VERSION,
       Object.assign({}, DEFAULT_CONFIG, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
   }
 
   private _getConfig(): GraphQLInstrumentationParsedConfig {
@@ -81,6 +118,37 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     this._config = Object.assign({}, DEFAULT_CONFIG, config);
   }
 
+  private _updateMetricInstruments() {
+    this._parseDuration = this.meter.createHistogram(
+      MetricNames.PARSE_DURATION,
+      {
+        description: 'Duration of parsing GraphQL documents.',
+        unit: 's',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    this._validateDuration = this.meter.createHistogram(
+      MetricNames.VALIDATE_DURATION,
+      {
+        description: 'Duration of validating GraphQL documents.',
+        unit: 's',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    this._executeDuration = this.meter.createHistogram(
+      MetricNames.EXECUTE_DURATION,
+      {
+        description: 'Duration of executing GraphQL operations.',
+        unit: 's',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    this._executeErrors = this.meter.createCounter(MetricNames.EXECUTE_ERRORS, {
+      description: 'Number of GraphQL operations returning errors.',
+      valueType: ValueType.INT,
+    });
+  }
+
   protected init() {
     const module = new InstrumentationNodeModuleDefinition<typeof graphqlTypes>(
       'graphql',
@@ -89,6 +157,7 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     module.files.push(this._addPatchingExecute());
     module.files.push(this._addPatchingParser());
     module.files.push(this._addPatchingValidate());
+    module.files.push(this._addPatchingSubscribe());
 
     return module;
   }
@@ -162,6 +231,29 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     );
   }
 
+  private _addPatchingSubscribe(): InstrumentationNodeModuleFile<
+    typeof graphqlTypes
+  > {
+    return new InstrumentationNodeModuleFile<typeof graphqlTypes>(
+      'graphql/subscription/subscribe.js',
+      supportedVersions,
+      // cannot make it work with appropriate type as subscribe function has 2
+      //types and/cannot import function but only types
+      (moduleExports: any) => {
+        if (isWrapped(moduleExports.subscribe)) {
+          this._unwrap(moduleExports, 'subscribe');
+        }
+        this._wrap(moduleExports, 'subscribe', this._patchSubscribe());
+        return moduleExports;
+      },
+      moduleExports => {
+        if (moduleExports) {
+          this._unwrap(moduleExports, 'subscribe');
+        }
+      }
+    );
+  }
+
   private _patchExecute(
     defaultFieldResolved: graphqlTypes.GraphQLFieldResolver<any, any>
   ): (original: executeType) => executeType {
@@ -182,8 +274,9 @@ export class GraphQLInstrumentation extends InstrumentationBase {
             args[3],
             args[4],
             args[5],
-            args[6] || defaultFieldResolved,
-            args[7]
+            args[6],
+            args[7],
+            defaultFieldResolved
           );
         } else {
           const args = arguments[0] as graphqlTypes.ExecutionArgs;
@@ -194,8 +287,9 @@ export class GraphQLInstrumentation extends InstrumentationBase {
             args.contextValue,
             args.variableValues,
             args.operationName,
-            args.fieldResolver || defaultFieldResolved,
-            args.typeResolver
+            args.fieldResolver,
+            args.typeResolver,
+            defaultFieldResolved
           );
         }
 
@@ -204,6 +298,8 @@ export class GraphQLInstrumentation extends InstrumentationBase {
           processedArgs.operationName
         );
 
+        const startTime = hrTime();
+        const metricAttributes = getOperationMetricAttributes(operation);
         const span = instrumentation._createExecuteSpan(
           operation,
           processedArgs
@@ -218,6 +314,8 @@ export class GraphQLInstrumentation extends InstrumentationBase {
             : undefined,
           span,
           fields: {},
+          resolveSpanCount: 0,
+          droppedResolveSpanCount: 0,
         };
 
         return context.with(trace.setSpan(context.active(), span), () => {
@@ -230,7 +328,13 @@ export class GraphQLInstrumentation extends InstrumentationBase {
               ]);
             },
             (err, result) => {
-              instrumentation._handleExecutionResult(span, err, result);
+              instrumentation._handleExecutionResult(
+                span,
+                startTime,
+                metricAttributes,
+                err,
+                result
+              );
             }
           );
         });
@@ -240,30 +344,59 @@ export class GraphQLInstrumentation extends InstrumentationBase {
 
   private _handleExecutionResult(
     span: api.Span,
+    startTime: HrTime,
+    metricAttributes: MetricAttributes,
     err?: Error,
     result?: PromiseOrValue<graphqlTypes.ExecutionResult>
   ) {
-    const config = this._getConfig();
     if (result === undefined || err) {
+      this._recordDuration(this._executeDuration, startTime, metricAttributes);
       endSpan(span, err);
       return;
     }
 
     if (result.constructor.name === 'Promise') {
       (result as Promise<graphqlTypes.ExecutionResult>).then(resultData => {
-        if (typeof config.responseHook !== 'function') {
-          endSpan(span);
-          return;
-        }
-        this._executeResponseHook(span, resultData);
+        this._onExecutionResult(span, startTime, metricAttributes, resultData);
       });
     } else {
-      if (typeof config.responseHook !== 'function') {
-        endSpan(span);
-        return;
-      }
-      this._executeResponseHook(span, result as graphqlTypes.ExecutionResult);
+      this._onExecutionResult(
+        span,
+        startTime,
+        metricAttributes,
+        result as graphqlTypes.ExecutionResult
+      );
+    }
+  }
+
+  private _onExecutionResult(
+    span: api.Span,
+    startTime: HrTime,
+    metricAttributes: MetricAttributes,
+    result: graphqlTypes.ExecutionResult
+  ) {
+    const config = this._getConfig();
+    this._recordDuration(this._executeDuration, startTime, metricAttributes);
+
+    if (result.errors && result.errors.length) {
+      addErrorEvents(span, result.errors);
+      this._executeErrors.add(1, metricAttributes);
     }
+
+    if (typeof config.responseHook !== 'function') {
+      endSpan(span);
+      return;
+    }
+    this._executeResponseHook(span, result);
+  }
+
+  private _recordDuration(
+    histogram: Histogram,
+    startTime: HrTime,
+    metricAttributes: MetricAttributes
+  ) {
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    histogram.record(seconds + nanos / 1e9, metricAttributes);
   }
 
   private _executeResponseHook(
@@ -323,6 +456,189 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     };
   }
 
+  private _patchSubscribe(): (original: subscribeType) => subscribeType {
+    const instrumentation = this;
+    return function subscribe(original) {
+      return function patchSubscribe(this: subscribeType): subscribeResult {
+        let processedArgs: OtelSubscriptionArgs;
+
+        if (arguments.length >= 2) {
+          const args = arguments as unknown as subscribeArgumentsArray;
+          processedArgs = {
+            schema: args[0],
+            document: args[1],
+            rootValue: args[2],
+            contextValue: args[3],
+            variableValues: args[4],
+            operationName: args[5],
+            fieldResolver: args[6],
+            subscribeFieldResolver: args[7],
+          };
+        } else {
+          processedArgs = Object.assign({}, arguments[0]);
+        }
+        // every event is executed with the same context value, which keeps
+        // the graphql data of the last execution
+        if (!processedArgs.contextValue) {
+          processedArgs.contextValue = {};
+        }
+
+        return instrumentation._subscribe(this, original, processedArgs);
+      };
+    };
+  }
+
+  private _subscribe(
+    obj: subscribeType,
+    original: subscribeType,
+    processedArgs: OtelSubscriptionArgs
+  ): subscribeResult {
+    const operation = getOperation(
+      processedArgs.document,
+      processedArgs.operationName
+    );
+    const rootSpan = this._createExecuteSpan(
+      operation,
+      processedArgs,
+      SpanNames.SUBSCRIPTION
+    );
+    const subscription: GraphQLSubscription = { span: rootSpan, ended: false };
+    const rootContext = trace.setSpan(context.active(), rootSpan);
+    const span = this.tracer.startSpan(SpanNames.SUBSCRIBE, {}, rootContext);
+
+    return context.with(trace.setSpan(rootContext, span), () => {
+      return safeExecuteInTheMiddle<subscribeResult>(
+        () => {
+          return (original as subscribeFunctionWithObj).apply(obj, [
+            processedArgs,
+          ]);
+        },
+        err => {
+          if (err) {
+            endSpan(span, err);
+            this._endSubscription(subscription, err);
+          }
+        }
+      ).then(
+        resultOrStream => {
+          endSpan(span);
+          return this._handleSubscribeResult(
+            subscription,
+            processedArgs.contextValue,
+            resultOrStream
+          );
+        },
+        err => {
+          endSpan(span, err);
+          this._endSubscription(subscription, err);
+          throw err;
+        }
+      );
+    });
+  }
+
+  private _handleSubscribeResult(
+    subscription: GraphQLSubscription,
+    contextValue: ObjectWithGraphQLData,
+    resultOrStream:
+      | AsyncIterableIterator<graphqlTypes.ExecutionResult>
+      | graphqlTypes.ExecutionResult
+  ) {
+    if (
+      typeof (resultOrStream as AsyncIterableIterator<unknown>)[
+        Symbol.asyncIterator
+      ] !== 'function'
+    ) {
+      const result = resultOrStream as graphqlTypes.ExecutionResult;
+      if (result.errors && result.errors.length) {
+        addErrorEvents(subscription.span, result.errors);
+      }
+      this._endSubscription(subscription);
+      return result;
+    }
+
+    const timeout = this._getConfig().subscriptionSpanTimeout;
+    if (timeout === 0) {
+      this._endSubscription(subscription);
+    } else if (timeout > 0) {
+      subscription.timeout = setTimeout(() => {
+        this._endSubscription(subscription);
+      }, timeout);
+      subscription.timeout.unref();
+    }
+
+    return this._wrapSubscriptionIterator(
+      subscription,
+      contextValue,
+      resultOrStream as AsyncIterableIterator<graphqlTypes.ExecutionResult>
+    );
+  }
+
+  private _wrapSubscriptionIterator(
+    subscription: GraphQLSubscription,
+    contextValue: ObjectWithGraphQLData,
+    iterator: AsyncIterableIterator<graphqlTypes.ExecutionResult>
+  ): AsyncIterableIterator<graphqlTypes.ExecutionResult> {
+    const instrumentation = this;
+    const next = iterator.next;
+    const returnIterator = iterator.return;
+    const throwIterator = iterator.throw;
+
+    iterator.next = function (...args) {
+      // events are executed one after another, each with its own fields
+      delete contextValue[OTEL_GRAPHQL_DATA_SYMBOL];
+
+      let eventContext = context
+        .active()
+        .setValue(OTEL_GRAPHQL_SUBSCRIPTION_KEY, subscription);
+      if (!subscription.ended) {
+        eventContext = trace.setSpan(eventContext, subscription.span);
+      }
+
+      return context
+        .with(eventContext, () => next.apply(iterator, args))
+        .then(
+          result => {
+            if (result.done) {
+              instrumentation._endSubscription(subscription);
+            }
+            return result;
+          },
+          err => {
+            instrumentation._endSubscription(subscription, err);
+            throw err;
+          }
+        );
+    };
+
+    if (returnIterator) {
+      iterator.return = function (...args) {
+        instrumentation._endSubscription(subscription);
+        return returnIterator.apply(iterator, args);
+      };
+    }
+
+    if (throwIterator) {
+      iterator.throw = function (...args) {
+        instrumentation._endSubscription(subscription, args[0]);
+        return throwIterator.apply(iterator, args);
+      };
+    }
+
+    return iterator;
+  }
+
+  private _endSubscription(subscription: GraphQLSubscription, err?: Error) {
+    if (subscription.ended) {
+      return;
+    }
+    subscription.ended = true;
+    if (subscription.timeout) {
+      clearTimeout(subscription.timeout);
+    }
+    endSpan(subscription.span, err);
+  }
+
   private _parse(
     obj: parseType,
     original: parseType,
@@ -330,6 +646,7 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     options?: graphqlTypes.ParseOptions
   ): graphqlTypes.DocumentNode {
     const config = this._getConfig();
+    const startTime = hrTime();
     const span = this.tracer.startSpan(SpanNames.PARSE);
 
     return context.with(trace.setSpan(context.active(), span), () => {
@@ -340,14 +657,25 @@ export class GraphQLInstrumentation extends InstrumentationBase {
           return original.call(obj, source, options);
         },
         (err, result) => {
+          let operation: graphqlTypes.DefinitionNode | undefined;
           if (result) {
-            const operation = getOperation(result);
+            operation = getOperation(result);
             if (!operation) {
               span.updateName(SpanNames.SCHEMA_PARSE);
+            } else if (config.replaceSourceWithSignature) {
+              const signature = getOperationSignature(result);
+              if (signature) {
+                span.setAttribute(AttributeNames.SOURCE, signature.signature);
+              }
             } else if (result.loc) {
               addSpanSource(span, result.loc, config.allowValues);
             }
           }
+          this._recordDuration(
+            this._parseDuration,
+            startTime,
+            getOperationMetricAttributes(operation)
+          );
           endSpan(span, err);
         }
       );
@@ -363,6 +691,7 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     typeInfo?: graphqlTypes.TypeInfo,
     options?: { maxErrors?: number }
   ): ReadonlyArray<graphqlTypes.GraphQLError> {
+    const startTime = hrTime();
     const span = this.tracer.startSpan(SpanNames.VALIDATE, {});
 
     return context.with(trace.setSpan(context.active(), span), () => {
@@ -386,7 +715,13 @@ export class GraphQLInstrumentation extends InstrumentationBase {
               name: AttributeNames.ERROR_VALIDATION_NAME,
               message: JSON.stringify(errors),
             });
+            addErrorEvents(span, errors);
           }
+          this._recordDuration(
+            this._validateDuration,
+            startTime,
+            getOperationMetricAttributes(getOperation(documentAST))
+          );
           endSpan(span, err);
         }
       );
@@ -395,11 +730,21 @@ export class GraphQLInstrumentation extends InstrumentationBase {
 
   private _createExecuteSpan(
     operation: graphqlTypes.DefinitionNode | undefined,
-    processedArgs: graphqlTypes.ExecutionArgs
+    processedArgs: graphqlTypes.ExecutionArgs,
+    spanName: string = SpanNames.EXECUTE
   ): api.Span {
     const config = this._getConfig();
 
-    const span = this.tracer.startSpan(SpanNames.EXECUTE, {});
+    // events of a subscription whose span has ended are linked to it
+    const subscription = context
+      .active()
+      .getValue(OTEL_GRAPHQL_SUBSCRIPTION_KEY) as Maybe<GraphQLSubscription>;
+    const span = this.tracer.startSpan(
+      spanName,
+      subscription?.ended
+        ? { links: [{ context: subscription.span.spanContext() }] }
+        : {}
+    );
     if (operation) {
       const name = (operation as graphqlTypes.OperationDefinitionNode)
         .operation;
@@ -418,10 +763,32 @@ export class GraphQLInstrumentation extends InstrumentationBase {
       span.setAttribute(AttributeNames.OPERATION, operationName);
     }
 
-    if (processedArgs.document?.loc) {
+    const signature = getOperationSignature(processedArgs.document);
+    if (signature) {
+      span.setAttribute(
+        AttributeNames.OPERATION_SIGNATURE_HASH,
+        signature.hash
+      );
+    }
+
+    if (config.replaceSourceWithSignature) {
+      if (signature) {
+        span.setAttribute(AttributeNames.SOURCE, signature.signature);
+      }
+    } else if (processedArgs.document?.loc) {
       addSpanSource(span, processedArgs.document.loc, config.allowValues);
     }
 
+    const persistedQueryHash = getPersistedQueryHash(
+      processedArgs.contextValue
+    );
+    if (persistedQueryHash) {
+      span.setAttribute(
+        AttributeNames.PERSISTED_QUERY_HASH,
+        persistedQueryHash
+      );
+    }
+
     if (processedArgs.variableValues && config.allowValues) {
       addInputVariableAttributes(span, processedArgs.variableValues);
     }
@@ -437,11 +804,16 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     variableValues: Maybe<{ [key: string]: any }>,
     operationName: Maybe<string>,
     fieldResolver: Maybe<graphqlTypes.GraphQLFieldResolver<any, any>>,
-    typeResolver: Maybe<graphqlTypes.GraphQLTypeResolver<any, any>>
+    typeResolver: Maybe<graphqlTypes.GraphQLTypeResolver<any, any>>,
+    defaultFieldResolver: graphqlTypes.GraphQLFieldResolver<any, any>
   ): OtelExecutionArgs {
     if (!contextValue) {
       contextValue = {};
     }
+    const isDefaultResolver =
+      !fieldResolver || fieldResolver === defaultFieldResolver;
+    fieldResolver = fieldResolver || defaultFieldResolver;
+
     if (contextValue[OTEL_GRAPHQL_DATA_SYMBOL]) {
       return {
         schema,
@@ -457,7 +829,8 @@ export class GraphQLInstrumentation extends InstrumentationBase {
     fieldResolver = wrapFieldResolver(
       this.tracer,
       this._getConfig.bind(this),
-      fieldResolver
+      fieldResolver,
+      isDefaultResolver
     );
 
     if (schema) {
@@ -471,6 +844,11 @@ export class GraphQLInstrumentation extends InstrumentationBase {
         this.tracer,
         this._getConfig.bind(this)
       );
+      wrapFields(
+        schema.getSubscriptionType(),
+        this.tracer,
+        this._getConfig.bind(this)
+      );
     }
 
     return {
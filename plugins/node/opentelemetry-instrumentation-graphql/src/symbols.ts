@@ -14,8 +14,14 @@
  * limitations under the License.
  */
 
+import { createContextKey } from '@opentelemetry/api';
+
 export const OTEL_PATCHED_SYMBOL = Symbol.for('opentelemetry.patched');
 
 export const OTEL_GRAPHQL_DATA_SYMBOL = Symbol.for(
   'opentelemetry.graphql_data'
 );
+
+export const OTEL_GRAPHQL_SUBSCRIPTION_KEY = createContextKey(
+  'opentelemetry.graphql_subscription'
+);
@@ -57,6 +57,56 @@ export interface GraphQLInstrumentationConfig extends InstrumentationConfig {
    */
   mergeItems?: boolean;
 
+  /**
+   * Don't create spans for fields resolved by the default resolver when
+   * the property it reads is not a function. Such fields have no resolver
+   * in the schema and only return a property of the parent object.
+   *
+   * @default false
+   */
+  ignoreTrivialResolveSpans?: boolean;
+
+  /**
+   * Field coordinates for which resolver spans are not created. Strings
+   * are matched as `Type.field` where `*` matches any type or field name,
+   * e.g. `User.*` or `*.id`. A name without a type, e.g. `id`, matches the
+   * field of any type. Regular expressions are tested against the whole
+   * coordinate.
+   *
+   * @default []
+   */
+  ignoreResolveSpans?: Array<string | RegExp>;
+
+  /**
+   * The maximum number of resolver spans created for a single operation.
+   * Resolvers over the budget run in the context of their closest
+   * instrumented parent. When set to -1 there is no limit.
+   *
+   * @default -1
+   */
+  maxResolveSpans?: number;
+
+  /**
+   * When set to true the `graphql.source` attribute of parse and execute
+   * spans contains the normalized operation signature instead of the raw
+   * document. The signature has literal values replaced with "*" and
+   * comments and insignificant whitespace removed.
+   *
+   * @default false
+   */
+  replaceSourceWithSignature?: boolean;
+
+  /**
+   * How long in milliseconds to keep the subscription span open after the
+   * subscription is set up. The span always ends when the event stream
+   * completes. When set to 0 it ends right after setup and events get
+   * spans linked to it instead of child spans. When set to -1 it stays open
+   * until the event stream completes.
+   *
+   * @default 0
+   */
+  subscriptionSpanTimeout?: number;
+
   /**
    * Hook that allows adding custom span attributes based on the data
    * returned from "execute" GraphQL action.
@@ -111,6 +161,45 @@ export interface OtelExecutionArgs {
 
 export type executeType = executeFunctionWithObj | executeFunctionWithArgs;
 
+export type subscribeResult = Promise<
+  | AsyncIterableIterator<graphqlTypes.ExecutionResult>
+  | graphqlTypes.ExecutionResult
+>;
+
+export type subscribeFunctionWithObj = (
+  args: OtelSubscriptionArgs
+) => subscribeResult;
+
+export type subscribeArgumentsArray = [
+  graphqlTypes.GraphQLSchema,
+  graphqlTypes.DocumentNode,
+  any,
+  any,
+  Maybe<{ [key: string]: any }>,
+  Maybe<string>,
+  Maybe<graphqlTypes.GraphQLFieldResolver<any, any>>,
+  Maybe<graphqlTypes.GraphQLFieldResolver<any, any>>
+];
+
+export type subscribeFunctionWithArgs = (
+  schema: graphqlTypes.GraphQLSchema,
+  document: graphqlTypes.DocumentNode,
+  rootValue?: any,
+  contextValue?: any,
+  variableValues?: Maybe<{ [key: string]: any }>,
+  operationName?: Maybe<string>,
+  fieldResolver?: Maybe<graphqlTypes.GraphQLFieldResolver<any, any>>,
+  subscribeFieldResolver?: Maybe<graphqlTypes.GraphQLFieldResolver<any, any>>
+) => subscribeResult;
+
+export type subscribeType =
+  | subscribeFunctionWithObj
+  | subscribeFunctionWithArgs;
+
+export interface OtelSubscriptionArgs extends OtelExecutionArgs {
+  subscribeFieldResolver?: Maybe<GraphQLFieldResolver<any, any>>;
+}
+
 export type parseType = (
   source: string | graphqlTypes.Source,
   options?: graphqlTypes.ParseOptions
@@ -124,6 +213,17 @@ export type validateType = (
   options?: { maxErrors?: number }
 ) => ReadonlyArray<graphqlTypes.GraphQLError>;
 
+export interface OperationSignature {
+  signature: string;
+  hash: string;
+}
+
+export interface GraphQLSubscription {
+  span: api.Span;
+  ended: boolean;
+  timeout?: NodeJS.Timeout;
+}
+
 export interface GraphQLField {
   parent: api.Span;
   span: api.Span;
@@ -134,6 +234,8 @@ interface OtelGraphQLData {
   source?: any;
   span: api.Span;
   fields: { [key: string]: GraphQLField };
+  resolveSpanCount: number;
+  droppedResolveSpanCount: number;
 }
 
 export interface ObjectWithGraphQLData {
@@ -16,7 +16,14 @@
 
 import type * as graphqlTypes from 'graphql';
 import * as api from '@opentelemetry/api';
-import { AllowedOperationTypes, SpanNames, TokenKind } from './enum';
+import { createHash } from 'crypto';
+import { Attributes as MetricAttributes } from '@opentelemetry/api-metrics';
+import {
+  AllowedOperationTypes,
+  EventNames,
+  SpanNames,
+  TokenKind,
+} from './enum';
 import { AttributeNames } from './enums/AttributeNames';
 import { OTEL_GRAPHQL_DATA_SYMBOL, OTEL_PATCHED_SYMBOL } from './symbols';
 import {
@@ -25,6 +32,7 @@ import {
   GraphQLInstrumentationConfig,
   GraphQLInstrumentationParsedConfig,
   ObjectWithGraphQLData,
+  OperationSignature,
   OtelPatched,
   Maybe,
 } from './types';
@@ -82,8 +90,21 @@ function createFieldIfNotExists(
   let spanAdded = false;
 
   if (!field) {
-    spanAdded = true;
     const parent = getParentField(contextValue, path);
+    const data = contextValue[OTEL_GRAPHQL_DATA_SYMBOL];
+    const maxResolveSpans = getConfig().maxResolveSpans;
+
+    if (maxResolveSpans >= 0 && data.resolveSpanCount >= maxResolveSpans) {
+      data.droppedResolveSpanCount++;
+      data.span.setAttribute(
+        AttributeNames.DROPPED_RESOLVE_SPANS,
+        data.droppedResolveSpanCount
+      );
+      return { spanAdded, field: parent };
+    }
+
+    spanAdded = true;
+    data.resolveSpanCount++;
 
     field = {
       parent,
@@ -174,6 +195,43 @@ export function getOperation(
   }
 }
 
+export function getOperationMetricAttributes(
+  operation?: graphqlTypes.DefinitionNode
+): MetricAttributes {
+  const attributes: MetricAttributes = {};
+  const definition = operation as
+    | graphqlTypes.OperationDefinitionNode
+    | undefined;
+
+  if (definition?.operation) {
+    attributes[AttributeNames.OPERATION_TYPE] = definition.operation;
+  }
+  if (definition?.name?.value) {
+    attributes[AttributeNames.OPERATION] = definition.name.value;
+  }
+
+  return attributes;
+}
+
+export function addErrorEvents(
+  span: api.Span,
+  errors: ReadonlyArray<graphqlTypes.GraphQLError>
+): void {
+  errors.forEach(error => {
+    const attributes: api.SpanAttributes = {
+      [AttributeNames.ERROR_MESSAGE]: error.message,
+    };
+    if (error.path) {
+      attributes[AttributeNames.ERROR_PATH] = error.path.join('.');
+    }
+    const code = error.extensions?.code;
+    if (code !== undefined && code !== null) {
+      attributes[AttributeNames.ERROR_CODE] = String(code);
+    }
+    span.addEvent(EventNames.ERROR, attributes);
+  });
+}
+
 function addField(contextValue: any, path: string[], field: GraphQLField) {
   return (contextValue[OTEL_GRAPHQL_DATA_SYMBOL].fields[path.join('.')] =
     field);
@@ -197,6 +255,40 @@ function getParentField(contextValue: any, path: string[]) {
   };
 }
 
+function isIgnoredResolveField(
+  patterns: Maybe<Array<string | RegExp>>,
+  info: graphqlTypes.GraphQLResolveInfo
+): boolean {
+  if (!patterns || patterns.length === 0) {
+    return false;
+  }
+  const typeName = info.parentType.name;
+  const coordinate = `${typeName}.${info.fieldName}`;
+
+  return patterns.some(pattern => {
+    if (pattern instanceof RegExp) {
+      return pattern.test(coordinate);
+    }
+    if (!pattern.includes('.')) {
+      // a bare name matches the field of any type, same as `*.field`
+      return pattern === '*' || pattern === info.fieldName;
+    }
+    const [patternType, patternField] = pattern.split('.');
+    return (
+      (patternType === '*' || patternType === typeName) &&
+      (patternField === '*' || patternField === info.fieldName)
+    );
+  });
+}
+
+function isTrivialResolve(
+  source: any,
+  info: graphqlTypes.GraphQLResolveInfo
+): boolean {
+  // the default resolver only calls the property when it is a function
+  return typeof source?.[info.fieldName] !== 'function';
+}
+
 function pathToArray(mergeItems: boolean, path: GraphQLPath): string[] {
   const flattened: string[] = [];
   let curr: GraphQLPath | undefined = path;
@@ -291,6 +383,91 @@ export function getSourceFromLocation(
   return source;
 }
 
+const WordKinds: string[] = [
+  TokenKind.NAME,
+  TokenKind.INT,
+  TokenKind.FLOAT,
+  TokenKind.STRING,
+  TokenKind.BLOCK_STRING,
+];
+
+const operationSignatures = new WeakMap<
+  graphqlTypes.DocumentNode,
+  OperationSignature
+>();
+
+/**
+ * Returns the document with literal values replaced with "*" and comments
+ * and insignificant whitespace removed, together with its sha256 hash.
+ * Documents without location (parsed with `noLocation`) have no signature.
+ */
+export function getOperationSignature(
+  document?: graphqlTypes.DocumentNode
+): OperationSignature | undefined {
+  if (!document?.loc?.startToken) {
+    return undefined;
+  }
+
+  let operationSignature = operationSignatures.get(document);
+  if (!operationSignature) {
+    const signature = getNormalizedSource(document.loc);
+    operationSignature = {
+      signature,
+      hash: createHash('sha256').update(signature).digest('hex'),
+    };
+    operationSignatures.set(document, operationSignature);
+  }
+
+  return operationSignature;
+}
+
+function getNormalizedSource(loc: graphqlTypes.Location): string {
+  let source = '';
+  let previousKind: string | undefined;
+  let next: graphqlTypes.Token | null = loc.startToken.next;
+
+  while (next && next.kind !== TokenKind.EOF) {
+    if (next.kind !== TokenKind.COMMENT) {
+      if (
+        previousKind &&
+        WordKinds.indexOf(previousKind) >= 0 &&
+        WordKinds.indexOf(next.kind) >= 0
+      ) {
+        source += ' ';
+      }
+      source +=
+        KindsToBeRemoved.indexOf(next.kind) >= 0
+          ? '*'
+          : next.value || next.kind;
+      previousKind = next.kind;
+    }
+    next = next.next;
+  }
+
+  return source;
+}
+
+/**
+ * Returns the Apollo-style persisted query hash from the
+ * `extensions.persistedQuery.sha256Hash` field of the context value or of
+ * the request body it carries.
+ */
+export function getPersistedQueryHash(contextValue: any): string | undefined {
+  const candidates = [
+    contextValue,
+    contextValue?.body,
+    contextValue?.req?.body,
+    contextValue?.request,
+  ];
+  for (const candidate of candidates) {
+    const hash = candidate?.extensions?.persistedQuery?.sha256Hash;
+    if (typeof hash === 'string') {
+      return hash;
+    }
+  }
+  return undefined;
+}
+
 export function wrapFields(
   type: Maybe<graphqlTypes.GraphQLObjectType & OtelPatched>,
   tracer: api.Tracer,
@@ -334,7 +511,8 @@ export function wrapFieldResolver<TSource = any, TContext = any, TArgs = any>(
   getConfig: () => Required<GraphQLInstrumentationConfig>,
   fieldResolver: Maybe<
     graphqlTypes.GraphQLFieldResolver<TSource, TContext, TArgs> & OtelPatched
-  >
+  >,
+  isDefaultResolver = false
 ): graphqlTypes.GraphQLFieldResolver<TSource, TContext, TArgs> & OtelPatched {
   if (
     (wrappedFieldResolver as OtelPatched)[OTEL_PATCHED_SYMBOL] ||
@@ -363,7 +541,13 @@ export function wrapFieldResolver<TSource = any, TContext = any, TArgs = any>(
 
     let field: any;
     let shouldEndSpan = false;
-    if (config.depth >= 0 && config.depth < depth) {
+    if (
+      (config.depth >= 0 && config.depth < depth) ||
+      (isDefaultResolver &&
+        config.ignoreTrivialResolveSpans &&
+        isTrivialResolve(source, info)) ||
+      isIgnoredResolveField(config.ignoreResolveSpans, info)
+    ) {
       field = getParentField(contextValue, path);
     } else {
       const newField = createFieldIfNotExists(
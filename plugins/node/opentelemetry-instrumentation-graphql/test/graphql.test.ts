@@ -20,11 +20,14 @@ import {
   ReadableSpan,
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
-import { Span } from '@opentelemetry/api';
+import { context, Span } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import * as assert from 'assert';
 import type * as graphqlTypes from 'graphql';
 import { GraphQLInstrumentation } from '../src';
-import { SpanNames } from '../src/enum';
+import { EventNames, MetricNames, SpanNames } from '../src/enum';
 import { AttributeNames } from '../src/enums/AttributeNames';
 import {
   GraphQLInstrumentationConfig,
@@ -40,7 +43,13 @@ graphQLInstrumentation.disable();
 // now graphql can be required
 
 import { buildSchema } from './schema';
-import { graphql } from 'graphql';
+import {
+  buildSchema as buildSchemaFromSDL,
+  graphql,
+  GraphQLError,
+  parse,
+  subscribe,
+} from 'graphql';
 // Construct a schema, using GraphQL schema language
 const schema = buildSchema();
 
@@ -997,6 +1006,639 @@ describe('graphql', () => {
     });
   });
 
+  describe('when ignoreTrivialResolveSpans is set to true', () => {
+    const simpleSchema = buildSchemaFromSDL(`
+      type Book {
+        name: String
+      }
+
+      type Query {
+        books: [Book]
+      }
+    `);
+    const rootValue = {
+      books: () => [{ name: 'First Book' }, { name: 'Second Book' }],
+    };
+    let spans: ReadableSpan[];
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      spans = [];
+    });
+
+    it('should not create spans for default property resolvers', async () => {
+      create({ ignoreTrivialResolveSpans: true });
+      await graphql(simpleSchema, sourceList1, rootValue);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+      const executeSpan = spans[3];
+      assertResolveSpan(
+        spans[2],
+        'books',
+        'books',
+        '[Book]',
+        'books {\n' + '      name\n' + '    }',
+        executeSpan.spanContext().spanId
+      );
+    });
+
+    it('should create spans for default property resolvers when not set', async () => {
+      create({});
+      await graphql(simpleSchema, sourceList1, rootValue);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 6);
+    });
+
+    it('should still create spans for resolvers defined in the schema', async () => {
+      create({ ignoreTrivialResolveSpans: true });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 5);
+    });
+  });
+
+  describe('when ignoreResolveSpans is set', () => {
+    let spans: ReadableSpan[];
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      spans = [];
+    });
+
+    it('should not create spans for fields matching a type wildcard', async () => {
+      create({ ignoreResolveSpans: ['Book.*'] });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+      assert.deepStrictEqual(
+        spans[2].attributes[AttributeNames.FIELD_PATH],
+        'book'
+      );
+    });
+
+    it('should parent children of an ignored field to the closest span', async () => {
+      create({ ignoreResolveSpans: ['*.book'] });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+      const executeSpan = spans[3];
+      const resolveSpans = spans.filter(
+        span => span.name === SpanNames.RESOLVE
+      );
+      assert.deepStrictEqual(resolveSpans.length, 1);
+      resolveSpans.forEach(span => {
+        assert.deepStrictEqual(
+          span.attributes[AttributeNames.FIELD_NAME],
+          'name'
+        );
+        assert.deepStrictEqual(
+          span.parentSpanId,
+          executeSpan.spanContext().spanId
+        );
+      });
+    });
+
+    it('should match a field name without a type on any type', async () => {
+      create({ ignoreResolveSpans: ['book'] });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+      const resolveSpans = spans.filter(
+        span => span.name === SpanNames.RESOLVE
+      );
+      assert.deepStrictEqual(resolveSpans.length, 1);
+      assert.deepStrictEqual(
+        resolveSpans[0].attributes[AttributeNames.FIELD_NAME],
+        'name'
+      );
+    });
+
+    it('should match regular expressions against the coordinate', async () => {
+      create({ ignoreResolveSpans: [/^Book\.name$/] });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+    });
+
+    it('should not ignore fields of other types', async () => {
+      create({ ignoreResolveSpans: ['Author.*'] });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 5);
+    });
+  });
+
+  describe('when maxResolveSpans is set', () => {
+    let spans: ReadableSpan[];
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      spans = [];
+    });
+
+    it('should stop creating resolver spans once the budget is used', async () => {
+      create({ maxResolveSpans: 1 });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 4);
+      const executeSpan = spans[3];
+      assert.deepStrictEqual(executeSpan.name, SpanNames.EXECUTE);
+      assert.deepStrictEqual(
+        executeSpan.attributes[AttributeNames.DROPPED_RESOLVE_SPANS],
+        1
+      );
+    });
+
+    it('should apply the budget to each operation separately', async () => {
+      create({ maxResolveSpans: 1 });
+      await graphql(schema, sourceBookById);
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      const resolveSpans = spans.filter(
+        span => span.name === SpanNames.RESOLVE
+      );
+      assert.deepStrictEqual(resolveSpans.length, 2);
+    });
+
+    it('should not record dropped spans when under budget', async () => {
+      create({ maxResolveSpans: 10 });
+      await graphql(schema, sourceBookById);
+      spans = exporter.getFinishedSpans();
+
+      assert.deepStrictEqual(spans.length, 5);
+      assert.deepStrictEqual(
+        spans[4].attributes[AttributeNames.DROPPED_RESOLVE_SPANS],
+        undefined
+      );
+    });
+  });
+
+  describe('metrics', () => {
+    let meter: RecordingMeter;
+
+    beforeEach(() => {
+      meter = new RecordingMeter();
+      graphQLInstrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      graphQLInstrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+    });
+
+    it('should record parse, validate and execute durations', async () => {
+      create({});
+      await graphql(schema, sourceFindUsingVariable, null, null, { id: 2 });
+
+      const names = meter.records.map(record => record.name);
+      assert.deepStrictEqual(names, [
+        MetricNames.PARSE_DURATION,
+        MetricNames.VALIDATE_DURATION,
+        MetricNames.EXECUTE_DURATION,
+      ]);
+      meter.records.forEach(record => {
+        assert.ok(record.value >= 0);
+        assert.deepStrictEqual(record.attributes, {
+          [AttributeNames.OPERATION]: 'Query1',
+          [AttributeNames.OPERATION_TYPE]: 'query',
+        });
+      });
+    });
+
+    it('should not label anonymous operations with a name', async () => {
+      create({});
+      await graphql(schema, sourceBookById);
+
+      const executeRecord = meter.records.find(
+        record => record.name === MetricNames.EXECUTE_DURATION
+      );
+      assert.deepStrictEqual(executeRecord?.attributes, {
+        [AttributeNames.OPERATION_TYPE]: 'query',
+      });
+    });
+
+    it('should count operations returning errors', async () => {
+      create({});
+      await graphql(
+        buildSchemaFromSDL('type Query { hello: String }'),
+        'query Hello { hello }',
+        {
+          hello: () => {
+            throw new Error('failed');
+          },
+        }
+      );
+
+      const errorRecords = meter.records.filter(
+        record => record.name === MetricNames.EXECUTE_ERRORS
+      );
+      assert.deepStrictEqual(errorRecords, [
+        {
+          name: MetricNames.EXECUTE_ERRORS,
+          value: 1,
+          attributes: {
+            [AttributeNames.OPERATION]: 'Hello',
+            [AttributeNames.OPERATION_TYPE]: 'query',
+          },
+        },
+      ]);
+    });
+
+    it('should not count operations without errors', async () => {
+      create({});
+      await graphql(schema, sourceBookById);
+
+      assert.ok(
+        meter.records.every(
+          record => record.name !== MetricNames.EXECUTE_ERRORS
+        )
+      );
+    });
+  });
+
+  describe('when execution result contains errors', () => {
+    const errorSchema = buildSchemaFromSDL(`
+      type Book {
+        name: String
+        price: Int
+      }
+
+      type Query {
+        books: [Book]
+      }
+    `);
+    const rootValue = {
+      books: () => [
+        {
+          name: 'First Book',
+          price: () => {
+            throw new GraphQLError(
+              'price is not available',
+              undefined,
+              undefined,
+              undefined,
+              undefined,
+              undefined,
+              { code: 'FORBIDDEN' }
+            );
+          },
+        },
+      ],
+    };
+    let spans: ReadableSpan[];
+    let result: graphqlTypes.ExecutionResult;
+
+    beforeEach(async () => {
+      create({});
+      result = await graphql(
+        errorSchema,
+        'query { books { name price } }',
+        rootValue
+      );
+      spans = exporter.getFinishedSpans();
+    });
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      spans = [];
+    });
+
+    it('should return partial results', () => {
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(result.data)), {
+        books: [{ name: 'First Book', price: null }],
+      });
+      assert.deepStrictEqual(result.errors?.length, 1);
+    });
+
+    it('should add an error event with path and code', () => {
+      const executeSpan = spans.find(span => span.name === SpanNames.EXECUTE);
+      assert.ok(executeSpan);
+      assert.deepStrictEqual(executeSpan.events.length, 1);
+      const [event] = executeSpan.events;
+      assert.deepStrictEqual(event.name, EventNames.ERROR);
+      assert.deepStrictEqual(event.attributes, {
+        [AttributeNames.ERROR_MESSAGE]: 'price is not available',
+        [AttributeNames.ERROR_PATH]: 'books.0.price',
+        [AttributeNames.ERROR_CODE]: 'FORBIDDEN',
+      });
+    });
+  });
+
+  describe('operation signature', () => {
+    let spans: ReadableSpan[];
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      spans = [];
+    });
+
+    function getExecuteSpans() {
+      return exporter
+        .getFinishedSpans()
+        .filter(span => span.name === SpanNames.EXECUTE);
+    }
+
+    it('should add the same signature hash for equivalent documents', async () => {
+      create({});
+      await graphql(schema, sourceBookById);
+      await graphql(
+        schema,
+        `
+          # fetch the second book
+          query {
+            book(id: 1) {
+              name
+            }
+          }
+        `
+      );
+      await graphql(schema, sourceList1);
+      spans = getExecuteSpans();
+
+      assert.deepStrictEqual(spans.length, 3);
+      const [first, second, third] = spans.map(
+        span => span.attributes[AttributeNames.OPERATION_SIGNATURE_HASH]
+      );
+      assert.ok(typeof first === 'string' && first.length === 64);
+      assert.deepStrictEqual(first, second);
+      assert.notDeepStrictEqual(first, third);
+    });
+
+    it('should keep the raw source by default', async () => {
+      create({});
+      await graphql(schema, sourceBookById);
+      spans = getExecuteSpans();
+
+      assert.deepStrictEqual(
+        spans[0].attributes[AttributeNames.SOURCE],
+        '\n' +
+          '  query {\n' +
+          '    book(id: *) {\n' +
+          '      name\n' +
+          '    }\n' +
+          '  }\n'
+      );
+    });
+
+    it('should replace the source with the signature when configured', async () => {
+      create({ replaceSourceWithSignature: true });
+      await graphql(schema, sourceFindUsingVariable, null, null, { id: 2 });
+      spans = exporter.getFinishedSpans();
+
+      const parseSpan = spans[0];
+      const executeSpan = spans[spans.length - 1];
+      assert.deepStrictEqual(parseSpan.name, SpanNames.PARSE);
+      assert.deepStrictEqual(executeSpan.name, SpanNames.EXECUTE);
+      const signature = 'query Query1($id:Int!){book(id:$id){name}}';
+      assert.deepStrictEqual(
+        parseSpan.attributes[AttributeNames.SOURCE],
+        signature
+      );
+      assert.deepStrictEqual(
+        executeSpan.attributes[AttributeNames.SOURCE],
+        signature
+      );
+    });
+
+    it('should strip literal values from the signature', async () => {
+      create({ replaceSourceWithSignature: true, allowValues: true });
+      await graphql(schema, sourceBookById);
+      spans = getExecuteSpans();
+
+      assert.deepStrictEqual(
+        spans[0].attributes[AttributeNames.SOURCE],
+        'query{book(id:*){name}}'
+      );
+    });
+
+    it('should add the persisted query hash from the context', async () => {
+      create({});
+      await graphql(schema, sourceBookById, null, {
+        extensions: {
+          persistedQuery: {
+            version: 1,
+            sha256Hash:
+              'ecf4edb46db40b5132295c0291d62fb65d6759a9eedfa4d5d612dd5ec54a6b38',
+          },
+        },
+      });
+      spans = getExecuteSpans();
+
+      assert.deepStrictEqual(
+        spans[0].attributes[AttributeNames.PERSISTED_QUERY_HASH],
+        'ecf4edb46db40b5132295c0291d62fb65d6759a9eedfa4d5d612dd5ec54a6b38'
+      );
+    });
+
+    it('should not add the persisted query hash when absent', async () => {
+      create({});
+      await graphql(schema, sourceBookById);
+      spans = getExecuteSpans();
+
+      assert.deepStrictEqual(
+        spans[0].attributes[AttributeNames.PERSISTED_QUERY_HASH],
+        undefined
+      );
+    });
+  });
+
+  describe('subscriptions', () => {
+    const subscriptionSchema = buildSchemaFromSDL(`
+      type Book {
+        name: String
+      }
+
+      type Query {
+        books: [Book]
+      }
+
+      type Subscription {
+        bookAdded: Book
+      }
+    `);
+    const sourceBookAdded = `
+      subscription BookAdded {
+        bookAdded {
+          name
+        }
+      }
+    `;
+    const rootValue = {
+      bookAdded: async function* () {
+        yield { bookAdded: { name: 'First Book' } };
+        yield { bookAdded: { name: 'Second Book' } };
+      },
+    };
+    let contextManager: AsyncHooksContextManager;
+    let spans: ReadableSpan[];
+
+    beforeEach(() => {
+      contextManager = new AsyncHooksContextManager().enable();
+      context.setGlobalContextManager(contextManager);
+    });
+
+    afterEach(() => {
+      exporter.reset();
+      graphQLInstrumentation.disable();
+      context.disable();
+      spans = [];
+    });
+
+    async function runSubscription(root: unknown = rootValue) {
+      const resultOrStream = await subscribe(
+        subscriptionSchema,
+        parse(sourceBookAdded),
+        root
+      );
+      const results: graphqlTypes.ExecutionResult[] = [];
+      if (Symbol.asyncIterator in resultOrStream) {
+        for await (const result of resultOrStream as AsyncIterableIterator<graphqlTypes.ExecutionResult>) {
+          results.push(result);
+        }
+      } else {
+        results.push(resultOrStream as graphqlTypes.ExecutionResult);
+      }
+      spans = exporter.getFinishedSpans();
+      return results;
+    }
+
+    function getSpans(name: string) {
+      return spans.filter(span => span.name === name);
+    }
+
+    it('should instrument the subscription setup', async () => {
+      create({});
+      const results = await runSubscription();
+
+      assert.deepStrictEqual(results.length, 2);
+      const [rootSpan] = getSpans(SpanNames.SUBSCRIPTION);
+      const [subscribeSpan] = getSpans(SpanNames.SUBSCRIBE);
+      assert.ok(rootSpan);
+      assert.ok(subscribeSpan);
+      assert.deepStrictEqual(
+        rootSpan.attributes[AttributeNames.OPERATION],
+        'subscription'
+      );
+      assert.deepStrictEqual(
+        subscribeSpan.parentSpanId,
+        rootSpan.spanContext().spanId
+      );
+    });
+
+    it('should link event spans to the ended subscription span by default', async () => {
+      create({});
+      await runSubscription();
+
+      const [rootSpan] = getSpans(SpanNames.SUBSCRIPTION);
+      const executeSpans = getSpans(SpanNames.EXECUTE);
+      assert.deepStrictEqual(executeSpans.length, 2);
+      executeSpans.forEach(executeSpan => {
+        assert.deepStrictEqual(executeSpan.parentSpanId, undefined);
+        assert.deepStrictEqual(executeSpan.links, [
+          { context: rootSpan.spanContext() },
+        ]);
+      });
+    });
+
+    it('should parent resolver spans to the execute span of their event', async () => {
+      create({});
+      await runSubscription();
+
+      const executeSpans = getSpans(SpanNames.EXECUTE);
+      executeSpans.forEach(executeSpan => {
+        const resolveSpans = spans.filter(
+          span =>
+            span.spanContext().traceId === executeSpan.spanContext().traceId &&
+            span.name === SpanNames.RESOLVE
+        );
+        assert.deepStrictEqual(resolveSpans.length, 2);
+        const bookAddedSpan = resolveSpans.find(
+          span => span.attributes[AttributeNames.FIELD_PATH] === 'bookAdded'
+        );
+        const nameSpan = resolveSpans.find(
+          span =>
+            span.attributes[AttributeNames.FIELD_PATH] === 'bookAdded.name'
+        );
+        assert.ok(bookAddedSpan);
+        assert.ok(nameSpan);
+        assert.deepStrictEqual(
+          bookAddedSpan.parentSpanId,
+          executeSpan.spanContext().spanId
+        );
+        assert.deepStrictEqual(
+          nameSpan.parentSpanId,
+          bookAddedSpan.spanContext().spanId
+        );
+      });
+    });
+
+    it('should keep the subscription span open until the stream completes', async () => {
+      create({ subscriptionSpanTimeout: -1 });
+      await runSubscription();
+
+      const [rootSpan] = getSpans(SpanNames.SUBSCRIPTION);
+      const executeSpans = getSpans(SpanNames.EXECUTE);
+      assert.deepStrictEqual(executeSpans.length, 2);
+      executeSpans.forEach(executeSpan => {
+        assert.deepStrictEqual(
+          executeSpan.parentSpanId,
+          rootSpan.spanContext().spanId
+        );
+        assert.deepStrictEqual(executeSpan.links, []);
+      });
+      assert.deepStrictEqual(spans[spans.length - 1], rootSpan);
+    });
+
+    it('should end the subscription span when the stream completes before the timeout', async () => {
+      create({ subscriptionSpanTimeout: 60_000 });
+      await runSubscription();
+
+      const [rootSpan] = getSpans(SpanNames.SUBSCRIPTION);
+      assert.ok(rootSpan);
+      getSpans(SpanNames.EXECUTE).forEach(executeSpan => {
+        assert.deepStrictEqual(
+          executeSpan.parentSpanId,
+          rootSpan.spanContext().spanId
+        );
+      });
+    });
+
+    it('should record errors of the subscription setup', async () => {
+      create({});
+      const results = await runSubscription({
+        bookAdded: () => {
+          throw new Error('cannot subscribe');
+        },
+      });
+
+      assert.deepStrictEqual(results[0].errors?.length, 1);
+      const [rootSpan] = getSpans(SpanNames.SUBSCRIPTION);
+      assert.deepStrictEqual(rootSpan.events.length, 1);
+      assert.deepStrictEqual(rootSpan.events[0].name, EventNames.ERROR);
+      assert.deepStrictEqual(
+        rootSpan.events[0].attributes![AttributeNames.ERROR_PATH],
+        'bookAdded'
+      );
+      assert.deepStrictEqual(getSpans(SpanNames.EXECUTE).length, 0);
+    });
+  });
+
   describe('responseHook', () => {
     let spans: ReadableSpan[];
     let graphqlResult: graphqlTypes.ExecutionResult;
@@ -15,10 +15,19 @@
  */
 
 import * as api from '@opentelemetry/api';
-import { getRPCMetadata, RPCType } from '@opentelemetry/core';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  getRPCMetadata,
+  RPCType,
+  timeInputToHrTime,
+} from '@opentelemetry/core';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   isWrapped,
 } from '@opentelemetry/instrumentation';
@@ -27,6 +36,7 @@ import type * as Hapi from '@hapi/hapi';
 import { VERSION } from './version';
 import {
   HapiComponentName,
+  HapiInstrumentationConfig,
   HapiServerRouteInput,
   handlerPatched,
   PatchableServerRoute,
@@ -49,8 +59,28 @@ import {
 
 /** Hapi instrumentation for OpenTelemetry */
 export class HapiInstrumentation extends InstrumentationBase {
-  constructor(config?: InstrumentationConfig) {
+  private _serverDuration!: Histogram;
+
+  constructor(config?: HapiInstrumentationConfig) {
     super('@opentelemetry/instrumentation-hapi', VERSION, config);
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: HapiInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): HapiInstrumentationConfig {
+    return this._config as HapiInstrumentationConfig;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
   }
 
   protected init() {
@@ -384,6 +414,16 @@ export class HapiInstrumentation extends InstrumentationBase {
         h: Hapi.ResponseToolkit,
         err?: Error
       ) {
+        if (instrumentation.getConfig().recordServerDuration) {
+          recordServerDuration(
+            api.context.active(),
+            instrumentation._serverDuration,
+            request.raw.req,
+            request.raw.res,
+            timeInputToHrTime(request.info.received)
+          );
+        }
+        setHttpRoute(api.context.active(), request.raw.req, request.route.path);
         if (api.trace.getSpan(api.context.active()) === undefined) {
           return await oldHandler(request, h, err);
         }
@@ -15,9 +15,21 @@
  */
 import type * as Hapi from '@hapi/hapi';
 import { Lifecycle } from '@hapi/hapi';
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 
 export const HapiComponentName = '@hapi/hapi';
 
+/**
+ * Options available for the Hapi Instrumentation
+ */
+export interface HapiInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
+}
+
 /**
  * This symbol is used to mark a Hapi route handler or server extension handler as
  * already patched, since its possible to use these handlers multiple times
@@ -15,7 +15,9 @@
  */
 
 import { context, trace, SpanStatusCode } from '@opentelemetry/api';
-import { RPCType, setRPCMetadata } from '@opentelemetry/core';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
+import { RPCMetadata, RPCType, setRPCMetadata } from '@opentelemetry/core';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
@@ -57,6 +59,8 @@ describe('Hapi Instrumentation - Core Tests', () => {
   afterEach(async () => {
     await server.stop();
     memoryExporter.reset();
+    plugin.setConfig({});
+    plugin.setMeterProvider(NOOP_METER_PROVIDER);
     context.disable();
   });
 
@@ -404,6 +408,63 @@ describe('Hapi Instrumentation - Core Tests', () => {
         }
       );
     });
+
+    it('should publish the route in the RPC metadata', async () => {
+      const rootSpan = tracer.startSpan('rootSpan', {});
+      server.route({
+        method: 'GET',
+        path: '/users/{userId}',
+        handler: (request, h) => {
+          return `Hello ${request.params.userId}`;
+        },
+      });
+
+      await server.start();
+      const rpcMetadata: RPCMetadata = { type: RPCType.HTTP, span: rootSpan };
+      await context.with(
+        setRPCMetadata(trace.setSpan(context.active(), rootSpan), rpcMetadata),
+        async () => {
+          const res = await server.inject({
+            method: 'GET',
+            url: '/users/1',
+          });
+          assert.strictEqual(res.statusCode, 200);
+          assert.strictEqual(rpcMetadata.route, '/users/{userId}');
+        }
+      );
+    });
+
+    it('should record http.server.duration with the route', async () => {
+      const meter = new RecordingMeter();
+      plugin.setMeterProvider({ getMeter: () => meter });
+      plugin.setConfig({ recordServerDuration: true });
+      server.route({
+        method: 'GET',
+        path: '/users/{userId}',
+        handler: (request, h) => {
+          return `Hello ${request.params.userId}`;
+        },
+      });
+
+      await server.start();
+      const res = await server.inject({
+        method: 'GET',
+        url: '/users/1',
+      });
+      assert.strictEqual(res.statusCode, 200);
+
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'http.server.duration');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        [SemanticAttributes.HTTP_SCHEME]: 'http',
+        [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+        [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+        [SemanticAttributes.HTTP_METHOD]: 'GET',
+        [SemanticAttributes.HTTP_ROUTE]: '/users/{userId}',
+      });
+    });
   });
 
   describe('Disabling Hapi instrumentation', () => {
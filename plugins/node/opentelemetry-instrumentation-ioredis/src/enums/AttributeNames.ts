@@ -0,0 +1,28 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// IORedis specific attributes not covered by semantic conventions
+export enum AttributeNames {
+  PIPELINE_LENGTH = 'db.redis.pipeline.length',
+  PIPELINE_COMMANDS = 'db.redis.pipeline.commands',
+  CLUSTER_SLOT = 'db.redis.cluster.slot',
+  CLUSTER_NODES = 'db.redis.cluster.nodes',
+  REDIRECTION_TYPE = 'db.redis.cluster.redirection.type',
+  REDIRECTION_NODE = 'db.redis.cluster.redirection.node',
+  SENTINEL_NAME = 'db.redis.sentinel.name',
+  SENTINEL_ROLE = 'db.redis.sentinel.role',
+  SENTINEL_RESOLVED_ADDRESS = 'db.redis.sentinel.resolved_address',
+}
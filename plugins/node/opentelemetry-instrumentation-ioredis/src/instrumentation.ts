@@ -14,17 +14,42 @@
  * limitations under the License.
  */
 
-import { diag, trace, context, SpanKind } from '@opentelemetry/api';
+import { diag, trace, context, Span, SpanKind } from '@opentelemetry/api';
+import { MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  CacheLookupCounters,
+  createCacheLookupCounters,
+  getRedisCacheLookups,
+  recordCacheLookups,
+} from '@opentelemetry/cache-common';
 import type * as ioredisTypes from 'ioredis';
 import {
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
   isWrapped,
 } from '@opentelemetry/instrumentation';
-import { IORedisInstrumentationConfig, IORedisCommand } from './types';
+import {
+  IORedisInstrumentationConfig,
+  IORedisCommand,
+  IORedisPipeline,
+  IORedisCluster,
+  IORedisClusterNode,
+  IORedisSentinelConnector,
+  IORedisSentinelAddress,
+  IORedisSentinelResolveCallback,
+} from './types';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { safeExecuteInTheMiddle } from '@opentelemetry/instrumentation';
-import { endSpan, defaultDbStatementSerializer } from './utils';
+import {
+  endSpan,
+  defaultDbStatementSerializer,
+  getPipelineCommands,
+  getPipelineCommandsSummary,
+  getClusterRedirection,
+  isPromiseLike,
+} from './utils';
+import { AttributeNames } from './enums/AttributeNames';
+import { EventNames } from './enums/EventNames';
 import { VERSION } from './version';
 
 const DEFAULT_CONFIG: IORedisInstrumentationConfig = {
@@ -36,12 +61,27 @@ export class IORedisInstrumentation extends InstrumentationBase<
 > {
   static readonly DB_SYSTEM = 'redis';
 
+  private _pipelineSpans = new WeakMap<IORedisPipeline, Span>();
+  private _collapsedCommands = new WeakSet<IORedisCommand>();
+  private _clusterCommandSpans = new WeakMap<IORedisCommand, Span>();
+  private _cacheLookupCounters!: CacheLookupCounters;
+
   constructor(_config: IORedisInstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-ioredis',
       VERSION,
       Object.assign({}, DEFAULT_CONFIG, _config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._cacheLookupCounters = createCacheLookupCounters(this.meter);
   }
 
   init(): InstrumentationNodeModuleDefinition<typeof ioredisTypes>[] {
@@ -67,6 +107,39 @@ export class IORedisInstrumentation extends InstrumentationBase<
             'connect',
             this._patchConnection()
           );
+          const pipelineProto = getPipelinePrototype(moduleExports);
+          if (pipelineProto) {
+            if (isWrapped(pipelineProto.exec)) {
+              this._unwrap(pipelineProto, 'exec');
+            }
+            this._wrap(pipelineProto, 'exec', this._patchPipelineExec());
+          }
+          const clusterProto = moduleExports.Cluster?.prototype;
+          if (clusterProto) {
+            if (isWrapped(clusterProto.sendCommand)) {
+              this._unwrap(clusterProto, 'sendCommand');
+            }
+            this._wrap(
+              clusterProto,
+              'sendCommand',
+              this._patchClusterSendCommand(moduleVersion)
+            );
+            if (isWrapped(clusterProto.refreshSlotsCache)) {
+              this._unwrap(clusterProto, 'refreshSlotsCache');
+            }
+            this._wrap(
+              clusterProto,
+              'refreshSlotsCache',
+              this._patchRefreshSlotsCache()
+            );
+          }
+          const sentinelProto = getSentinelConnectorPrototype(moduleExports);
+          if (sentinelProto) {
+            if (isWrapped(sentinelProto.resolve)) {
+              this._unwrap(sentinelProto, 'resolve');
+            }
+            this._wrap(sentinelProto, 'resolve', this._patchSentinelResolve());
+          }
           return moduleExports;
         },
         moduleExports => {
@@ -74,6 +147,19 @@ export class IORedisInstrumentation extends InstrumentationBase<
           diag.debug('Removing patch for ioredis');
           this._unwrap(moduleExports.prototype, 'sendCommand');
           this._unwrap(moduleExports.prototype, 'connect');
+          const pipelineProto = getPipelinePrototype(moduleExports);
+          if (pipelineProto) {
+            this._unwrap(pipelineProto, 'exec');
+          }
+          const clusterProto = moduleExports.Cluster?.prototype;
+          if (clusterProto) {
+            this._unwrap(clusterProto, 'sendCommand');
+            this._unwrap(clusterProto, 'refreshSlotsCache');
+          }
+          const sentinelProto = getSentinelConnectorPrototype(moduleExports);
+          if (sentinelProto) {
+            this._unwrap(sentinelProto, 'resolve');
+          }
         }
       ),
     ];
@@ -94,51 +180,73 @@ export class IORedisInstrumentation extends InstrumentationBase<
     };
   }
 
+  /**
+   * Patch pipeline exec to group the commands of a pipeline or transaction
+   */
+  private _patchPipelineExec() {
+    return (original: Function) => {
+      return this.tracePipelineExec(original);
+    };
+  }
+
+  /**
+   * Patch cluster send command to trace requests with their redirections
+   */
+  private _patchClusterSendCommand(moduleVersion?: string) {
+    return (original: Function) => {
+      return this.traceClusterSendCommand(original, moduleVersion);
+    };
+  }
+
+  /**
+   * Patch cluster refresh slots cache to trace topology updates
+   */
+  private _patchRefreshSlotsCache() {
+    return (original: Function) => {
+      return this.traceRefreshSlotsCache(original);
+    };
+  }
+
+  /**
+   * Patch sentinel resolve to trace the resolution of the master or slave
+   */
+  private _patchSentinelResolve() {
+    return (original: Function) => {
+      return this.traceSentinelResolve(original);
+    };
+  }
+
   private traceSendCommand = (original: Function, moduleVersion?: string) => {
     const instrumentation = this;
     return function (this: ioredisTypes.Redis, cmd?: IORedisCommand) {
-      if (arguments.length < 1 || typeof cmd !== 'object') {
+      if (
+        arguments.length < 1 ||
+        typeof cmd !== 'object' ||
+        instrumentation._collapsedCommands.has(cmd)
+      ) {
+        return original.apply(this, arguments);
+      }
+      const { host, port } = this.options;
+
+      // the span of a cluster command is already started, this node handles it
+      const clusterSpan = instrumentation._clusterCommandSpans.get(cmd);
+      if (clusterSpan) {
+        clusterSpan.setAttributes({
+          [SemanticAttributes.NET_PEER_NAME]: host,
+          [SemanticAttributes.NET_PEER_PORT]: port,
+          [SemanticAttributes.NET_PEER_IP]: `redis://${host}:${port}`,
+        });
         return original.apply(this, arguments);
       }
+
       const config =
         instrumentation.getConfig() as IORedisInstrumentationConfig;
-      const dbStatementSerializer =
-        config?.dbStatementSerializer || defaultDbStatementSerializer;
-
       const hasNoParentSpan = trace.getSpan(context.active()) === undefined;
       if (config?.requireParentSpan === true && hasNoParentSpan) {
         return original.apply(this, arguments);
       }
 
-      const span = instrumentation.tracer.startSpan(cmd.name, {
-        kind: SpanKind.CLIENT,
-        attributes: {
-          [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
-          [SemanticAttributes.DB_STATEMENT]: dbStatementSerializer(
-            cmd.name,
-            cmd.args
-          ),
-        },
-      });
-
-      if (config?.requestHook) {
-        safeExecuteInTheMiddle(
-          () =>
-            config?.requestHook!(span, {
-              moduleVersion,
-              cmdName: cmd.name,
-              cmdArgs: cmd.args,
-            }),
-          e => {
-            if (e) {
-              diag.error('ioredis instrumentation: request hook failed', e);
-            }
-          },
-          true
-        );
-      }
-
-      const { host, port } = this.options;
+      const span = instrumentation._startCommandSpan(cmd, moduleVersion);
 
       span.setAttributes({
         [SemanticAttributes.NET_PEER_NAME]: host,
@@ -148,30 +256,67 @@ export class IORedisInstrumentation extends InstrumentationBase<
 
       try {
         const result = original.apply(this, arguments);
+        instrumentation._endSpanOnReply(span, cmd);
+        return result;
+      } catch (error) {
+        endSpan(span, error);
+        throw error;
+      }
+    };
+  };
 
-        const origResolve = cmd.resolve;
-        /* eslint-disable @typescript-eslint/no-explicit-any */
-        cmd.resolve = function (result: any) {
-          safeExecuteInTheMiddle(
-            () => config?.responseHook?.(span, cmd.name, cmd.args, result),
-            e => {
-              if (e) {
-                diag.error('ioredis instrumentation: response hook failed', e);
-              }
-            },
-            true
-          );
+  private traceClusterSendCommand = (
+    original: Function,
+    moduleVersion?: string
+  ) => {
+    const instrumentation = this;
+    return function (
+      this: ioredisTypes.Cluster,
+      cmd?: IORedisCommand,
+      _stream?: unknown,
+      node?: IORedisClusterNode
+    ) {
+      // commands of the offline queue are sent again once the cluster is ready
+      if (
+        arguments.length < 1 ||
+        typeof cmd !== 'object' ||
+        instrumentation._collapsedCommands.has(cmd) ||
+        instrumentation._clusterCommandSpans.has(cmd)
+      ) {
+        return original.apply(this, arguments);
+      }
+      const config =
+        instrumentation.getConfig() as IORedisInstrumentationConfig;
+      const hasNoParentSpan = trace.getSpan(context.active()) === undefined;
+      if (config?.requireParentSpan === true && hasNoParentSpan) {
+        return original.apply(this, arguments);
+      }
 
-          endSpan(span, null);
-          origResolve(result);
-        };
+      const span = instrumentation._startCommandSpan(cmd, moduleVersion);
+      const slot = node ? node.slot : cmd.getSlot?.();
+      if (typeof slot === 'number') {
+        span.setAttribute(AttributeNames.CLUSTER_SLOT, slot);
+      }
+      instrumentation._clusterCommandSpans.set(cmd, span);
 
-        const origReject = cmd.reject;
+      // the cluster handles redirections in the reject of the command, so the
+      // span ends with the reject it replaces and records the redirections
+      // before it
+      instrumentation._endSpanOnReply(span, cmd);
+      try {
+        const result = original.apply(this, arguments);
+        const clusterReject = cmd.reject;
         cmd.reject = function (err: Error) {
-          endSpan(span, err);
-          origReject(err);
+          const redirection = getClusterRedirection(err);
+          if (redirection) {
+            span.addEvent(EventNames.CLUSTER_REDIRECTION, {
+              [AttributeNames.REDIRECTION_TYPE]: redirection.type,
+              [AttributeNames.CLUSTER_SLOT]: redirection.slot,
+              [AttributeNames.REDIRECTION_NODE]: redirection.node,
+            });
+          }
+          clusterReject(err);
         };
-
         return result;
       } catch (error) {
         endSpan(span, error);
@@ -180,6 +325,256 @@ export class IORedisInstrumentation extends InstrumentationBase<
     };
   };
 
+  private _startCommandSpan(cmd: IORedisCommand, moduleVersion?: string) {
+    const config = this.getConfig() as IORedisInstrumentationConfig;
+    const dbStatementSerializer =
+      config?.dbStatementSerializer || defaultDbStatementSerializer;
+
+    const span = this.tracer.startSpan(cmd.name, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+        [SemanticAttributes.DB_STATEMENT]: dbStatementSerializer(
+          cmd.name,
+          cmd.args
+        ),
+      },
+    });
+
+    if (config?.requestHook) {
+      safeExecuteInTheMiddle(
+        () =>
+          config?.requestHook!(span, {
+            moduleVersion,
+            cmdName: cmd.name,
+            cmdArgs: cmd.args,
+          }),
+        e => {
+          if (e) {
+            diag.error('ioredis instrumentation: request hook failed', e);
+          }
+        },
+        true
+      );
+    }
+    return span;
+  }
+
+  private _endSpanOnReply(span: Span, cmd: IORedisCommand) {
+    const instrumentation = this;
+    const config = this.getConfig() as IORedisInstrumentationConfig;
+    const origResolve = cmd.resolve;
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+    cmd.resolve = function (result: any) {
+      instrumentation._recordCacheLookups(span, cmd, result);
+      safeExecuteInTheMiddle(
+        () => config?.responseHook?.(span, cmd.name, cmd.args, result),
+        e => {
+          if (e) {
+            diag.error('ioredis instrumentation: response hook failed', e);
+          }
+        },
+        true
+      );
+
+      endSpan(span, null);
+      origResolve(result);
+    };
+
+    const origReject = cmd.reject;
+    cmd.reject = function (err: Error) {
+      endSpan(span, err);
+      origReject(err);
+    };
+  }
+
+  private _recordCacheLookups(
+    span: Span,
+    cmd: IORedisCommand,
+    response: unknown
+  ) {
+    const lookups = getRedisCacheLookups(cmd.name, cmd.args, response);
+    if (lookups) {
+      const config = this.getConfig() as IORedisInstrumentationConfig;
+      recordCacheLookups(
+        span,
+        this._cacheLookupCounters,
+        lookups,
+        { [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM },
+        config?.cacheKeyPrefix
+      );
+    }
+  }
+
+  private traceRefreshSlotsCache = (original: Function) => {
+    const instrumentation = this;
+    return function (this: IORedisCluster, callback?: Function) {
+      // a refresh in progress is not waited for, the callback is called on
+      // the next tick without refreshing anything
+      if (this.isRefreshing) {
+        return original.apply(this, arguments);
+      }
+      const span = instrumentation.tracer.startSpan('cluster-refresh-slots', {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+        },
+      });
+      const cluster = this;
+      const wrappedCallback = function (err?: Error) {
+        span.setAttribute(
+          AttributeNames.CLUSTER_NODES,
+          cluster.nodes('all').length
+        );
+        endSpan(span, err);
+        if (typeof callback === 'function') {
+          callback(err);
+        }
+      };
+      try {
+        return context.with(trace.setSpan(context.active(), span), () =>
+          original.call(this, wrappedCallback)
+        );
+      } catch (error) {
+        endSpan(span, error);
+        throw error;
+      }
+    };
+  };
+
+  private traceSentinelResolve = (original: Function) => {
+    const instrumentation = this;
+    return function (
+      this: IORedisSentinelConnector,
+      endpoint: IORedisSentinelAddress,
+      callback?: IORedisSentinelResolveCallback
+    ) {
+      const role = this.options.role === 'slave' ? 'slave' : 'master';
+      const span = instrumentation.tracer.startSpan('sentinel-resolve', {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+          [SemanticAttributes.NET_PEER_NAME]: endpoint?.host,
+          [SemanticAttributes.NET_PEER_PORT]: endpoint?.port,
+          [AttributeNames.SENTINEL_NAME]: this.options.name,
+          [AttributeNames.SENTINEL_ROLE]: role,
+        },
+      });
+      const endResolveSpan = (
+        err: Error | null | undefined,
+        resolved?: IORedisSentinelAddress | null
+      ) => {
+        if (resolved) {
+          span.setAttribute(
+            AttributeNames.SENTINEL_RESOLVED_ADDRESS,
+            `${resolved.host}:${resolved.port}`
+          );
+        }
+        endSpan(span, err);
+      };
+
+      // the span of a callback style resolve ends with its callback
+      const args = Array.from(arguments);
+      if (typeof callback === 'function') {
+        args[1] = function (
+          this: unknown,
+          err: Error | null | undefined,
+          resolved?: IORedisSentinelAddress | null
+        ) {
+          endResolveSpan(err, resolved);
+          return callback.call(this, err, resolved);
+        };
+      }
+      let result: ReturnType<IORedisSentinelConnector['resolve']>;
+      try {
+        result = context.with(trace.setSpan(context.active(), span), () =>
+          original.apply(this, args)
+        );
+      } catch (error) {
+        endSpan(span, error);
+        throw error;
+      }
+      if (typeof callback === 'function') {
+        return result;
+      }
+      if (!isPromiseLike(result)) {
+        endResolveSpan(null, result);
+        return result;
+      }
+      return result.then(
+        resolved => {
+          endResolveSpan(null, resolved);
+          return resolved;
+        },
+        err => {
+          endResolveSpan(err);
+          throw err;
+        }
+      );
+    };
+  };
+
+  private tracePipelineExec = (original: Function) => {
+    const instrumentation = this;
+    return function (this: IORedisPipeline) {
+      // a transaction calls exec a first time to queue its `exec` command
+      if (this._transactions > 0) {
+        return original.apply(this, arguments);
+      }
+      const config =
+        instrumentation.getConfig() as IORedisInstrumentationConfig;
+
+      // exec is called again once a cluster is ready or to retry a pipeline
+      let span = instrumentation._pipelineSpans.get(this);
+      if (span === undefined) {
+        const hasNoParentSpan = trace.getSpan(context.active()) === undefined;
+        if (config?.requireParentSpan === true && hasNoParentSpan) {
+          return original.apply(this, arguments);
+        }
+        span = instrumentation._startPipelineSpan(this);
+      }
+
+      if (config?.collapsePipelineCommands) {
+        this._queue.forEach(cmd => instrumentation._collapsedCommands.add(cmd));
+      }
+
+      return context.with(trace.setSpan(context.active(), span), () =>
+        original.apply(this, arguments)
+      );
+    };
+  };
+
+  private _startPipelineSpan(pipeline: IORedisPipeline): Span {
+    const isTransaction = pipeline._queue[0]?.name === 'multi';
+    const commands = getPipelineCommands(pipeline._queue, isTransaction);
+    const name = isTransaction ? 'multi-exec' : 'pipeline';
+    const span = this.tracer.startSpan(name, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+        [AttributeNames.PIPELINE_LENGTH]: commands.length,
+        [AttributeNames.PIPELINE_COMMANDS]:
+          getPipelineCommandsSummary(commands),
+      },
+    });
+
+    if (!pipeline.isCluster) {
+      const { host, port } = pipeline.options;
+      span.setAttributes({
+        [SemanticAttributes.NET_PEER_NAME]: host,
+        [SemanticAttributes.NET_PEER_PORT]: port,
+        [SemanticAttributes.NET_PEER_IP]: `redis://${host}:${port}`,
+      });
+    }
+
+    this._pipelineSpans.set(pipeline, span);
+    pipeline.promise.then(
+      results => endSpan(span, results.find(([err]) => err)?.[0]),
+      err => endSpan(span, err)
+    );
+    return span;
+  }
+
   private traceConnection = (original: Function) => {
     const instrumentation = this;
     return function (this: ioredisTypes.Redis) {
@@ -208,3 +603,23 @@ export class IORedisInstrumentation extends InstrumentationBase<
     };
   };
 }
+
+function getPipelinePrototype(
+  moduleExports: typeof ioredisTypes
+): ioredisTypes.Pipeline | undefined {
+  return (
+    moduleExports as unknown as {
+      Pipeline?: { prototype: ioredisTypes.Pipeline };
+    }
+  ).Pipeline?.prototype;
+}
+
+function getSentinelConnectorPrototype(
+  moduleExports: typeof ioredisTypes
+): IORedisSentinelConnector | undefined {
+  return (
+    moduleExports as unknown as {
+      SentinelConnector?: { prototype: IORedisSentinelConnector };
+    }
+  ).SentinelConnector?.prototype;
+}
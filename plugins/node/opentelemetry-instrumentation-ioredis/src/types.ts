@@ -17,6 +17,7 @@
 import type * as ioredisTypes from 'ioredis';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 import { Span } from '@opentelemetry/api';
+import { CacheKeyPrefixFunction } from '@opentelemetry/cache-common';
 
 export interface IORedisCommand {
   reject: (err: Error) => void;
@@ -25,6 +26,64 @@ export interface IORedisCommand {
   args: Array<string | Buffer | number>;
   callback: ioredisTypes.CallbackFunction<unknown>;
   name: string;
+  getSlot?: () => number | null;
+}
+
+/**
+ * Internal state of an ioredis `Pipeline`, which is also used for
+ * `multi()` transactions
+ */
+export interface IORedisPipeline {
+  isCluster: boolean;
+  options: ioredisTypes.RedisOptions;
+  promise: Promise<Array<[Error | null, unknown]>>;
+  _queue: IORedisCommand[];
+  _transactions: number;
+}
+
+/**
+ * Internal state of an ioredis `Cluster`
+ */
+export interface IORedisCluster extends ioredisTypes.Cluster {
+  isRefreshing: boolean;
+}
+
+/**
+ * Node to which a cluster sends the commands of a pipeline
+ */
+export interface IORedisClusterNode {
+  slot: number;
+}
+
+/**
+ * Address of a sentinel or of the node it resolves
+ */
+export interface IORedisSentinelAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * Callback of a sentinel resolve not returning a promise
+ */
+export type IORedisSentinelResolveCallback = (
+  err: Error | null | undefined,
+  resolved?: IORedisSentinelAddress | null
+) => void;
+
+/**
+ * Connector of an ioredis client using Sentinel
+ */
+export interface IORedisSentinelConnector {
+  options: ioredisTypes.RedisOptions;
+  resolve(
+    endpoint: IORedisSentinelAddress,
+    callback?: IORedisSentinelResolveCallback
+  ):
+    | Promise<IORedisSentinelAddress | null>
+    | IORedisSentinelAddress
+    | null
+    | undefined;
 }
 
 /**
@@ -82,4 +141,17 @@ export interface IORedisInstrumentationConfig extends InstrumentationConfig {
 
   /** Require parent to create ioredis span, default when unset is true */
   requireParentSpan?: boolean;
+
+  /**
+   * Do not create a span for each command of a pipeline or transaction,
+   * only the `pipeline`/`multi-exec` span. Default when unset is false, command
+   * spans are then children of the `pipeline`/`multi-exec` span
+   */
+  collapsePipelineCommands?: boolean;
+
+  /**
+   * Custom function extracting the prefix of the keys looked up by `get`,
+   * `mget` and `hget`, default is the part of the key before its first `:`
+   */
+  cacheKeyPrefix?: CacheKeyPrefixFunction;
 }
@@ -15,7 +15,7 @@
  */
 
 import { Span, SpanStatusCode } from '@opentelemetry/api';
-import { DbStatementSerializer } from './types';
+import { DbStatementSerializer, IORedisCommand } from './types';
 
 export const endSpan = (
   span: Span,
@@ -38,3 +38,48 @@ export const defaultDbStatementSerializer: DbStatementSerializer = (
   Array.isArray(cmdArgs) && cmdArgs.length
     ? `${cmdName} ${cmdArgs.join(' ')}`
     : cmdName;
+
+/**
+ * Tells whether a value is a promise, or any other thenable
+ */
+export const isPromiseLike = <T>(
+  value: T | PromiseLike<T>
+): value is PromiseLike<T> =>
+  typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+
+/**
+ * Returns the commands queued in a pipeline, without the `multi` and `exec`
+ * commands wrapping a transaction
+ */
+export const getPipelineCommands = (
+  queue: IORedisCommand[],
+  isTransaction: boolean
+): IORedisCommand[] => (isTransaction ? queue.slice(1, -1) : queue);
+
+/**
+ * Summarizes the names of pipelined commands with the number of times each
+ * one was queued, in order of first appearance (eg. `set:2 get:1`)
+ */
+export const getPipelineCommandsSummary = (
+  commands: IORedisCommand[]
+): string => {
+  const counts = new Map<string, number>();
+  commands.forEach(cmd => {
+    counts.set(cmd.name, (counts.get(cmd.name) ?? 0) + 1);
+  });
+  return Array.from(counts, ([name, count]) => `${name}:${count}`).join(' ');
+};
+
+/**
+ * Parses the MOVED or ASK error a cluster node replies with when it does not
+ * serve the slot of a command (eg. `MOVED 3999 127.0.0.1:6381`)
+ */
+export const getClusterRedirection = (
+  err: Error | undefined
+): { type: string; slot: number; node: string } | undefined => {
+  const [type, slot, node] = (err?.message ?? '').split(' ');
+  if ((type !== 'MOVED' && type !== 'ASK') || node === undefined) {
+    return undefined;
+  }
+  return { type, slot: Number(slot), node };
+};
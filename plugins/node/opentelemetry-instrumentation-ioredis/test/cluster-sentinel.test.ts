@@ -0,0 +1,225 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { context, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import type * as ioredisTypes from 'ioredis';
+import { IORedisInstrumentation } from '../src';
+import {
+  IORedisCluster,
+  IORedisCommand,
+  IORedisSentinelAddress,
+} from '../src/types';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import { AttributeNames } from '../src/enums/AttributeNames';
+import { EventNames } from '../src/enums/EventNames';
+
+/**
+ * Internals of a cluster used to trace its commands without any node
+ */
+interface TestCluster extends IORedisCluster {
+  offlineQueue: { toArray(): Array<{ command: IORedisCommand }> };
+  refreshSlotsCache(callback?: (err?: Error) => void): void;
+}
+
+/**
+ * Internals of a sentinel connector used to resolve without any sentinel
+ */
+interface TestSentinelConnector {
+  connectToSentinel(endpoint: IORedisSentinelAddress): unknown;
+  resolveMaster(client: unknown): Promise<IORedisSentinelAddress | null>;
+  resolve(
+    endpoint: IORedisSentinelAddress
+  ): Promise<IORedisSentinelAddress | null>;
+}
+
+const memoryExporter = new InMemorySpanExporter();
+
+// the cluster and sentinel are stubbed, those tests do not need a server
+describe('ioredis cluster and sentinel', () => {
+  const provider = new NodeTracerProvider();
+  let ioredis: typeof ioredisTypes;
+  let instrumentation: IORedisInstrumentation;
+  let contextManager: AsyncHooksContextManager;
+
+  before(() => {
+    provider.addSpanProcessor(new SimpleSpanProcessor(memoryExporter));
+    instrumentation = new IORedisInstrumentation({ requireParentSpan: false });
+    instrumentation.setTracerProvider(provider);
+    ioredis = require('ioredis');
+  });
+
+  after(() => {
+    instrumentation.disable();
+  });
+
+  beforeEach(() => {
+    contextManager = new AsyncHooksContextManager().enable();
+    context.setGlobalContextManager(contextManager);
+  });
+
+  afterEach(() => {
+    context.disable();
+    memoryExporter.reset();
+    sinon.restore();
+  });
+
+  describe('Cluster', () => {
+    let cluster: TestCluster;
+
+    beforeEach(() => {
+      cluster = new ioredis.Cluster([{ host: 'localhost', port: 63799 }], {
+        lazyConnect: true,
+      }) as TestCluster;
+      sinon.stub(cluster, 'connect').resolves();
+    });
+
+    it('should set the slot and record the redirections of a command', async () => {
+      sinon.stub(cluster, 'refreshSlotsCache');
+      const reply = cluster.get('foo');
+      const [{ command }] = cluster.offlineQueue.toArray();
+      command.reject(new Error('MOVED 12182 127.0.0.1:6381'));
+      command.reject(new Error('ASK 12182 127.0.0.1:6382'));
+      cluster.disconnect();
+      await reply.then(
+        () => assert.fail('the command should fail'),
+        (err: Error) =>
+          assert.strictEqual(err.message, 'None of startup nodes is available')
+      );
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.name, 'get');
+      assert.strictEqual(span.kind, SpanKind.CLIENT);
+      assert.strictEqual(span.attributes[AttributeNames.CLUSTER_SLOT], 12182);
+      assert.strictEqual(
+        span.attributes[SemanticAttributes.DB_STATEMENT],
+        'get foo'
+      );
+      assert.deepStrictEqual(
+        span.events.slice(0, 2).map(event => [event.name, event.attributes]),
+        [
+          [
+            EventNames.CLUSTER_REDIRECTION,
+            {
+              [AttributeNames.REDIRECTION_TYPE]: 'MOVED',
+              [AttributeNames.CLUSTER_SLOT]: 12182,
+              [AttributeNames.REDIRECTION_NODE]: '127.0.0.1:6381',
+            },
+          ],
+          [
+            EventNames.CLUSTER_REDIRECTION,
+            {
+              [AttributeNames.REDIRECTION_TYPE]: 'ASK',
+              [AttributeNames.CLUSTER_SLOT]: 12182,
+              [AttributeNames.REDIRECTION_NODE]: '127.0.0.1:6382',
+            },
+          ],
+        ]
+      );
+      assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+    });
+
+    it('should trace the refresh of the slots cache', done => {
+      cluster.refreshSlotsCache(err => {
+        assert.ok(err);
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(span.name, 'cluster-refresh-slots');
+        assert.strictEqual(span.kind, SpanKind.CLIENT);
+        assert.strictEqual(
+          span.attributes[SemanticAttributes.DB_SYSTEM],
+          IORedisInstrumentation.DB_SYSTEM
+        );
+        assert.strictEqual(span.attributes[AttributeNames.CLUSTER_NODES], 0);
+        assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+        assert.strictEqual(span.status.message, err!.message);
+        done();
+      });
+    });
+
+    it('should not trace a refresh while another one is in progress', done => {
+      cluster.isRefreshing = true;
+      cluster.refreshSlotsCache(err => {
+        assert.ifError(err);
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 0);
+        done();
+      });
+    });
+  });
+
+  describe('SentinelConnector', () => {
+    const sentinel = { host: 'localhost', port: 26379 };
+    let connector: TestSentinelConnector;
+
+    beforeEach(() => {
+      const { SentinelConnector } = require('ioredis');
+      connector = new SentinelConnector({
+        sentinels: [sentinel],
+        name: 'mymaster',
+        role: 'master',
+      });
+      sinon
+        .stub(connector, 'connectToSentinel')
+        .returns({ on: () => {}, disconnect: () => {} });
+    });
+
+    it('should trace the resolution of the master', async () => {
+      sinon
+        .stub(connector, 'resolveMaster')
+        .resolves({ host: '10.0.0.1', port: 6379 });
+      const resolved = await connector.resolve(sentinel);
+      assert.deepStrictEqual(resolved, { host: '10.0.0.1', port: 6379 });
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.name, 'sentinel-resolve');
+      assert.strictEqual(span.kind, SpanKind.CLIENT);
+      assert.deepStrictEqual(span.attributes, {
+        [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+        [SemanticAttributes.NET_PEER_NAME]: 'localhost',
+        [SemanticAttributes.NET_PEER_PORT]: 26379,
+        [AttributeNames.SENTINEL_NAME]: 'mymaster',
+        [AttributeNames.SENTINEL_ROLE]: 'master',
+        [AttributeNames.SENTINEL_RESOLVED_ADDRESS]: '10.0.0.1:6379',
+      });
+      assert.strictEqual(span.status.code, SpanStatusCode.UNSET);
+    });
+
+    it('should end the span when the resolution fails', async () => {
+      sinon
+        .stub(connector, 'resolveMaster')
+        .rejects(new Error('sentinel is down'));
+      await connector.resolve(sentinel).then(
+        () => assert.fail('the resolution should fail'),
+        (err: Error) => assert.strictEqual(err.message, 'sentinel is down')
+      );
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.name, 'sentinel-resolve');
+      assert.strictEqual(
+        span.attributes[AttributeNames.SENTINEL_RESOLVED_ADDRESS],
+        undefined
+      );
+      assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+      assert.strictEqual(span.status.message, 'sentinel is down');
+    });
+  });
+});
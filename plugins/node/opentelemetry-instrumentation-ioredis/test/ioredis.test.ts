@@ -21,7 +21,9 @@ import {
   SpanStatus,
   trace,
   Span,
+  SpanAttributes,
 } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import * as testUtils from '@opentelemetry/contrib-test-utils';
@@ -31,6 +33,7 @@ import {
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
 import * as assert from 'assert';
+import { isWrapped } from '@opentelemetry/instrumentation';
 import * as sinon from 'sinon';
 import * as ioredisTypes from 'ioredis';
 import { IORedisInstrumentation } from '../src';
@@ -40,6 +43,11 @@ import {
   IORedisRequestHookInformation,
 } from '../src/types';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import { AttributeNames } from '../src/enums/AttributeNames';
+import {
+  CacheAttributeNames,
+  CacheMetricNames,
+} from '@opentelemetry/cache-common';
 
 const memoryExporter = new InMemorySpanExporter();
 
@@ -125,6 +133,13 @@ describe('ioredis', () => {
     );
   });
 
+  it('should patch cluster and sentinel', () => {
+    const { Cluster, SentinelConnector } = require('ioredis');
+    assert.ok(isWrapped(Cluster.prototype.sendCommand));
+    assert.ok(isWrapped(Cluster.prototype.refreshSlotsCache));
+    assert.ok(isWrapped(SentinelConnector.prototype.resolve));
+  });
+
   describe('#createClient()', () => {
     it('should propagate the current span to event handlers', done => {
       const span = provider.getTracer('ioredis-test').startSpan('test span');
@@ -184,6 +199,7 @@ describe('ioredis', () => {
       description: string;
       name: string;
       args: Array<string>;
+      attributes?: SpanAttributes;
       method: (cb: ioredisTypes.CallbackFunction<unknown>) => unknown;
     }> = [
       {
@@ -197,6 +213,7 @@ describe('ioredis', () => {
         description: 'get',
         name: 'get',
         args: [testKeyName],
+        attributes: { [CacheAttributeNames.CACHE_HIT]: true },
         method: (cb: ioredisTypes.CallbackFunction<string | null>) =>
           client.get(testKeyName, cb),
       },
@@ -241,6 +258,7 @@ describe('ioredis', () => {
             [SemanticAttributes.DB_STATEMENT]: `${
               command.name
             } ${command.args.join(' ')}`,
+            ...command.attributes,
           };
           const span = provider
             .getTracer('ioredis-test')
@@ -439,14 +457,15 @@ describe('ioredis', () => {
             .exec((err, _results) => {
               assert.ifError(err);
 
-              assert.strictEqual(memoryExporter.getFinishedSpans().length, 4);
+              assert.strictEqual(memoryExporter.getFinishedSpans().length, 5);
               span.end();
               const endedSpans = memoryExporter.getFinishedSpans();
-              assert.strictEqual(endedSpans.length, 5);
+              assert.strictEqual(endedSpans.length, 6);
               assert.strictEqual(endedSpans[0].name, 'multi');
               assert.strictEqual(endedSpans[1].name, 'set');
               assert.strictEqual(endedSpans[2].name, 'get');
               assert.strictEqual(endedSpans[3].name, 'exec');
+              assert.strictEqual(endedSpans[4].name, 'multi-exec');
               testUtils.assertSpan(
                 endedSpans[0],
                 SpanKind.CLIENT,
@@ -454,7 +473,24 @@ describe('ioredis', () => {
                 [],
                 unsetStatus
               );
-              testUtils.assertPropagation(endedSpans[0], span);
+              testUtils.assertSpan(
+                endedSpans[4],
+                SpanKind.CLIENT,
+                {
+                  ...DEFAULT_ATTRIBUTES,
+                  [AttributeNames.PIPELINE_LENGTH]: 2,
+                  [AttributeNames.PIPELINE_COMMANDS]: 'set:1 get:1',
+                },
+                [],
+                unsetStatus
+              );
+              for (let i = 0; i < 4; i++) {
+                assert.strictEqual(
+                  endedSpans[i].parentSpanId,
+                  endedSpans[4].spanContext().spanId
+                );
+              }
+              testUtils.assertPropagation(endedSpans[4], span);
               done();
             });
         });
@@ -474,13 +510,14 @@ describe('ioredis', () => {
           pipeline.exec((err, results) => {
             assert.ifError(err);
 
-            assert.strictEqual(memoryExporter.getFinishedSpans().length, 2);
+            assert.strictEqual(memoryExporter.getFinishedSpans().length, 3);
             span.end();
             const endedSpans = memoryExporter.getFinishedSpans();
-            assert.strictEqual(endedSpans.length, 3);
+            assert.strictEqual(endedSpans.length, 4);
             assert.strictEqual(endedSpans[0].name, 'set');
             assert.strictEqual(endedSpans[1].name, 'del');
-            assert.strictEqual(endedSpans[2].name, 'test span');
+            assert.strictEqual(endedSpans[2].name, 'pipeline');
+            assert.strictEqual(endedSpans[3].name, 'test span');
             testUtils.assertSpan(
               endedSpans[0],
               SpanKind.CLIENT,
@@ -488,7 +525,26 @@ describe('ioredis', () => {
               [],
               unsetStatus
             );
-            testUtils.assertPropagation(endedSpans[0], span);
+            testUtils.assertSpan(
+              endedSpans[2],
+              SpanKind.CLIENT,
+              {
+                ...DEFAULT_ATTRIBUTES,
+                [AttributeNames.PIPELINE_LENGTH]: 2,
+                [AttributeNames.PIPELINE_COMMANDS]: 'set:1 del:1',
+              },
+              [],
+              unsetStatus
+            );
+            assert.strictEqual(
+              endedSpans[0].parentSpanId,
+              endedSpans[2].spanContext().spanId
+            );
+            assert.strictEqual(
+              endedSpans[1].parentSpanId,
+              endedSpans[2].spanContext().spanId
+            );
+            testUtils.assertPropagation(endedSpans[2], span);
             done();
           });
         });
@@ -498,6 +554,7 @@ describe('ioredis', () => {
         const attributes = {
           ...DEFAULT_ATTRIBUTES,
           [SemanticAttributes.DB_STATEMENT]: `get ${testKeyName}`,
+          [CacheAttributeNames.CACHE_HIT]: true,
         };
         const span = provider.getTracer('ioredis-test').startSpan('test span');
         await context.with(trace.setSpan(context.active(), span), async () => {
@@ -626,6 +683,178 @@ describe('ioredis', () => {
       });
     });
 
+    describe('Instrumenting with collapsed pipeline commands', () => {
+      before(() => {
+        const config: IORedisInstrumentationConfig = {
+          collapsePipelineCommands: true,
+        };
+        instrumentation.setConfig(config);
+      });
+
+      after(() => {
+        instrumentation.setConfig({});
+      });
+
+      it('should only create the pipeline span', async () => {
+        const span = provider.getTracer('ioredis-test').startSpan('test span');
+        await context.with(trace.setSpan(context.active(), span), async () => {
+          await client
+            .pipeline()
+            .set(testKeyName, 'data')
+            .get(testKeyName)
+            .get(testKeyName)
+            .exec();
+          await client.get(testKeyName);
+        });
+        span.end();
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.deepStrictEqual(
+          endedSpans.map(s => s.name),
+          ['pipeline', 'get', 'test span']
+        );
+        assert.strictEqual(
+          endedSpans[0].attributes[AttributeNames.PIPELINE_LENGTH],
+          3
+        );
+        assert.strictEqual(
+          endedSpans[0].attributes[AttributeNames.PIPELINE_COMMANDS],
+          'set:1 get:2'
+        );
+        testUtils.assertPropagation(endedSpans[0], span);
+        testUtils.assertPropagation(endedSpans[1], span);
+      });
+
+      it('should only create the multi-exec span', async () => {
+        const span = provider.getTracer('ioredis-test').startSpan('test span');
+        await context.with(trace.setSpan(context.active(), span), async () => {
+          await client.multi().set(testKeyName, 'data').exec();
+        });
+        span.end();
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.deepStrictEqual(
+          endedSpans.map(s => s.name),
+          ['multi-exec', 'test span']
+        );
+        assert.strictEqual(
+          endedSpans[0].attributes[AttributeNames.PIPELINE_COMMANDS],
+          'set:1'
+        );
+      });
+    });
+
+    describe('Instrumenting cache lookups', () => {
+      let meter: testUtils.RecordingMeter;
+
+      beforeEach(() => {
+        meter = new testUtils.RecordingMeter();
+        instrumentation.setMeterProvider({ getMeter: () => meter });
+        instrumentation.setConfig({});
+      });
+
+      afterEach(() => {
+        instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+      });
+
+      it('should record a cache hit and a cache miss', async () => {
+        await client.set(`session:${testKeyName}`, 'data');
+        memoryExporter.reset();
+
+        await client.get(`session:${testKeyName}`);
+        await client.get(`session:missing-${testKeyName}`);
+        await client.del(`session:${testKeyName}`);
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT],
+          true
+        );
+        assert.strictEqual(
+          endedSpans[1].attributes[CacheAttributeNames.CACHE_HIT],
+          false
+        );
+        assert.strictEqual(
+          endedSpans[2].attributes[CacheAttributeNames.CACHE_HIT],
+          undefined
+        );
+        assert.deepStrictEqual(meter.records, [
+          {
+            name: CacheMetricNames.CACHE_HITS,
+            value: 1,
+            attributes: {
+              [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+            },
+          },
+          {
+            name: CacheMetricNames.CACHE_MISSES,
+            value: 1,
+            attributes: {
+              [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+            },
+          },
+        ]);
+      });
+
+      it('should count the cache hits and misses of mget', async () => {
+        await client.mget(testKeyName, `missing-${testKeyName}`, testKeyName);
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(endedSpans.length, 1);
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT_COUNT],
+          2
+        );
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_MISS_COUNT],
+          1
+        );
+        assert.deepStrictEqual(
+          meter.records.map(record => record.name),
+          [
+            CacheMetricNames.CACHE_HITS,
+            CacheMetricNames.CACHE_MISSES,
+            CacheMetricNames.CACHE_HITS,
+          ]
+        );
+      });
+
+      it('should record a cache hit of hget', async () => {
+        await client.hset(hashKeyName, 'field', 'value');
+        memoryExporter.reset();
+
+        await client.hget(hashKeyName, 'field');
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT],
+          true
+        );
+      });
+
+      it('should use the cacheKeyPrefix function from config', async () => {
+        const config: IORedisInstrumentationConfig = {
+          cacheKeyPrefix: key => key.split('-')[0],
+        };
+        instrumentation.setConfig(config);
+
+        await client.get(testKeyName);
+
+        assert.deepStrictEqual(meter.records, [
+          {
+            name: CacheMetricNames.CACHE_HITS,
+            value: 1,
+            attributes: {
+              [SemanticAttributes.DB_SYSTEM]: IORedisInstrumentation.DB_SYSTEM,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: 'test',
+            },
+          },
+        ]);
+      });
+    });
+
     describe('Instrumenting without parent span', () => {
       before(() => {
         const config: IORedisInstrumentationConfig = {
@@ -699,6 +928,7 @@ describe('ioredis', () => {
               command.name,
               command.args
             ),
+            ...command.attributes,
           };
           const span = provider
             .getTracer('ioredis-test')
@@ -24,3 +24,14 @@ export const SUPPORTED_VERSIONS = [
   // use "src" as basepath
   '>=0.18.0 <0.19.0',
 ];
+
+// migrations and seeds, as `<basepath>/<file>`
+export const MIGRATOR_FILES = [
+  // latest tested 0.95.6
+  'lib/migrations/migrate/Migrator.js',
+  'lib/migrate/Migrator.js',
+];
+export const SEEDER_FILES = [
+  'lib/migrations/seed/Seeder.js',
+  'lib/seed/Seeder.js',
+];
@@ -0,0 +1,25 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Knex specific attributes not covered by semantic conventions
+export enum AttributeNames {
+  KNEX_VERSION = 'knex.version',
+  TRANSACTION_OUTCOME = 'knex.transaction.outcome',
+  TRANSACTION_SAVEPOINT = 'knex.transaction.savepoint',
+  MIGRATIONS_BATCH = 'knex.migrations.batch',
+  MIGRATIONS = 'knex.migrations',
+  SEEDS = 'knex.seeds',
+}
@@ -26,10 +26,59 @@ import {
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import * as utils from './utils';
 import * as types from './types';
+import { AttributeNames } from './enums/AttributeNames';
 
 import type * as knex from 'knex';
 
 const contextSymbol = Symbol('opentelemetry.instrumentation-knex.context');
+const transactionSymbol = Symbol(
+  'opentelemetry.instrumentation-knex.transaction'
+);
+/**
+ * Context of a transaction, stored on its client for the queries of a
+ * transaction without container
+ */
+interface TransactionContext {
+  parentSpan?: api.Span;
+  context: api.Context;
+}
+
+/**
+ * Client of a knex instance or of a transaction
+ */
+interface KnexClient {
+  config?: utils.KnexClientConfig;
+  transacting?: boolean;
+  [transactionSymbol]?: TransactionContext;
+}
+
+/**
+ * Internal state of a knex `Transaction`
+ */
+interface KnexTransaction {
+  client?: KnexClient;
+  _evaluateContainer(
+    config: unknown,
+    container: (transactor: KnexTransactor) => unknown
+  ): unknown;
+}
+
+/**
+ * Transactor passed to the container of a transaction
+ */
+interface KnexTransactor {
+  client: KnexClient;
+  commit?: (...args: unknown[]) => unknown;
+  rollback?: (...args: unknown[]) => unknown;
+}
+
+/**
+ * Internal state of a knex `Migrator` or `Seeder`
+ */
+interface KnexMigrator {
+  knex?: { client?: KnexClient };
+}
+
 const DEFAULT_CONFIG: types.KnexInstrumentationConfig = {
   maxQueryLength: 1022,
 };
@@ -54,7 +103,15 @@ export class KnexInstrumentation extends InstrumentationBase<typeof knex> {
       this.getClientNodeModuleFileInstrumentation('lib'),
       this.getRunnerNodeModuleFileInstrumentation('src'),
       this.getRunnerNodeModuleFileInstrumentation('lib'),
-      this.getRunnerNodeModuleFileInstrumentation('lib/execution')
+      this.getRunnerNodeModuleFileInstrumentation('lib/execution'),
+      this.getTransactionNodeModuleFileInstrumentation('lib'),
+      this.getTransactionNodeModuleFileInstrumentation('lib/execution'),
+      ...constants.MIGRATOR_FILES.map(file =>
+        this.getMigratorNodeModuleFileInstrumentation(file)
+      ),
+      ...constants.SEEDER_FILES.map(file =>
+        this.getSeederNodeModuleFileInstrumentation(file)
+      )
     );
 
     return module;
@@ -126,37 +183,126 @@ export class KnexInstrumentation extends InstrumentationBase<typeof knex> {
     );
   }
 
+  private getTransactionNodeModuleFileInstrumentation(basePath: string) {
+    return new InstrumentationNodeModuleFile<any>(
+      `knex/${basePath}/transaction.js`,
+      constants.SUPPORTED_VERSIONS,
+      (Transaction: any, moduleVersion) => {
+        // older versions run the transaction from the constructor
+        if (typeof Transaction?.prototype?._evaluateContainer !== 'function') {
+          api.diag.debug(
+            `Not applying ${basePath}/transaction.js patch for ${constants.MODULE_NAME}@${moduleVersion}`
+          );
+          return Transaction;
+        }
+        api.diag.debug(
+          `Applying ${basePath}/transaction.js patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        this.ensureWrapped(
+          moduleVersion,
+          Transaction.prototype,
+          '_evaluateContainer',
+          this.createTransactionWrapper(moduleVersion)
+        );
+        return Transaction;
+      },
+      (Transaction: any, moduleVersion) => {
+        api.diag.debug(
+          `Removing ${basePath}/transaction.js patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        if (isWrapped(Transaction?.prototype?._evaluateContainer)) {
+          this._unwrap(Transaction.prototype, '_evaluateContainer');
+        }
+        return Transaction;
+      }
+    );
+  }
+
+  private getMigratorNodeModuleFileInstrumentation(file: string) {
+    const methods = ['latest', 'up', 'rollback', 'down'];
+    return new InstrumentationNodeModuleFile<any>(
+      `knex/${file}`,
+      constants.SUPPORTED_VERSIONS,
+      (moduleExports: any, moduleVersion) => {
+        api.diag.debug(
+          `Applying ${file} patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        const Migrator = moduleExports.Migrator ?? moduleExports;
+        methods.forEach(method => {
+          this.ensureWrapped(
+            moduleVersion,
+            Migrator.prototype,
+            method,
+            this.createMigrationWrapper(`migrate.${method}`, moduleVersion)
+          );
+        });
+        return moduleExports;
+      },
+      (moduleExports: any, moduleVersion) => {
+        api.diag.debug(
+          `Removing ${file} patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        const Migrator = moduleExports.Migrator ?? moduleExports;
+        methods.forEach(method => this._unwrap(Migrator.prototype, method));
+        return moduleExports;
+      }
+    );
+  }
+
+  private getSeederNodeModuleFileInstrumentation(file: string) {
+    return new InstrumentationNodeModuleFile<any>(
+      `knex/${file}`,
+      constants.SUPPORTED_VERSIONS,
+      (Seeder: any, moduleVersion) => {
+        api.diag.debug(
+          `Applying ${file} patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        this.ensureWrapped(
+          moduleVersion,
+          Seeder.prototype,
+          'run',
+          this.createMigrationWrapper('seed.run', moduleVersion)
+        );
+        return Seeder;
+      },
+      (Seeder: any, moduleVersion) => {
+        api.diag.debug(
+          `Removing ${file} patch for ${constants.MODULE_NAME}@${moduleVersion}`
+        );
+        this._unwrap(Seeder.prototype, 'run');
+        return Seeder;
+      }
+    );
+  }
+
   private createQueryWrapper(moduleVersion?: string) {
     const instrumentation = this;
     return function wrapQuery(original: () => any) {
       return function wrapped_logging_method(this: any, query: any) {
         const config = this.client.config;
 
-        const table = this.builder?._single?.table;
-        // `method` actually refers to the knex API method - Not exactly "operation"
-        // in the spec sense, but matches most of the time.
-        const operation = query?.method;
-        const name =
-          config?.connection?.filename || config?.connection?.database;
-        const maxLen = (
-          instrumentation._config as types.KnexInstrumentationConfig
-        ).maxQueryLength!;
+        // read from the builder method chain rather than the generated SQL
+        const table = utils.getTable(this.builder);
+        const operation = utils.getOperation(this.builder, query);
+        const name = utils.getDbName(config);
+        const instrumentationConfig =
+          instrumentation._config as types.KnexInstrumentationConfig;
+        const maxLen = instrumentationConfig.maxQueryLength!;
 
         const attributes: api.SpanAttributes = {
-          'knex.version': moduleVersion,
-          [SemanticAttributes.DB_SYSTEM]: utils.mapSystem(config.client),
+          [AttributeNames.KNEX_VERSION]: moduleVersion,
+          ...utils.getConnectionAttributes(config),
           [SemanticAttributes.DB_SQL_TABLE]: table,
           [SemanticAttributes.DB_OPERATION]: operation,
-          [SemanticAttributes.DB_USER]: config?.connection?.user,
-          [SemanticAttributes.DB_NAME]: name,
-          [SemanticAttributes.NET_PEER_NAME]: config?.connection?.host,
-          [SemanticAttributes.NET_PEER_PORT]: config?.connection?.port,
-          [SemanticAttributes.NET_TRANSPORT]:
-            config?.connection?.filename === ':memory:' ? 'inproc' : undefined,
         };
         if (maxLen !== 0) {
           attributes[SemanticAttributes.DB_STATEMENT] = utils.limitLength(
-            query?.sql,
+            utils.getDbStatement(
+              instrumentationConfig,
+              config.client,
+              query?.sql,
+              query?.bindings
+            ),
             maxLen
           );
         }
@@ -193,14 +339,101 @@ export class KnexInstrumentation extends InstrumentationBase<typeof knex> {
     };
   }
 
+  private createTransactionWrapper(moduleVersion?: string) {
+    const instrumentation = this;
+    return function wrapTransaction(
+      original: KnexTransaction['_evaluateContainer']
+    ) {
+      return function wrapped_logging_method(
+        this: KnexTransaction,
+        config: unknown,
+        container: (transactor: KnexTransactor) => unknown
+      ) {
+        // runs in the context which created the transaction
+        const parentContext = api.context.active();
+        const clientConfig = this.client?.config;
+        const span = instrumentation.tracer.startSpan(
+          utils.getName(utils.getDbName(clientConfig), 'transaction'),
+          {
+            attributes: {
+              [AttributeNames.KNEX_VERSION]: moduleVersion,
+              ...utils.getConnectionAttributes(clientConfig),
+              // transactions of a transaction client are savepoints
+              [AttributeNames.TRANSACTION_SAVEPOINT]:
+                !!this.client?.transacting,
+            },
+          },
+          parentContext
+        );
+        const spanContext = api.trace.setSpan(parentContext, span);
+
+        const transaction: TransactionContext = {
+          parentSpan: api.trace.getSpan(parentContext),
+          context: spanContext,
+        };
+        const tracedContainer = function (
+          this: unknown,
+          transactor: KnexTransactor
+        ) {
+          // Transactions without a container are used from the context which
+          // created them, the client lets their queries find the transaction.
+          Object.defineProperty(transactor.client, transactionSymbol, {
+            value: transaction,
+          });
+          traceTransactionOutcome(transactor, span);
+          return container.call(this, transactor);
+        };
+
+        return endSpanOnSettled(span, () =>
+          api.context.with(spanContext, original, this, config, tracedContainer)
+        );
+      };
+    };
+  }
+
+  private createMigrationWrapper(operation: string, moduleVersion?: string) {
+    const instrumentation = this;
+    return function wrapMigration(original: (...args: unknown[]) => unknown) {
+      return function wrapped_logging_method(
+        this: KnexMigrator,
+        ...args: unknown[]
+      ) {
+        const span = instrumentation.tracer.startSpan(`knex.${operation}`, {
+          attributes: {
+            [AttributeNames.KNEX_VERSION]: moduleVersion,
+            ...utils.getConnectionAttributes(this.knex?.client?.config),
+          },
+        });
+        const spanContext = api.trace.setSpan(api.context.active(), span);
+
+        return endSpanOnSettled(
+          span,
+          () => api.context.with(spanContext, original, this, ...args),
+          result =>
+            span.setAttributes(utils.getMigrationAttributes(operation, result))
+        );
+      };
+    };
+  }
+
   private storeContext(original: Function) {
-    return function wrapped_logging_method(this: any) {
+    return function wrapped_logging_method(this: KnexClient) {
       const builder = original.apply(this, arguments);
       // Builder is a custom promise type and when awaited it fails to propagate context.
       // We store the parent context at the moment of initiating the builder
       // otherwise we'd have nothing to attach the span as a child for in `query`.
+      let parentContext = api.context.active();
+      // Transactions started without a container are used from the context
+      // which started them, their queries belong to the transaction span.
+      const transaction = this[transactionSymbol];
+      if (
+        transaction &&
+        api.trace.getSpan(parentContext) === transaction.parentSpan
+      ) {
+        parentContext = transaction.context;
+      }
       Object.defineProperty(builder, contextSymbol, {
-        value: api.context.active(),
+        value: parentContext,
       });
       return builder;
     };
@@ -221,3 +454,59 @@ export class KnexInstrumentation extends InstrumentationBase<typeof knex> {
     this._wrap(obj, methodName, wrapper);
   }
 }
+
+// the transactor is passed to the container, even a rollback from a failed
+// container goes through it
+function traceTransactionOutcome(transactor: KnexTransactor, span: api.Span) {
+  const outcomes = ['commit', 'rollback'] as const;
+  outcomes.forEach(outcome => {
+    const original = transactor[outcome];
+    if (typeof original !== 'function') {
+      return;
+    }
+    transactor[outcome] = function (this: unknown, ...args: unknown[]) {
+      span.setAttribute(AttributeNames.TRANSACTION_OUTCOME, outcome);
+      return original.apply(this, args);
+    };
+  });
+}
+
+// ends the span once the result of a knex method settles, right away when the
+// method does not return a promise
+function endSpanOnSettled(
+  span: api.Span,
+  run: () => unknown,
+  onResult?: (result: unknown) => void
+) {
+  const endWithError = (err: Error) => {
+    span.recordException(err);
+    span.setStatus({
+      code: api.SpanStatusCode.ERROR,
+      message: err?.message,
+    });
+    span.end();
+  };
+  let result: unknown;
+  try {
+    result = run();
+  } catch (err) {
+    endWithError(err);
+    throw err;
+  }
+  if (!utils.isPromiseLike(result)) {
+    onResult?.(result);
+    span.end();
+    return result;
+  }
+  return result.then(
+    (value: unknown) => {
+      onResult?.(value);
+      span.end();
+      return value;
+    },
+    (err: Error) => {
+      endWithError(err);
+      throw err;
+    }
+  );
+}
@@ -14,8 +14,18 @@
  * limitations under the License.
  */
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
 
 export interface KnexInstrumentationConfig extends InstrumentationConfig {
   /** max query length in db.statement attribute ".." is added to the end when query is truncated  */
   maxQueryLength?: number;
+
+  /** How literals are stripped from db.statement, `obfuscate` by default */
+  dbStatementSanitizer?: DbStatementSanitizer;
+
+  /** Custom serializer function for db.statement, takes precedence over `dbStatementSanitizer` */
+  dbStatementSerializer?: DbStatementSerializer<readonly unknown[]>;
 }
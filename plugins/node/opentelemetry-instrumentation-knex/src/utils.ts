@@ -14,6 +14,15 @@
  * limitations under the License.
  */
 
+import {
+  SqlDialectOptions,
+  serializeDbStatement,
+} from '@opentelemetry/sql-common';
+import { KnexInstrumentationConfig } from './types';
+import { AttributeNames } from './enums/AttributeNames';
+import { diag, SpanAttributes } from '@opentelemetry/api';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+
 type Exception = {
   new (message: string): Exception;
   constructor: Exception;
@@ -49,6 +58,35 @@ export const cloneErrorWithNewMessage = (err: Exception, message: string) => {
   return err;
 };
 
+export const getDbStatement = (
+  config: KnexInstrumentationConfig,
+  knexSystem: string,
+  sql: string,
+  bindings?: readonly unknown[]
+) => {
+  if (typeof sql !== 'string') {
+    return sql;
+  }
+  return serializeDbStatement(
+    config.dbStatementSerializer,
+    { text: sql, values: bindings, sanitizer: config.dbStatementSanitizer },
+    dialectMap.get(knexSystem),
+    diag
+  );
+};
+
+const mysqlDialect: SqlDialectOptions = {
+  doubleQuotedStrings: true,
+  backslashEscapes: true,
+  hashComments: true,
+};
+
+const dialectMap = new Map<string, SqlDialectOptions>([
+  ['mysql', mysqlDialect],
+  ['mysql2', mysqlDialect],
+  ['mssql', { bracketIdentifiers: true }],
+]);
+
 const systemMap = new Map([
   ['sqlite3', 'sqlite'],
   ['pg', 'postgresql'],
@@ -57,14 +95,18 @@ export const mapSystem = (knexSystem: string) => {
   return systemMap.get(knexSystem) || knexSystem;
 };
 
-export const getName = (db: string, operation?: string, table?: string) => {
+export const getName = (
+  db: string | undefined,
+  operation?: string,
+  table?: string
+): string => {
   if (operation) {
     if (table) {
       return `${operation} ${db}.${table}`;
     }
     return `${operation} ${db}`;
   }
-  return db;
+  return db ?? '';
 };
 
 export const limitLength = (str: string, maxLength: number) => {
@@ -78,3 +120,101 @@ export const limitLength = (str: string, maxLength: number) => {
   }
   return str;
 };
+
+export const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+
+/**
+ * Configuration of a knex client, with the connection attributes of its spans
+ */
+export interface KnexClientConfig {
+  client?: string;
+  connection?: {
+    filename?: string;
+    database?: string;
+    user?: string;
+    host?: string;
+    port?: number;
+  };
+}
+
+/**
+ * Internal state of a knex builder, recording its method chain
+ */
+export interface KnexBuilder {
+  _method?: string;
+  _single?: { table?: unknown };
+  _sequence?: Array<{ method?: string; args?: unknown[] }>;
+}
+
+export const getDbName = (config?: KnexClientConfig) =>
+  config?.connection?.filename || config?.connection?.database;
+
+export const getConnectionAttributes = (
+  config?: KnexClientConfig
+): SpanAttributes => {
+  return {
+    [SemanticAttributes.DB_SYSTEM]: config?.client && mapSystem(config.client),
+    [SemanticAttributes.DB_USER]: config?.connection?.user,
+    [SemanticAttributes.DB_NAME]: getDbName(config),
+    [SemanticAttributes.NET_PEER_NAME]: config?.connection?.host,
+    [SemanticAttributes.NET_PEER_PORT]: config?.connection?.port,
+    [SemanticAttributes.NET_TRANSPORT]:
+      config?.connection?.filename === ':memory:' ? 'inproc' : undefined,
+  };
+};
+
+// `method` actually refers to the knex API method - Not exactly "operation"
+// in the spec sense, but matches most of the time.
+export const getOperation = (
+  builder?: KnexBuilder,
+  query?: { method?: string }
+): string | undefined => {
+  if (builder?._method) {
+    return builder._method;
+  }
+  // schema builders record their calls, eg. `createTable`
+  if (Array.isArray(builder?._sequence) && builder!._sequence.length) {
+    return builder!._sequence[0].method;
+  }
+  return query?.method;
+};
+
+export const getTable = (builder?: KnexBuilder): string | undefined => {
+  let table = builder?._single?.table;
+  if (table === undefined && Array.isArray(builder?._sequence)) {
+    const [statement] = builder!._sequence;
+    const method = statement?.method ?? '';
+    // the first argument of the table statements of schema builders
+    if (/table/i.test(method) || method === 'hasColumn') {
+      table = statement.args?.[0];
+    }
+  }
+  // subqueries and raw tables are not recorded
+  if (typeof table !== 'string') {
+    return undefined;
+  }
+  // an aliased table, `users as u`, targets `users`
+  return table.split(/\s+as\s+/i)[0];
+};
+
+// migrations resolve with `[batchNo, log]` and seeds with `[log]`, the logs
+// listing the files which were run
+export const getMigrationAttributes = (
+  operation: string,
+  result: unknown
+): SpanAttributes => {
+  if (!Array.isArray(result)) {
+    return {};
+  }
+  if (operation.startsWith('seed.')) {
+    return Array.isArray(result[0])
+      ? { [AttributeNames.SEEDS]: result[0] }
+      : {};
+  }
+  const [batch, log] = result;
+  return {
+    [AttributeNames.MIGRATIONS_BATCH]: batch,
+    [AttributeNames.MIGRATIONS]: Array.isArray(log) ? log : undefined,
+  };
+};
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { context, trace } from '@opentelemetry/api';
+import { context, SpanStatusCode, trace } from '@opentelemetry/api';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import {
@@ -22,8 +22,10 @@ import {
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
 import * as assert from 'assert';
+import * as path from 'path';
 
-import Instrumentation from '../src';
+import Instrumentation, { KnexInstrumentationConfig } from '../src';
+import * as utils from '../src/utils';
 const plugin = new Instrumentation({
   maxQueryLength: 50,
 });
@@ -93,7 +95,9 @@ describe('Knex instrumentation', () => {
           const last = instrumentationSpans.pop() as any;
           assertSpans(instrumentationSpans, [
             {
-              statement: 'create table `testTable1` (`title` varchar(255))',
+              op: 'createTable',
+              table: 'testTable1',
+              statement: 'create table `testTable1` (`title` varchar(?))',
               parentSpan,
             },
             {
@@ -109,7 +113,10 @@ describe('Knex instrumentation', () => {
               parentSpan,
             },
           ]);
-          assert.strictEqual(instrumentationSpans[0].name, ':memory:');
+          assert.strictEqual(
+            instrumentationSpans[0].name,
+            'createTable :memory:.testTable1'
+          );
           assert.strictEqual(
             instrumentationSpans[1].name,
             'insert :memory:.testTable1'
@@ -131,7 +138,7 @@ describe('Knex instrumentation', () => {
           parentSpan.end();
 
           assertSpans(memoryExporter.getFinishedSpans(), [
-            { statement, op: 'raw', parentSpan },
+            { statement: 'select date(?)', op: 'raw', parentSpan },
             null,
           ]);
         }
@@ -145,7 +152,8 @@ describe('Knex instrumentation', () => {
       const [span] = memoryExporter.getFinishedSpans();
       const limitedStatement = span?.attributes?.['db.statement'] as string;
       assert.strictEqual(limitedStatement.length, 52);
-      assert.ok(statement.startsWith(limitedStatement.substr(0, 50)));
+      const sanitizedStatement = `select date(?), "${'long-'.repeat(15)}"`;
+      assert.ok(sanitizedStatement.startsWith(limitedStatement.substr(0, 50)));
     });
 
     it('should catch errors', async () => {
@@ -192,6 +200,249 @@ describe('Knex instrumentation', () => {
     });
   });
 
+  describe('Builder method chain', () => {
+    beforeEach(async () => {
+      await client.schema.createTable('testTable1', (table: any) => {
+        table.string('title');
+      });
+      memoryExporter.reset();
+    });
+
+    it('should record the knex method and the aliased table', async () => {
+      await client('testTable1 as t').first();
+      await client('testTable1').where({ title: 'test1' }).del();
+
+      const [first, del] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(first.attributes['db.operation'], 'first');
+      assert.strictEqual(first.attributes['db.sql.table'], 'testTable1');
+      assert.strictEqual(del.attributes['db.operation'], 'del');
+      assert.strictEqual(del.attributes['db.sql.table'], 'testTable1');
+    });
+
+    it('should not record subqueries as the table', async () => {
+      await client
+        .from(client('testTable1').select('title').as('sub'))
+        .select('*');
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.attributes['db.operation'], 'select');
+      assert.strictEqual(span.attributes['db.sql.table'], undefined);
+    });
+  });
+
+  describe('Transactions', () => {
+    beforeEach(async () => {
+      await client.schema.createTable('testTable1', (table: any) => {
+        table.string('title');
+      });
+      memoryExporter.reset();
+    });
+
+    it('should wrap the queries of a committed transaction', async () => {
+      await client.transaction(async (trx: any) => {
+        await trx.insert({ title: 'test1' }).into('testTable1');
+        await trx('testTable1').select('*');
+      });
+
+      const [insert, select, transaction] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(transaction.name, 'transaction :memory:');
+      assert.strictEqual(transaction.attributes['db.system'], 'sqlite');
+      assert.strictEqual(
+        transaction.attributes['knex.transaction.outcome'],
+        'commit'
+      );
+      assert.strictEqual(
+        transaction.attributes['knex.transaction.savepoint'],
+        false
+      );
+      assert.strictEqual(transaction.status.code, SpanStatusCode.UNSET);
+      assert.strictEqual(insert.parentSpanId, transaction.spanContext().spanId);
+      assert.strictEqual(select.parentSpanId, transaction.spanContext().spanId);
+    });
+
+    it('should record the error of a rolled back transaction', async () => {
+      const error = new Error('rollback');
+      await client
+        .transaction(async (trx: any) => {
+          await trx.insert({ title: 'test1' }).into('testTable1');
+          throw error;
+        })
+        .catch((err: Error) => assert.strictEqual(err, error));
+
+      const [, transaction] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        transaction.attributes['knex.transaction.outcome'],
+        'rollback'
+      );
+      assert.strictEqual(transaction.status.code, SpanStatusCode.ERROR);
+      assert.strictEqual(transaction.events[0].name, 'exception');
+    });
+
+    it('should attach the queries of a transaction without container', async () => {
+      const parentSpan = tracer.startSpan('parentSpan');
+      await context.with(
+        trace.setSpan(context.active(), parentSpan),
+        async () => {
+          const trx = await client.transaction();
+          await trx('testTable1').select('*');
+          await trx.rollback();
+        }
+      );
+
+      const [select, transaction] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        transaction.parentSpanId,
+        parentSpan.spanContext().spanId
+      );
+      assert.strictEqual(select.parentSpanId, transaction.spanContext().spanId);
+      assert.strictEqual(
+        transaction.attributes['knex.transaction.outcome'],
+        'rollback'
+      );
+      assert.strictEqual(transaction.status.code, SpanStatusCode.UNSET);
+    });
+
+    it('should record nested transactions as savepoints', async () => {
+      await client.transaction(async (trx: any) => {
+        await trx.transaction(async (nested: any) => {
+          await nested('testTable1').select('*');
+        });
+      });
+
+      const [select, savepoint, transaction] =
+        memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        savepoint.attributes['knex.transaction.savepoint'],
+        true
+      );
+      assert.strictEqual(
+        savepoint.parentSpanId,
+        transaction.spanContext().spanId
+      );
+      assert.strictEqual(select.parentSpanId, savepoint.spanContext().spanId);
+    });
+  });
+
+  describe('Migrations and seeds', () => {
+    const migration = {
+      up: (knex: any) =>
+        knex.schema.createTable('testTable2', (table: any) => {
+          table.string('title');
+        }),
+      down: (knex: any) => knex.schema.dropTable('testTable2'),
+    };
+    const migrationSource = {
+      getMigrations: () => Promise.resolve(['create_test_table']),
+      getMigrationName: (name: string) => name,
+      getMigration: () => Promise.resolve(migration),
+    };
+
+    it('should create a span for migrate.latest', async () => {
+      await client.migrate.latest({ migrationSource });
+
+      const spans = memoryExporter.getFinishedSpans();
+      const latest = spans.find(span => span.name === 'knex.migrate.latest')!;
+      assert.strictEqual(latest.attributes['db.system'], 'sqlite');
+      assert.strictEqual(latest.attributes['knex.migrations.batch'], 1);
+      assert.deepStrictEqual(latest.attributes['knex.migrations'], [
+        'create_test_table',
+      ]);
+      const createTable = spans.find(
+        span => span.attributes['db.sql.table'] === 'testTable2'
+      )!;
+      const transaction = spans.find(
+        span => span.name === 'transaction :memory:'
+      )!;
+      assert.strictEqual(transaction.parentSpanId, latest.spanContext().spanId);
+      assert.strictEqual(
+        createTable.parentSpanId,
+        transaction.spanContext().spanId
+      );
+    });
+
+    it('should create a span for migrate.rollback', async () => {
+      await client.migrate.latest({ migrationSource });
+      memoryExporter.reset();
+      await client.migrate.rollback({ migrationSource });
+
+      const rollback = memoryExporter
+        .getFinishedSpans()
+        .find(span => span.name === 'knex.migrate.rollback')!;
+      assert.deepStrictEqual(rollback.attributes['knex.migrations'], [
+        'create_test_table',
+      ]);
+    });
+
+    it('should create a span for seed.run', async () => {
+      await client.seed.run({
+        directory: path.join(__dirname, 'seeds'),
+      });
+
+      const spans = memoryExporter.getFinishedSpans();
+      const run = spans.find(span => span.name === 'knex.seed.run')!;
+      assert.strictEqual(run.status.code, SpanStatusCode.UNSET);
+      assert.deepStrictEqual(run.attributes['knex.seeds'], [
+        path.join(__dirname, 'seeds', 'test-seed.ts'),
+      ]);
+      assert.ok(
+        spans.some(span => span.parentSpanId === run.spanContext().spanId)
+      );
+    });
+  });
+
+  describe('db.statement', () => {
+    const setConfig = (config: KnexInstrumentationConfig) =>
+      plugin.setConfig({ maxQueryLength: 50, ...config });
+
+    afterEach(() => {
+      setConfig({});
+    });
+
+    it('should keep literals when the sanitizer is disabled', async () => {
+      setConfig({ dbStatementSanitizer: 'none' });
+      const statement = "select date('now')";
+      await client.raw(statement);
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.attributes['db.statement'], statement);
+    });
+
+    it('should use the custom serializer when provided', async () => {
+      setConfig({
+        dbStatementSerializer: (sql, bindings) =>
+          `${sql} -- ${JSON.stringify(bindings)}`,
+      });
+      await client.raw('select ? as a', ['b']);
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        span.attributes['db.statement'],
+        'select ? as a -- ["b"]'
+      );
+    });
+
+    it('should not fail the query when the serializer throws', async () => {
+      setConfig({
+        dbStatementSerializer: () => {
+          throw new Error('serializer error');
+        },
+      });
+      await client.raw("select 'b' as a");
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.attributes['db.statement'], 'select ? as a');
+    });
+
+    it('should not let MySQL hash comments hide literals', () => {
+      for (const system of ['mysql', 'mysql2']) {
+        assert.strictEqual(
+          utils.getDbStatement({}, system, "select 1 # it's\n, 'secret'"),
+          "select ? # it's\n, ?"
+        );
+      }
+    });
+  });
+
   describe('Disabling instrumentation', () => {
     it('should not create new spans', async () => {
       plugin.disable();
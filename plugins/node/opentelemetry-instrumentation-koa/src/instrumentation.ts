@@ -15,6 +15,12 @@
  */
 
 import * as api from '@opentelemetry/api';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import {
   isWrapped,
   InstrumentationBase,
@@ -38,9 +44,30 @@ import { getRPCMetadata, RPCType, setRPCMetadata } from '@opentelemetry/core';
 /** Koa instrumentation for OpenTelemetry */
 export class KoaInstrumentation extends InstrumentationBase<typeof koa> {
   static readonly component = KoaComponentName;
+  private _serverDuration!: Histogram;
+
   constructor(config?: KoaInstrumentationConfig) {
     super('@opentelemetry/instrumentation-koa', VERSION, config);
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: KoaInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): KoaInstrumentationConfig {
+    return this._config as KoaInstrumentationConfig;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
   }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
+  }
+
   protected init() {
     return new InstrumentationNodeModuleDefinition<typeof koa>(
       'koa',
@@ -136,6 +163,17 @@ export class KoaInstrumentation extends InstrumentationBase<typeof koa> {
     middlewareLayer[kLayerPatched] = true;
     api.diag.debug('patching Koa middleware layer');
     return async (context: KoaContext, next: koa.Next) => {
+      if (this.getConfig().recordServerDuration) {
+        recordServerDuration(
+          api.context.active(),
+          this._serverDuration,
+          context.req,
+          context.res
+        );
+      }
+      if (isRouter && typeof context._matchedRoute === 'string') {
+        setHttpRoute(api.context.active(), context.req, context._matchedRoute);
+      }
       const parent = api.trace.getSpan(api.context.active());
       if (parent === undefined) {
         return middlewareLayer(context, next);
@@ -163,10 +201,7 @@ export class KoaInstrumentation extends InstrumentationBase<typeof koa> {
 
       let newContext = api.trace.setSpan(api.context.active(), span);
       if (rpcMetadata?.type === RPCType.HTTP) {
-        newContext = setRPCMetadata(
-          newContext,
-          Object.assign(rpcMetadata, { route: context._matchedRoute })
-        );
+        newContext = setRPCMetadata(newContext, rpcMetadata);
       }
       return api.context.with(newContext, async () => {
         try {
@@ -37,6 +37,11 @@ export type KoaContext = ParameterizedContext<DefaultState, RouterParamContext>;
 export interface KoaInstrumentationConfig extends InstrumentationConfig {
   /** Ignore specific layers based on their type */
   ignoreLayersType?: KoaLayerType[];
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
 }
 
 export enum KoaLayerType {
@@ -16,6 +16,8 @@
 
 import * as KoaRouter from '@koa/router';
 import { context, trace } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import {
@@ -87,6 +89,8 @@ describe('Koa Instrumentation', () => {
 
   afterEach(() => {
     memoryExporter.reset();
+    plugin.setConfig({});
+    plugin.setMeterProvider(NOOP_METER_PROVIDER);
     context.disable();
     server.close();
   });
@@ -272,6 +276,39 @@ describe('Koa Instrumentation', () => {
         }
       );
     });
+
+    it('should record http.server.duration with the route', async () => {
+      const meter = new RecordingMeter();
+      plugin.setMeterProvider({ getMeter: () => meter });
+      plugin.setConfig({ recordServerDuration: true });
+
+      const router = new KoaRouter();
+      router.get('/post/:id', ctx => {
+        ctx.body = `Post id: ${ctx.params.id}`;
+      });
+      app.use(router.routes());
+      const routedServer = http.createServer(app.callback());
+      await new Promise<void>(resolve => routedServer.listen(0, resolve));
+      const routedPort = (routedServer.address() as AddressInfo).port;
+
+      try {
+        await httpRequest.get(`http://localhost:${routedPort}/post/0`);
+      } finally {
+        routedServer.close();
+      }
+
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'http.server.duration');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        [SemanticAttributes.HTTP_SCHEME]: 'http',
+        [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+        [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+        [SemanticAttributes.HTTP_METHOD]: 'GET',
+        [SemanticAttributes.HTTP_ROUTE]: '/post/:id',
+      });
+    });
   });
 
   describe('Instrumenting core middleware calls', () => {
@@ -0,0 +1,27 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Memcached specific attributes not covered by semantic conventions
+export enum AttributeNames {
+  KEY_COUNT = 'db.memcached.key_count',
+  REQUEST_BYTES = 'db.memcached.request_bytes',
+  RESPONSE_BYTES = 'db.memcached.response_bytes',
+  SERVER = 'memcached.server',
+  FAILOVER_SERVER = 'memcached.failover_server',
+  FAILURES = 'memcached.failures',
+  TOTAL_FAILURES = 'memcached.total_failures',
+  MESSAGE = 'memcached.message',
+}
@@ -15,6 +15,12 @@
  */
 
 import * as api from '@opentelemetry/api';
+import { MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  CacheLookupCounters,
+  createCacheLookupCounters,
+  recordCacheLookups,
+} from '@opentelemetry/cache-common';
 import {
   isWrapped,
   InstrumentationBase,
@@ -23,9 +29,31 @@ import {
 import type * as Memcached from 'memcached';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import * as utils from './utils';
-import { InstrumentationConfig } from './types';
+import { CommandData, InstrumentationConfig } from './types';
+import { AttributeNames } from './enums/AttributeNames';
+import { EventNames } from './enums/EventNames';
 import { VERSION } from './version';
 
+const INFLIGHT_SPANS = Symbol(
+  'opentelemetry.instrumentation.memcached.inflight-spans'
+);
+const CLIENT_EVENTS: Array<[string, EventNames]> = [
+  ['issue', EventNames.ISSUE],
+  ['remove', EventNames.REMOVE],
+  ['failure', EventNames.FAILURE],
+];
+
+// Spans of the requests in flight, by server address
+type InflightSpans = Map<string, Set<api.Span>>;
+
+// `details` of the client's connection issue events
+interface IssueDetails {
+  server?: string;
+  messages?: string[];
+  failures?: number;
+  totalFailures?: number;
+}
+
 export class Instrumentation extends InstrumentationBase<typeof Memcached> {
   static readonly COMPONENT = 'memcached';
   static readonly COMMON_ATTRIBUTES = {
@@ -35,12 +63,24 @@ export class Instrumentation extends InstrumentationBase<typeof Memcached> {
     enhancedDatabaseReporting: false,
   };
 
+  private _cacheLookupCounters!: CacheLookupCounters;
+
   constructor(config: InstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-memcached',
       VERSION,
       Object.assign({}, Instrumentation.DEFAULT_CONFIG, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._cacheLookupCounters = createCacheLookupCounters(this.meter);
   }
 
   override setConfig(config: InstrumentationConfig = {}) {
@@ -131,9 +171,16 @@ export class Instrumentation extends InstrumentationBase<typeof Memcached> {
     span: api.Span
   ) {
     const instrumentation = this;
+    let compiled = false;
     return function (this: Memcached) {
       const query = original.apply(this, arguments as any);
+      // the query is compiled again for the redundancy servers, with noreply
+      if (compiled) {
+        return query;
+      }
+      compiled = true;
       const callback = query.callback;
+      const resolvedServer = utils.getServer(client, server, query);
 
       span.updateName(`${query.type} ${query.key}`);
       span.setAttributes({
@@ -145,18 +192,36 @@ export class Instrumentation extends InstrumentationBase<typeof Memcached> {
         ).enhancedDatabaseReporting
           ? query.command
           : undefined,
-        ...utils.getPeerAttributes(client, server, query),
+        ...utils.getPeerAttributes(resolvedServer),
+        [AttributeNames.REQUEST_BYTES]: Buffer.byteLength(
+          query.command + '\r\n'
+        ),
+        [AttributeNames.KEY_COUNT]: (query as CommandData).multi
+          ? utils.getCommandKeys(query).length
+          : undefined,
       });
+      const untrackSpan = instrumentation.trackInflightSpan(
+        client,
+        resolvedServer,
+        span
+      );
 
       query.callback = api.context.bind(
         callbackContext,
-        function (this: Memcached.CommandData, err: any) {
+        function (this: Memcached.CommandData, err: any, data?: unknown) {
+          untrackSpan();
           if (err) {
             span.recordException(err);
             span.setStatus({
               code: api.SpanStatusCode.ERROR,
               message: err.message,
             });
+          } else {
+            const responseBytes = utils.getResponseBytes(query, data);
+            if (responseBytes !== undefined) {
+              span.setAttribute(AttributeNames.RESPONSE_BYTES, responseBytes);
+            }
+            instrumentation.recordCacheLookups(span, query, data);
           }
 
           span.end();
@@ -171,6 +236,81 @@ export class Instrumentation extends InstrumentationBase<typeof Memcached> {
     };
   }
 
+  private recordCacheLookups(
+    span: api.Span,
+    query: CommandData,
+    response: unknown
+  ) {
+    const lookups = utils.getCacheLookups(query, response);
+    if (lookups) {
+      recordCacheLookups(
+        span,
+        this._cacheLookupCounters,
+        lookups,
+        Instrumentation.COMMON_ATTRIBUTES,
+        (this._config as InstrumentationConfig).cacheKeyPrefix
+      );
+    }
+  }
+
+  /**
+   * Registers the span to record the connection issues of its server until
+   * it ends, returns the function unregistering it
+   */
+  private trackInflightSpan(
+    client: any,
+    server: string | undefined,
+    span: api.Span
+  ): () => void {
+    if (!server) {
+      return () => {};
+    }
+    let inflightSpans: InflightSpans | undefined = client[INFLIGHT_SPANS];
+    if (!inflightSpans) {
+      inflightSpans = new Map();
+      Object.defineProperty(client, INFLIGHT_SPANS, { value: inflightSpans });
+      this.listenToClientEvents(client, inflightSpans);
+    }
+    const spans = inflightSpans.get(server) ?? new Set();
+    inflightSpans.set(server, spans.add(span));
+    return () => {
+      spans.delete(span);
+      if (spans.size === 0) {
+        inflightSpans!.delete(server);
+      }
+    };
+  }
+
+  private listenToClientEvents(client: any, inflightSpans: InflightSpans) {
+    CLIENT_EVENTS.forEach(([clientEvent, eventName]) => {
+      client.on(clientEvent, (details: IssueDetails = {}) => {
+        const spans = details.server && inflightSpans.get(details.server);
+        if (!spans) {
+          return;
+        }
+        const attributes: api.SpanAttributes = {
+          [AttributeNames.SERVER]: details.server,
+        };
+        if (details.failures !== undefined) {
+          attributes[AttributeNames.FAILURES] = details.failures;
+          attributes[AttributeNames.TOTAL_FAILURES] = details.totalFailures;
+        }
+        const messages = details.messages;
+        if (messages?.length) {
+          attributes[AttributeNames.MESSAGE] = String(
+            messages[messages.length - 1]
+          );
+        }
+        // the removed server is swapped with the first failover server
+        if (clientEvent === 'remove' && client.failOverServers?.length) {
+          attributes[AttributeNames.FAILOVER_SERVER] =
+            client.failOverServers[0];
+        }
+        spans.forEach(span => span.addEvent(eventName, attributes));
+      });
+    });
+  }
+
   private ensureWrapped(
     moduleVersion: string | undefined,
     obj: any,
@@ -15,7 +15,19 @@
  */
 
 import { InstrumentationConfig as BaseInstrumentationConfig } from '@opentelemetry/instrumentation';
+import { CacheKeyPrefixFunction } from '@opentelemetry/cache-common';
+import type * as Memcached from 'memcached';
 
 export interface InstrumentationConfig extends BaseInstrumentationConfig {
   enhancedDatabaseReporting?: boolean;
+  /**
+   * Custom function extracting the prefix of the keys looked up by `get` and
+   * `getMulti`, default is the part of the key before its first `:`
+   */
+  cacheKeyPrefix?: CacheKeyPrefixFunction;
+}
+
+// `multi` is set on the commands of getMulti, but missing from the types
+export interface CommandData extends Memcached.CommandData {
+  multi?: boolean;
 }
@@ -16,39 +16,122 @@
 
 import type * as Memcached from 'memcached';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import { CacheLookup } from '@opentelemetry/cache-common';
+import { CommandData } from './types';
 
-export const getPeerAttributes = (
+/**
+ * Returns the address of the server the query is sent to, resolved like the
+ * client does from the hash ring, with the port defaulting to 11211
+ */
+export const getServer = (
   client: any /* Memcached, but the type definitions are lacking */,
   server: string | undefined,
   query: Memcached.CommandData
-) => {
+): string | undefined => {
   if (!server) {
     if (client.servers.length === 1) {
       server = client.servers[0];
     } else {
-      let redundancy =
+      const redundancy =
         client.redundancy && client.redundancy < client.servers.length;
       const queryRedundancy = query.redundancyEnabled;
 
       if (redundancy && queryRedundancy) {
-        redundancy = client.HashRing.range(
+        server = client.HashRing.range(
           query.key,
           client.redundancy + 1,
           true
-        );
-        server = redundancy.shift();
+        )[0];
       } else {
         server = client.HashRing.get(query.key);
       }
     }
   }
 
+  if (typeof server !== 'string') {
+    return undefined;
+  }
+  return /(.+):(\d+)$/.test(server) ? server : `${server}:11211`;
+};
+
+export const getPeerAttributes = (server: string | undefined) => {
   if (typeof server === 'string') {
-    const [host, port] = server && server.split(':');
+    const separatorIndex = server.lastIndexOf(':');
     return {
-      [SemanticAttributes.NET_PEER_NAME]: host,
-      [SemanticAttributes.NET_PEER_PORT]: port,
+      [SemanticAttributes.NET_PEER_NAME]: server.slice(0, separatorIndex),
+      [SemanticAttributes.NET_PEER_PORT]: server.slice(separatorIndex + 1),
     };
   }
   return {};
 };
+
+/**
+ * Returns the keys sent to the server by the command, for getMulti only the
+ * keys stored on the server
+ */
+export const getCommandKeys = (query: CommandData): string[] =>
+  query.command.split(' ').slice(1);
+
+/**
+ * Returns the size in bytes of the values retrieved by a `get` command, of
+ * `get` or `getMulti`, or undefined for other commands
+ */
+export const getResponseBytes = (
+  query: CommandData,
+  response: unknown
+): number | undefined => {
+  if (query.type !== 'get') {
+    return undefined;
+  }
+  if (!query.multi) {
+    return getValueBytes(response);
+  }
+  let bytes = 0;
+  (Array.isArray(response) ? response : [response]).forEach(values => {
+    if (values && typeof values === 'object') {
+      Object.keys(values).forEach(key => {
+        bytes += getValueBytes(values[key]);
+      });
+    }
+  });
+  return bytes;
+};
+
+// values are deserialized by the client, `set` stores objects as JSON
+const getValueBytes = (value: unknown): number => {
+  if (value === undefined || value === false) {
+    return 0;
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.length;
+  }
+  if (typeof value === 'object') {
+    return Buffer.byteLength(JSON.stringify(value));
+  }
+  return Buffer.byteLength(String(value));
+};
+
+/**
+ * Returns the keys looked up by a `get` command, of `get` or `getMulti`, and
+ * whether each one was found, or undefined for other commands
+ */
+export const getCacheLookups = (
+  query: CommandData,
+  response: unknown
+): CacheLookup[] | undefined => {
+  if (query.type !== 'get') {
+    return undefined;
+  }
+  // the command only has the keys stored on its server with getMulti
+  const keys = getCommandKeys(query);
+  if (!query.multi) {
+    return keys.map(key => ({ key, hit: response !== undefined }));
+  }
+  const found = new Set<string>();
+  (Array.isArray(response) ? response : [response]).forEach(values => {
+    if (values && typeof values === 'object') {
+      Object.keys(values).forEach(key => found.add(key));
+    }
+  });
+  return keys.map(key => ({ key, hit: found.has(key) }));
+};
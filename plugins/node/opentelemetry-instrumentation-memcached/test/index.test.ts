@@ -15,6 +15,7 @@
  */
 
 import { context, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import * as testUtils from '@opentelemetry/contrib-test-utils';
@@ -27,6 +28,12 @@ import * as assert from 'assert';
 import Instrumentation from '../src';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import * as util from 'util';
+import {
+  CacheAttributeNames,
+  CacheMetricNames,
+} from '@opentelemetry/cache-common';
+import { AttributeNames } from '../src/enums/AttributeNames';
+import { EventNames } from '../src/enums/EventNames';
 
 const instrumentation = new Instrumentation();
 const memoryExporter = new InMemorySpanExporter();
@@ -46,6 +53,7 @@ interface ExtendedMemcached extends Memcached {
   getPromise: (key: string) => Promise<unknown>;
   setPromise: (key: string, value: any, lifetime: number) => Promise<unknown>;
   appendPromise: (key: string, value: any) => Promise<unknown>;
+  getMultiPromise: (keys: string[]) => Promise<unknown>;
 }
 const getClient = (...args: any[]): ExtendedMemcached => {
   const Memcached = require('memcached');
@@ -53,6 +61,7 @@ const getClient = (...args: any[]): ExtendedMemcached => {
   client.getPromise = util.promisify(client.get.bind(client));
   client.setPromise = util.promisify(client.set.bind(client));
   client.appendPromise = util.promisify(client.append.bind(client));
+  client.getMultiPromise = util.promisify(client.getMulti.bind(client));
   return client;
 };
 const KEY = 'foo';
@@ -236,6 +245,186 @@ describe('memcached@2.x', () => {
     });
   });
 
+  describe('cache lookups', () => {
+    let client: ExtendedMemcached;
+    let meter: testUtils.RecordingMeter;
+    beforeEach(() => {
+      client = getClient(`${CONFIG.host}:${CONFIG.port}`, { retries: 0 });
+      meter = new testUtils.RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    afterEach(() => {
+      client.end();
+      instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+      instrumentation.setConfig({});
+    });
+
+    it('should record a cache hit and a cache miss', async () => {
+      await client.setPromise(`session:${KEY}`, VALUE, 10);
+      memoryExporter.reset();
+
+      await client.getPromise(`session:${KEY}`);
+      await client.getPromise(`session:missing-${KEY}`);
+
+      const instrumentationSpans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        instrumentationSpans[0].attributes[CacheAttributeNames.CACHE_HIT],
+        true
+      );
+      assert.strictEqual(
+        instrumentationSpans[1].attributes[CacheAttributeNames.CACHE_HIT],
+        false
+      );
+      assert.deepStrictEqual(meter.records, [
+        {
+          name: CacheMetricNames.CACHE_HITS,
+          value: 1,
+          attributes: {
+            [SemanticAttributes.DB_SYSTEM]: Instrumentation.COMPONENT,
+            [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+          },
+        },
+        {
+          name: CacheMetricNames.CACHE_MISSES,
+          value: 1,
+          attributes: {
+            [SemanticAttributes.DB_SYSTEM]: Instrumentation.COMPONENT,
+            [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+          },
+        },
+      ]);
+    });
+
+    it('should count the cache hits and misses of getMulti', async () => {
+      await client.setPromise(KEY, VALUE, 10);
+      memoryExporter.reset();
+
+      await client.getMultiPromise([KEY, `missing-${KEY}`]);
+
+      const instrumentationSpans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(instrumentationSpans.length, 1);
+      assert.strictEqual(
+        instrumentationSpans[0].attributes[CacheAttributeNames.CACHE_HIT_COUNT],
+        1
+      );
+      assert.strictEqual(
+        instrumentationSpans[0].attributes[
+          CacheAttributeNames.CACHE_MISS_COUNT
+        ],
+        1
+      );
+      assert.deepStrictEqual(
+        meter.records.map(record => record.name),
+        [CacheMetricNames.CACHE_HITS, CacheMetricNames.CACHE_MISSES]
+      );
+    });
+
+    it('should use the custom cacheKeyPrefix', async () => {
+      instrumentation.setConfig({
+        cacheKeyPrefix: key => key.split('/')[0],
+      });
+      await client.getPromise(`user/${KEY}`);
+
+      assert.strictEqual(
+        meter.records[0].attributes?.[CacheAttributeNames.CACHE_KEY_PREFIX],
+        'user'
+      );
+    });
+  });
+
+  describe('request details', () => {
+    let client: ExtendedMemcached;
+    beforeEach(() => {
+      client = getClient(`${CONFIG.host}:${CONFIG.port}`, { retries: 0 });
+    });
+
+    afterEach(() => {
+      client.end();
+    });
+
+    it('should record the bytes transferred', async () => {
+      await client.setPromise(KEY, VALUE, 10);
+      await client.getPromise(KEY);
+
+      const [setSpan, getSpan] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        setSpan.attributes[AttributeNames.REQUEST_BYTES],
+        `set ${KEY} 0 10 ${VALUE.length}\r\n${VALUE}\r\n`.length
+      );
+      assert.strictEqual(
+        setSpan.attributes[AttributeNames.RESPONSE_BYTES],
+        undefined
+      );
+      assert.strictEqual(
+        getSpan.attributes[AttributeNames.REQUEST_BYTES],
+        `get ${KEY}\r\n`.length
+      );
+      assert.strictEqual(
+        getSpan.attributes[AttributeNames.RESPONSE_BYTES],
+        VALUE.length
+      );
+    });
+
+    it('should record the key count of getMulti', async () => {
+      await client.setPromise(KEY, VALUE, 10);
+      memoryExporter.reset();
+
+      await client.getMultiPromise([KEY, `missing-${KEY}`]);
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.attributes[AttributeNames.KEY_COUNT], 2);
+      assert.strictEqual(
+        span.attributes[AttributeNames.RESPONSE_BYTES],
+        VALUE.length
+      );
+    });
+
+    it('should default the port of the server', async () => {
+      const defaultPortClient = getClient(CONFIG.host, { retries: 0 });
+      await defaultPortClient.getPromise(KEY).catch(() => {});
+      defaultPortClient.end();
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(
+        span.attributes[SemanticAttributes.NET_PEER_NAME],
+        CONFIG.host
+      );
+      assert.strictEqual(
+        span.attributes[SemanticAttributes.NET_PEER_PORT],
+        '11211'
+      );
+    });
+
+    it('should record the connection issues of the server', async () => {
+      // no delays, the issue timers would keep the tests running
+      const unavailableClient = getClient('localhost:1', {
+        retries: 0,
+        retry: 0,
+        failuresTimeout: 0,
+      });
+      const neverError = new Error('Expected to error but did not');
+      try {
+        await unavailableClient.getPromise(KEY);
+        assert.fail(neverError);
+      } catch (e) {
+        assert.notStrictEqual(e, neverError);
+      }
+      unavailableClient.end();
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+      const event = span.events.find(event => event.name === EventNames.ISSUE);
+      assert.ok(event, 'Expected an issue event');
+      assert.strictEqual(
+        event.attributes?.[AttributeNames.SERVER],
+        'localhost:1'
+      );
+      assert.strictEqual(event.attributes?.[AttributeNames.FAILURES], 5);
+      assert.strictEqual(event.attributes?.[AttributeNames.TOTAL_FAILURES], 0);
+    });
+  });
+
   describe('alternate memcached configurations', () => {
     it('should support multiple server configuration', async () => {
       const client = getClient(
@@ -0,0 +1,58 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as Memcached from 'memcached';
+import { getServer } from '../src/utils';
+
+describe('utils', () => {
+  describe('getServer', () => {
+    const servers = ['memcached-1:11211', 'memcached-2:11211'];
+    // `redundancy` is missing from the type definitions
+    const redundancy = { redundancy: 1 } as Memcached.options;
+    const query = (key: string, redundancyEnabled?: boolean) =>
+      ({ key, redundancyEnabled } as Memcached.CommandData);
+
+    it('should return the single server', () => {
+      const client = new Memcached('localhost');
+      assert.strictEqual(
+        getServer(client, undefined, query('key')),
+        'localhost:11211'
+      );
+    });
+
+    it('should return the server the query is sent to', () => {
+      const client = new Memcached(servers);
+      assert.ok(servers.includes(getServer(client, undefined, query('key'))!));
+    });
+
+    it('should return the first server of the range with redundancy', () => {
+      const client = new Memcached(servers, redundancy);
+      const [expected] = (client as any).HashRing.range('key', 2, true);
+      assert.strictEqual(
+        getServer(client, undefined, query('key', true)),
+        expected
+      );
+    });
+
+    it('should keep the server the query was already assigned', () => {
+      const client = new Memcached(servers, redundancy);
+      assert.strictEqual(
+        getServer(client, 'memcached-2', query('key', true)),
+        'memcached-2:11211'
+      );
+    });
+  });
+});
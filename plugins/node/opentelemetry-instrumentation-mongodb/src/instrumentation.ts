@@ -18,10 +18,20 @@ import {
   context,
   diag,
   trace,
+  Context,
+  HrTime,
   Span,
   SpanKind,
   SpanStatusCode,
 } from '@opentelemetry/api';
+import {
+  Counter,
+  Histogram,
+  MeterProvider,
+  UpDownCounter,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
 import {
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
@@ -31,6 +41,7 @@ import {
 } from '@opentelemetry/instrumentation';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import type * as mongodb from 'mongodb';
+import { AttributeNames } from './enums/AttributeNames';
 import {
   CursorState,
   MongodbCommandType,
@@ -40,20 +51,100 @@ import {
   WireProtocolInternal,
   CommandResult,
   V4Connection,
+  V4ConnectionPoolEvent,
+  V4CursorCommand,
+  V4CursorResult,
+  V4CursorSpan,
+  V4Long,
+  V4MongoClient,
+  V4Namespace,
+  V4ServerSessionId,
+  V4Session,
+  V4SessionsModule,
 } from './types';
 import { VERSION } from './version';
 
+// commands returning a cursor that may be iterated with getMore
+const V4_CURSOR_COMMANDS = ['find', 'aggregate'];
+// cursors that are never exhausted nor killed are ended past this limit
+const MAX_OPEN_CURSOR_SPANS = 1000;
+const POOL_NAME_ATTRIBUTE = 'db.client.connections.pool.name';
+const POOL_STATE_ATTRIBUTE = 'db.client.connections.state';
+
 /** mongodb instrumentation plugin for OpenTelemetry */
 export class MongoDBInstrumentation extends InstrumentationBase<
   typeof mongodb
 > {
+  private _openCursors = new Map<string, V4CursorSpan>();
+  private _poolMonitoredClients = new WeakSet<V4MongoClient>();
+  private _connectionsUsage!: UpDownCounter;
+  private _connectionsMax!: UpDownCounter;
+  private _connectionsPendingRequests!: UpDownCounter;
+  private _connectionsWaitTime!: Histogram;
+  private _connectionPoolClears!: Counter;
+
   constructor(protected override _config: MongoDBInstrumentationConfig = {}) {
     super('@opentelemetry/instrumentation-mongodb', VERSION, _config);
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._connectionsUsage = this.meter.createUpDownCounter(
+      'db.client.connections.usage',
+      {
+        description:
+          'The number of connections that are currently in state described by the state attribute.',
+        unit: '{connection}',
+        valueType: ValueType.INT,
+      }
+    );
+    this._connectionsMax = this.meter.createUpDownCounter(
+      'db.client.connections.max',
+      {
+        description: 'The maximum number of open connections allowed.',
+        unit: '{connection}',
+        valueType: ValueType.INT,
+      }
+    );
+    this._connectionsPendingRequests = this.meter.createUpDownCounter(
+      'db.client.connections.pending_requests',
+      {
+        description:
+          'The number of pending requests for an open connection, cumulative for the entire pool.',
+        unit: '{request}',
+        valueType: ValueType.INT,
+      }
+    );
+    this._connectionsWaitTime = this.meter.createHistogram(
+      'db.client.connections.wait_time',
+      {
+        description:
+          'The time it took to obtain an open connection from the pool.',
+        unit: 'ms',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    this._connectionPoolClears = this.meter.createCounter(
+      'db.client.connections.pool.clears',
+      {
+        description:
+          'The number of times the pool was cleared, closing all of its connections.',
+        unit: '{clear}',
+        valueType: ValueType.INT,
+      }
+    );
   }
 
   init() {
     const { v3Patch, v3Unpatch } = this._getV3Patches();
     const { v4Patch, v4Unpatch } = this._getV4Patches();
+    const { v4SessionPatch, v4SessionUnpatch } = this._getV4SessionPatches();
+    const { v4ClientPatch, v4ClientUnpatch } = this._getV4ClientPatches();
 
     return [
       new InstrumentationNodeModuleDefinition<typeof mongodb>(
@@ -82,6 +173,18 @@ export class MongoDBInstrumentation extends InstrumentationBase<
             v4Patch,
             v4Unpatch
           ),
+          new InstrumentationNodeModuleFile<V4SessionsModule>(
+            'mongodb/lib/sessions.js',
+            ['4.*'],
+            v4SessionPatch,
+            v4SessionUnpatch
+          ),
+          new InstrumentationNodeModuleFile<V4MongoClient>(
+            'mongodb/lib/mongo_client.js',
+            ['4.*'],
+            v4ClientPatch,
+            v4ClientUnpatch
+          ),
         ]
       ),
     ];
@@ -173,6 +276,85 @@ export class MongoDBInstrumentation extends InstrumentationBase<
     };
   }
 
+  private _getV4SessionPatches() {
+    return {
+      v4SessionPatch: (
+        moduleExports: V4SessionsModule,
+        moduleVersion?: string
+      ) => {
+        diag.debug(`Applying session patch for mongodb@${moduleVersion}`);
+        const proto = moduleExports.ClientSession.prototype;
+        if (isWrapped(proto.startTransaction)) {
+          this._unwrap(proto, 'startTransaction');
+        }
+        this._wrap(
+          proto,
+          'startTransaction',
+          this._getV4PatchStartTransaction()
+        );
+        for (const operationName of [
+          'commitTransaction',
+          'abortTransaction',
+        ] as const) {
+          if (isWrapped(proto[operationName])) {
+            this._unwrap(proto, operationName);
+          }
+          this._wrap(
+            proto,
+            operationName,
+            this._getV4PatchEndTransaction(operationName)
+          );
+        }
+        return moduleExports;
+      },
+      v4SessionUnpatch: (
+        moduleExports?: V4SessionsModule,
+        moduleVersion?: string
+      ) => {
+        if (moduleExports === undefined) return;
+        diag.debug(
+          `Removing internal session patch for mongodb@${moduleVersion}`
+        );
+        const proto = moduleExports.ClientSession.prototype;
+        this._unwrap(proto, 'startTransaction');
+        this._unwrap(proto, 'commitTransaction');
+        this._unwrap(proto, 'abortTransaction');
+      },
+    };
+  }
+
+  private _getV4ClientPatches() {
+    return {
+      v4ClientPatch: (moduleExports: any, moduleVersion?: string) => {
+        diag.debug(`Applying client patch for mongodb@${moduleVersion}`);
+        const proto = moduleExports.MongoClient.prototype;
+        if (isWrapped(proto.connect)) {
+          this._unwrap(proto, 'connect');
+        }
+        this._wrap(proto, 'connect', this._getV4PatchConnect());
+        return moduleExports;
+      },
+      v4ClientUnpatch: (moduleExports?: any, moduleVersion?: string) => {
+        if (moduleExports === undefined) return;
+        diag.debug(
+          `Removing internal client patch for mongodb@${moduleVersion}`
+        );
+        this._unwrap(moduleExports.MongoClient.prototype, 'connect');
+      },
+    };
+  }
+
+  /** Subscribes to the connection pool events of connecting clients */
+  private _getV4PatchConnect() {
+    const instrumentation = this;
+    return (original: V4MongoClient['connect']) => {
+      return function patchedConnect(this: V4MongoClient, ...args: unknown[]) {
+        instrumentation._monitorV4ConnectionPools(this);
+        return original.apply(this, args as never);
+      };
+    };
+  }
+
   /** Creates spans for common operations */
   private _getV3PatchOperation(operationName: 'insert' | 'update' | 'remove') {
     const instrumentation = this;
@@ -282,7 +464,6 @@ export class MongoDBInstrumentation extends InstrumentationBase<
         const currentSpan = trace.getSpan(context.active());
         const resultHandler = callback;
         if (
-          !currentSpan ||
           typeof resultHandler !== 'function' ||
           typeof cmd !== 'object' ||
           cmd.ismaster ||
@@ -290,20 +471,149 @@ export class MongoDBInstrumentation extends InstrumentationBase<
         ) {
           return original.call(this, ns, cmd, options, callback);
         }
+        // getMore and killCursors belong to the cursor they operate on, even
+        // when they are issued outside of any active span
+        const cursors = instrumentation._getV4OpenCursors(
+          this as V4Connection,
+          cmd
+        );
+        if (!currentSpan && cursors.length === 0) {
+          return original.call(this, ns, cmd, options, callback);
+        }
         const commandType = Object.keys(cmd)[0];
+        const parentContext =
+          cursors.length > 0
+            ? trace.setSpan(context.active(), cursors[0].span)
+            : context.active();
         const span = instrumentation.tracer.startSpan(
           `mongodb.${commandType}`,
           {
             kind: SpanKind.CLIENT,
-          }
+          },
+          parentContext
         );
         instrumentation._populateV4Attributes(span, this, ns, cmd);
-        const patchedCallback = instrumentation._patchEnd(span, resultHandler);
+        // commands sent within a transaction or as retryable writes
+        if (cmd.txnNumber) {
+          instrumentation._populateV4TransactionAttributes(
+            span,
+            cmd.lsid,
+            cmd.txnNumber.toNumber()
+          );
+        }
+        let patchedCallback = instrumentation._patchEnd(span, resultHandler);
+        if (cursors.length > 0) {
+          patchedCallback = instrumentation._patchV4CursorOperationEnd(
+            span,
+            cmd,
+            cursors,
+            patchedCallback
+          );
+        } else if (V4_CURSOR_COMMANDS.includes(commandType)) {
+          patchedCallback = instrumentation._patchV4CursorCommandEnd(
+            span,
+            this as V4Connection,
+            ns,
+            cmd,
+            patchedCallback
+          );
+        }
         return original.call(this, ns, cmd, options, patchedCallback);
       };
     };
   }
 
+  /** Creates spans for startTransaction operation */
+  private _getV4PatchStartTransaction() {
+    const instrumentation = this;
+    return (original: V4Session['startTransaction']) => {
+      return function patchedStartTransaction(
+        this: V4Session,
+        ...args: unknown[]
+      ) {
+        if (!trace.getSpan(context.active())) {
+          return original.apply(this, args as never);
+        }
+        const span = instrumentation.tracer.startSpan(
+          'mongodb.startTransaction',
+          {
+            kind: SpanKind.INTERNAL,
+          }
+        );
+        try {
+          return original.apply(this, args as never);
+        } catch (err) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: err.message,
+          });
+          throw err;
+        } finally {
+          // the transaction number is incremented by startTransaction itself
+          instrumentation._populateV4TransactionAttributes(
+            span,
+            this.id,
+            this.serverSession?.txnNumber
+          );
+          span.end();
+        }
+      };
+    };
+  }
+
+  /** Creates spans for commitTransaction and abortTransaction operations */
+  private _getV4PatchEndTransaction(
+    operationName: 'commitTransaction' | 'abortTransaction'
+  ) {
+    const instrumentation = this;
+    return (original: V4Session[typeof operationName]) => {
+      return function patchedEndTransaction(
+        this: V4Session,
+        callback?: Function
+      ) {
+        if (!trace.getSpan(context.active())) {
+          return original.call(this, callback);
+        }
+        const span = instrumentation.tracer.startSpan(
+          `mongodb.${operationName}`,
+          {
+            kind: SpanKind.INTERNAL,
+          }
+        );
+        instrumentation._populateV4TransactionAttributes(
+          span,
+          this.id,
+          this.serverSession?.txnNumber
+        );
+        const activeContext = context.active();
+        const spanContext = trace.setSpan(activeContext, span);
+
+        if (typeof callback === 'function') {
+          const patchedCallback = function (this: {}, ...args: unknown[]) {
+            instrumentation._endSpan(span, args[0]);
+            return context.with(activeContext, () =>
+              callback.apply(this, args)
+            );
+          };
+          return context.with(spanContext, () =>
+            original.call(this, patchedCallback)
+          );
+        }
+        const result = context.with(spanContext, () => original.call(this));
+        return (result as Promise<unknown>).then(
+          value => {
+            instrumentation._endSpan(span);
+            return value;
+          },
+          err => {
+            instrumentation._endSpan(span, err);
+            throw err;
+          }
+        );
+      };
+    };
+  }
+
   /** Creates spans for find operation */
   private _getV3PatchFind() {
     const instrumentation = this;
@@ -655,4 +965,291 @@ export class MongoDBInstrumentation extends InstrumentationBase<
       });
     };
   }
+
+  /**
+   * Ends a span, flagging it as failed when an error is given.
+   * @param span The span to end.
+   * @param error The error the operation failed with, if any.
+   */
+  private _endSpan(span: Span, error?: unknown) {
+    if (error instanceof Error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error.message,
+      });
+    }
+    span.end();
+  }
+
+  /**
+   * Adds the logical session id and transaction number to a span.
+   * @param span span to add attributes to
+   * @param lsid mongodb logical session id
+   * @param txnNumber mongodb transaction number
+   */
+  private _populateV4TransactionAttributes(
+    span: Span,
+    lsid?: V4ServerSessionId,
+    txnNumber?: number
+  ) {
+    span.setAttributes({
+      [SemanticAttributes.DB_SYSTEM]: 'mongodb',
+      [AttributeNames.LSID]: lsid?.id?.buffer?.toString('hex'),
+      [AttributeNames.TXN_NUMBER]: txnNumber,
+    });
+  }
+
+  /**
+   * Looks up the open cursors a getMore or killCursors command operates on.
+   * @param connection mongodb internal connection
+   * @param command mongodb internal representation of a command
+   */
+  private _getV4OpenCursors(
+    connection: V4Connection,
+    command: V4CursorCommand
+  ): V4CursorSpan[] {
+    let cursorIds: V4Long[];
+    if (command.getMore !== undefined) {
+      cursorIds = [command.getMore];
+    } else if (
+      command.killCursors !== undefined &&
+      Array.isArray(command.cursors)
+    ) {
+      cursorIds = command.cursors;
+    } else {
+      return [];
+    }
+    const cursors: V4CursorSpan[] = [];
+    for (const cursorId of cursorIds) {
+      const cursor = this._openCursors.get(
+        MongoDBInstrumentation._getCursorKey(connection, cursorId)
+      );
+      if (cursor) {
+        cursors.push(cursor);
+      }
+    }
+    return cursors;
+  }
+
+  /**
+   * Opens a cursor span when a find or aggregate command leaves a cursor open
+   * on the server. The cursor span starts along with the command, as its
+   * sibling, and is ended once the cursor is exhausted or killed.
+   * @param span The command span.
+   * @param connection mongodb internal connection
+   * @param ns mongodb namespace
+   * @param command mongodb internal representation of a command
+   * @param resultHandler A callback function.
+   */
+  private _patchV4CursorCommandEnd(
+    span: Span,
+    connection: V4Connection,
+    ns: V4Namespace,
+    command: V4CursorCommand,
+    resultHandler: Function
+  ): Function {
+    const instrumentation = this;
+    const parentContext = context.active();
+    const startTime = hrTime();
+    return function patchedCursorCommandEnd(this: {}, ...args: unknown[]) {
+      const [error, result] = args as [unknown, V4CursorResult | undefined];
+      const cursorId = MongoDBInstrumentation._getResultCursorId(result);
+      if (!(error instanceof Error) && cursorId) {
+        span.setAttribute(AttributeNames.CURSOR_ID, cursorId.toString());
+        instrumentation._openV4Cursor(
+          parentContext,
+          startTime,
+          connection,
+          ns,
+          command,
+          cursorId,
+          result
+        );
+      }
+      return resultHandler.apply(this, args);
+    };
+  }
+
+  /**
+   * Updates the cursors a getMore or killCursors command operates on, ending
+   * them once they are exhausted, killed or have failed.
+   * @param span The command span.
+   * @param command mongodb internal representation of a command
+   * @param cursors The open cursors the command operates on.
+   * @param resultHandler A callback function.
+   */
+  private _patchV4CursorOperationEnd(
+    span: Span,
+    command: V4CursorCommand,
+    cursors: V4CursorSpan[],
+    resultHandler: Function
+  ): Function {
+    const instrumentation = this;
+    return function patchedCursorOperationEnd(this: {}, ...args: unknown[]) {
+      const [error, result] = args as [unknown, V4CursorResult | undefined];
+      const [cursor] = cursors;
+      span.setAttribute(
+        AttributeNames.CURSOR_ID,
+        cursors.map(({ cursorId }) => cursorId).join(',')
+      );
+      if (command.killCursors !== undefined || error instanceof Error) {
+        cursors.forEach(cursor => instrumentation._endV4Cursor(cursor, error));
+      } else {
+        instrumentation._addV4CursorBatch(cursor, result);
+        if (!MongoDBInstrumentation._getResultCursorId(result)) {
+          instrumentation._endV4Cursor(cursor);
+        }
+      }
+      return resultHandler.apply(this, args);
+    };
+  }
+
+  private _openV4Cursor(
+    parentContext: Context,
+    startTime: HrTime,
+    connection: V4Connection,
+    ns: V4Namespace,
+    command: V4CursorCommand,
+    cursorId: V4Long,
+    result: V4CursorResult | undefined
+  ) {
+    if (this._openCursors.size >= MAX_OPEN_CURSOR_SPANS) {
+      const [oldest] = this._openCursors.values();
+      this._endV4Cursor(oldest);
+    }
+    const span = this.tracer.startSpan(
+      'mongodb.cursor',
+      {
+        kind: SpanKind.INTERNAL,
+        startTime,
+      },
+      parentContext
+    );
+    this._populateV4Attributes(span, connection, ns, command);
+    span.setAttribute(AttributeNames.CURSOR_ID, cursorId.toString());
+    const cursor: V4CursorSpan = {
+      span,
+      cursorId: cursorId.toString(),
+      key: MongoDBInstrumentation._getCursorKey(connection, cursorId),
+      batchCount: 0,
+      documentCount: 0,
+    };
+    this._addV4CursorBatch(cursor, result);
+    this._openCursors.set(cursor.key, cursor);
+  }
+
+  private _addV4CursorBatch(
+    cursor: V4CursorSpan,
+    result: V4CursorResult | undefined
+  ) {
+    const batch = result?.cursor?.firstBatch ?? result?.cursor?.nextBatch;
+    cursor.batchCount++;
+    cursor.documentCount += Array.isArray(batch) ? batch.length : 0;
+  }
+
+  private _endV4Cursor(cursor: V4CursorSpan, error?: unknown) {
+    this._openCursors.delete(cursor.key);
+    cursor.span.setAttributes({
+      [AttributeNames.CURSOR_BATCH_COUNT]: cursor.batchCount,
+      [AttributeNames.CURSOR_DOCUMENT_COUNT]: cursor.documentCount,
+    });
+    this._endSpan(cursor.span, error);
+  }
+
+  /**
+   * @returns the id of the cursor left open by a command, undefined when the
+   * cursor has been exhausted.
+   */
+  private static _getResultCursorId(
+    result: V4CursorResult | undefined
+  ): V4Long | undefined {
+    const cursorId = result?.cursor?.id;
+    if (cursorId == null || cursorId.toString() === '0') {
+      return undefined;
+    }
+    return cursorId;
+  }
+
+  // cursor ids are only unique per server
+  private static _getCursorKey(
+    connection: V4Connection,
+    cursorId: V4Long
+  ): string {
+    return `${connection.address}/${cursorId.toString()}`;
+  }
+
+  /**
+   * Records connection pool metrics from the CMAP events the client relays
+   * from the pools of all the servers it is connected to.
+   * @param client mongodb client
+   */
+  private _monitorV4ConnectionPools(client: V4MongoClient) {
+    if (this._poolMonitoredClients.has(client)) return;
+    this._poolMonitoredClients.add(client);
+
+    const maxPoolSizes = new Map<string, number>();
+    // pools serve checkout requests in order, which lets us pair the start
+    // and end events of a checkout without an identifier
+    const pendingCheckOuts = new Map<string, HrTime[]>();
+    const poolAttributes = (event: V4ConnectionPoolEvent) => ({
+      [POOL_NAME_ATTRIBUTE]: event.address,
+    });
+    const addUsage = (
+      event: V4ConnectionPoolEvent,
+      state: 'idle' | 'used',
+      value: number
+    ) =>
+      this._connectionsUsage.add(value, {
+        ...poolAttributes(event),
+        [POOL_STATE_ATTRIBUTE]: state,
+      });
+    const endCheckOut = (event: V4ConnectionPoolEvent) => {
+      this._connectionsPendingRequests.add(-1, poolAttributes(event));
+      const startTime = pendingCheckOuts.get(event.address)?.shift();
+      if (startTime) {
+        const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+        this._connectionsWaitTime.record(
+          seconds * 1e3 + nanos / 1e6,
+          poolAttributes(event)
+        );
+      }
+    };
+
+    client.on('connectionPoolCreated', (event: V4ConnectionPoolEvent) => {
+      const maxPoolSize = event.options?.maxPoolSize ?? 0;
+      maxPoolSizes.set(event.address, maxPoolSize);
+      this._connectionsMax.add(maxPoolSize, poolAttributes(event));
+    });
+    client.on('connectionPoolClosed', (event: V4ConnectionPoolEvent) => {
+      const maxPoolSize = maxPoolSizes.get(event.address) ?? 0;
+      maxPoolSizes.delete(event.address);
+      this._connectionsMax.add(-maxPoolSize, poolAttributes(event));
+    });
+    client.on('connectionPoolCleared', (event: V4ConnectionPoolEvent) =>
+      this._connectionPoolClears.add(1, poolAttributes(event))
+    );
+    // connections are closed once they are back in the pool
+    client.on('connectionCreated', (event: V4ConnectionPoolEvent) =>
+      addUsage(event, 'idle', 1)
+    );
+    client.on('connectionClosed', (event: V4ConnectionPoolEvent) =>
+      addUsage(event, 'idle', -1)
+    );
+    client.on('connectionCheckOutStarted', (event: V4ConnectionPoolEvent) => {
+      this._connectionsPendingRequests.add(1, poolAttributes(event));
+      const startTimes = pendingCheckOuts.get(event.address) ?? [];
+      startTimes.push(hrTime());
+      pendingCheckOuts.set(event.address, startTimes);
+    });
+    client.on('connectionCheckOutFailed', endCheckOut);
+    client.on('connectionCheckedOut', (event: V4ConnectionPoolEvent) => {
+      endCheckOut(event);
+      addUsage(event, 'idle', -1);
+      addUsage(event, 'used', 1);
+    });
+    client.on('connectionCheckedIn', (event: V4ConnectionPoolEvent) => {
+      addUsage(event, 'used', -1);
+      addUsage(event, 'idle', 1);
+    });
+  }
 }
@@ -164,6 +164,7 @@ export enum MongodbCommandType {
 
 // https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/cmap/connection.ts
 export type V4Connection = {
+  address?: string;
   command(
     ns: any,
     cmd: Document,
@@ -171,3 +172,57 @@ export type V4Connection = {
     callback: any
   ): void;
 };
+
+// https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/utils.ts
+export type V4Namespace = { db: string; collection?: string };
+
+// https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/bson.ts
+export type V4Long = { toString(): string; toNumber(): number };
+
+/** A command sent by a connection, as far as cursors are concerned */
+export type V4CursorCommand = {
+  getMore?: V4Long;
+  killCursors?: string;
+  cursors?: V4Long[];
+} & Record<string, unknown>;
+
+/** The reply to a command opening a cursor or fetching its next batch */
+export type V4CursorResult = {
+  cursor?: { id?: V4Long; firstBatch?: unknown[]; nextBatch?: unknown[] };
+};
+
+// https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/sessions.ts
+export type V4ServerSessionId = { id?: { buffer?: Buffer } };
+
+export type V4Session = {
+  id?: V4ServerSessionId;
+  serverSession?: { txnNumber?: number };
+  startTransaction(options?: unknown): void;
+  commitTransaction(callback?: Function): Promise<unknown> | void;
+  abortTransaction(callback?: Function): Promise<unknown> | void;
+};
+
+export type V4SessionsModule = {
+  ClientSession: { prototype: V4Session };
+};
+
+/** A cursor left open on the server by a find or aggregate command */
+export type V4CursorSpan = {
+  span: Span;
+  cursorId: string;
+  key: string;
+  batchCount: number;
+  documentCount: number;
+};
+
+// https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/mongo_client.ts
+export type V4MongoClient = {
+  connect(callback?: Function): unknown;
+  on(event: string, listener: (event: any) => void): unknown;
+};
+
+// https://github.com/mongodb/node-mongodb-native/blob/v4.2.2/src/cmap/connection_pool_events.ts
+export type V4ConnectionPoolEvent = {
+  address: string;
+  options?: { maxPoolSize?: number };
+};
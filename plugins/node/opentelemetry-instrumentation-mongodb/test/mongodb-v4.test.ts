@@ -17,13 +17,16 @@
 // for testing locally "npm run docker:start"
 
 import { context, trace, SpanKind, Span } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
 import * as assert from 'assert';
 import { MongoDBInstrumentation, MongoDBInstrumentationConfig } from '../src';
 import { MongoResponseHookInformation } from '../src';
+import { AttributeNames } from '../src/enums/AttributeNames';
 import {
   registerInstrumentationTesting,
   getTestSpans,
   resetMemoryExporter,
+  RecordingMeter,
 } from '@opentelemetry/contrib-test-utils';
 
 const instrumentation = registerInstrumentationTesting(
@@ -428,6 +431,250 @@ describe('MongoDBInstrumentation', () => {
     });
   });
 
+  describe('Instrumenting cursor lifetime', () => {
+    it('should tie getMore batches to a cursor span', done => {
+      const span = trace.getTracer('default').startSpan('findRootSpan');
+      context.with(trace.setSpan(context.active(), span), () => {
+        collection
+          .find()
+          .batchSize(1)
+          .toArray()
+          .then(documents => {
+            span.end();
+            const spans = getTestSpans();
+            const [findSpan] = spans.filter(s => s.name === 'mongodb.find');
+            const [cursorSpan] = spans.filter(s => s.name === 'mongodb.cursor');
+            const getMoreSpans = spans.filter(
+              s => s.name === 'mongodb.getMore'
+            );
+            assert.ok(cursorSpan, 'cursor span should be ended');
+            const cursorId = cursorSpan.attributes[AttributeNames.CURSOR_ID];
+            assert.strictEqual(
+              findSpan.attributes[AttributeNames.CURSOR_ID],
+              cursorId
+            );
+            assert.strictEqual(
+              cursorSpan.parentSpanId,
+              span.spanContext().spanId
+            );
+            assert.strictEqual(getMoreSpans.length, 3);
+            getMoreSpans.forEach(getMoreSpan => {
+              assert.strictEqual(
+                getMoreSpan.parentSpanId,
+                cursorSpan.spanContext().spanId
+              );
+              assert.strictEqual(
+                getMoreSpan.attributes[AttributeNames.CURSOR_ID],
+                cursorId
+              );
+            });
+            assert.strictEqual(
+              cursorSpan.attributes[AttributeNames.CURSOR_BATCH_COUNT],
+              4
+            );
+            assert.strictEqual(
+              cursorSpan.attributes[AttributeNames.CURSOR_DOCUMENT_COUNT],
+              documents.length
+            );
+            done();
+          })
+          .catch(err => {
+            done(err);
+          });
+      });
+    });
+
+    it('should end the cursor span when the cursor is killed', done => {
+      const span = trace.getTracer('default').startSpan('findRootSpan');
+      context.with(trace.setSpan(context.active(), span), () => {
+        const cursor = collection.find().batchSize(1);
+        cursor
+          .next()
+          .then(() => cursor.close())
+          .then(() => {
+            span.end();
+            const spans = getTestSpans();
+            const [cursorSpan] = spans.filter(s => s.name === 'mongodb.cursor');
+            const [killCursorsSpan] = spans.filter(
+              s => s.name === 'mongodb.killCursors'
+            );
+            assert.ok(cursorSpan, 'cursor span should be ended');
+            assert.strictEqual(
+              killCursorsSpan.parentSpanId,
+              cursorSpan.spanContext().spanId
+            );
+            assert.strictEqual(
+              cursorSpan.attributes[AttributeNames.CURSOR_BATCH_COUNT],
+              1
+            );
+            done();
+          })
+          .catch(err => {
+            done(err);
+          });
+      });
+    });
+
+    it('should not create a cursor span for single batch queries', done => {
+      const span = trace.getTracer('default').startSpan('findRootSpan');
+      context.with(trace.setSpan(context.active(), span), () => {
+        collection
+          .find({ a: 1 })
+          .toArray()
+          .then(() => {
+            span.end();
+            assertSpans(getTestSpans(), 'mongodb.find', SpanKind.CLIENT);
+            done();
+          })
+          .catch(err => {
+            done(err);
+          });
+      });
+    });
+  });
+
+  describe('Instrumenting transactions', () => {
+    it('should create spans for startTransaction and abortTransaction', done => {
+      const session = client.startSession();
+      const span = trace.getTracer('default').startSpan('transactionRootSpan');
+      context.with(trace.setSpan(context.active(), span), () => {
+        session.startTransaction();
+        session
+          .abortTransaction()
+          .then(() => {
+            span.end();
+            const spans = getTestSpans();
+            const [startSpan, abortSpan] = spans;
+            assert.strictEqual(startSpan.name, 'mongodb.startTransaction');
+            assert.strictEqual(abortSpan.name, 'mongodb.abortTransaction');
+            const sessionId = session.id as { id: { buffer: Buffer } };
+            const lsid = sessionId.id.buffer.toString('hex');
+            [startSpan, abortSpan].forEach(transactionSpan => {
+              assert.strictEqual(
+                transactionSpan.parentSpanId,
+                span.spanContext().spanId
+              );
+              assert.strictEqual(
+                transactionSpan.attributes[AttributeNames.LSID],
+                lsid
+              );
+              assert.strictEqual(
+                transactionSpan.attributes[AttributeNames.TXN_NUMBER],
+                1
+              );
+            });
+            return session.endSession();
+          })
+          .then(() => done())
+          .catch(err => {
+            done(err);
+          });
+      });
+    });
+  });
+
+  describe('Recording connection pool metrics', () => {
+    let meter: RecordingMeter;
+
+    beforeEach(() => {
+      meter = new RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    after(() => {
+      instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+    });
+
+    it('should record the pool usage and checkout wait time', done => {
+      accessCollection(URL, DB_NAME, COLLECTION_NAME)
+        .then(result =>
+          result.collection
+            .find({ a: 1 })
+            .toArray()
+            .then(() => {
+              const [address] = meter.records
+                .filter(record => record.name === 'db.client.connections.max')
+                .map(
+                  record =>
+                    record.attributes!['db.client.connections.pool.name']
+                );
+              const attributes = {
+                'db.client.connections.pool.name': address,
+              };
+              assert.strictEqual(
+                meter.sum('db.client.connections.max', attributes),
+                100
+              );
+              assert.strictEqual(
+                meter.sum('db.client.connections.pending_requests', attributes),
+                0
+              );
+              assert.strictEqual(
+                meter.sum('db.client.connections.usage', {
+                  ...attributes,
+                  'db.client.connections.state': 'used',
+                }),
+                0
+              );
+              assert.ok(
+                meter.sum('db.client.connections.usage', {
+                  ...attributes,
+                  'db.client.connections.state': 'idle',
+                }) > 0
+              );
+              const waitTimes = meter.records.filter(
+                record => record.name === 'db.client.connections.wait_time'
+              );
+              assert.ok(waitTimes.length > 0);
+              waitTimes.forEach(record => {
+                assert.ok(record.value >= 0);
+                assert.deepStrictEqual(record.attributes, attributes);
+              });
+              return result.client.close();
+            })
+        )
+        .then(() => done())
+        .catch(err => {
+          done(err);
+        });
+    });
+
+    it('should count the clears of the pool', done => {
+      accessCollection(URL, DB_NAME, COLLECTION_NAME)
+        .then(result =>
+          result.collection
+            .find({ a: 1 })
+            .toArray()
+            .then(() => {
+              // the pools of the servers of the topology are internal
+              const { topology } = result.client as unknown as {
+                topology: {
+                  s: {
+                    servers: Map<string, { s: { pool: { clear(): void } } }>;
+                  };
+                };
+              };
+              topology.s.servers.forEach(server => server.s.pool.clear());
+              const clears = meter.records.filter(
+                record => record.name === 'db.client.connections.pool.clears'
+              );
+              assert.strictEqual(clears.length, topology.s.servers.size);
+              clears.forEach(record => {
+                assert.strictEqual(record.value, 1);
+                assert.ok(
+                  record.attributes!['db.client.connections.pool.name']
+                );
+              });
+              return result.client.close();
+            })
+        )
+        .then(() => done())
+        .catch(err => {
+          done(err);
+        });
+    });
+  });
+
   describe('Mixed operations with callback', () => {
     it('should create a span for find after callback insert', done => {
       const insertData = [{ a: 1 }, { a: 2 }, { a: 3 }];
@@ -15,4 +15,10 @@
  */
 
 export * from './instrumentation';
-export { MySQLInstrumentationConfig } from './types';
+export {
+  MySQLInstrumentationConfig,
+  MySQLInstrumentationExecutionRequestHook,
+  MySQLInstrumentationExecutionResponseHook,
+  MySQLRequestHookInformation,
+  MySQLResponseHookInformation,
+} from './types';
@@ -17,16 +17,29 @@
 import {
   context,
   diag,
+  HrTime,
   Span,
   SpanKind,
   SpanStatusCode,
 } from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Histogram,
+  MeterProvider,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
 import {
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
   isWrapped,
+  safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
-import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import {
+  DbSystemValues,
+  SemanticAttributes,
+} from '@opentelemetry/semantic-conventions';
+import { getMetricAttributes } from '@opentelemetry/sql-common';
 import type * as mysqlTypes from 'mysql';
 import { MySQLInstrumentationConfig } from './types';
 import { getConnectionAttributes, getDbStatement, getSpanName } from './utils';
@@ -47,8 +60,27 @@ export class MySQLInstrumentation extends InstrumentationBase<
     [SemanticAttributes.DB_SYSTEM]: MySQLInstrumentation.COMPONENT,
   };
 
+  private _operationDuration!: Histogram;
+
   constructor(config?: MySQLInstrumentationConfig) {
     super('@opentelemetry/instrumentation-mysql', VERSION, config);
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._operationDuration = this.meter.createHistogram(
+      'db.client.operation.duration',
+      {
+        description: 'Duration of database client operations.',
+        unit: 's',
+        valueType: ValueType.DOUBLE,
+      }
+    );
   }
 
   protected init() {
@@ -265,6 +297,12 @@ export class MySQLInstrumentation extends InstrumentationBase<
             ...getConnectionAttributes(connection.config),
           },
         });
+        const startTime = hrTime();
+        const metricAttributes = getMetricAttributes(
+          DbSystemValues.MYSQL,
+          connection.config,
+          query
+        );
 
         let values;
 
@@ -276,7 +314,12 @@ export class MySQLInstrumentation extends InstrumentationBase<
 
         span.setAttribute(
           SemanticAttributes.DB_STATEMENT,
-          getDbStatement(query, format, values)
+          getDbStatement(
+            query,
+            format,
+            values,
+            thisPlugin.getConfig() as MySQLInstrumentationConfig
+          )
         );
 
         const cbIndex = Array.from(arguments).findIndex(
@@ -288,33 +331,53 @@ export class MySQLInstrumentation extends InstrumentationBase<
             connection,
             arguments
           );
+          thisPlugin._runRequestHook(span, streamableQuery, connection);
 
+          let queryError: mysqlTypes.MysqlError | undefined;
           return streamableQuery
-            .on('error', err =>
+            .on('error', err => {
+              queryError = err;
               span.setStatus({
                 code: SpanStatusCode.ERROR,
                 message: err.message,
-              })
-            )
+              });
+            })
             .on('end', () => {
               span.end();
+              thisPlugin._recordOperationDuration(
+                startTime,
+                metricAttributes,
+                queryError
+              );
             });
         } else {
           thisPlugin._wrap(
             arguments,
             cbIndex,
-            thisPlugin._patchCallbackQuery(span)
+            thisPlugin._patchCallbackQuery(span, startTime, metricAttributes)
           );
 
-          return originalQuery.apply(connection, arguments);
+          const queryObject: mysqlTypes.Query = originalQuery.apply(
+            connection,
+            arguments
+          );
+          thisPlugin._runRequestHook(span, queryObject, connection);
+          return queryObject;
         }
       };
     };
   }
 
-  private _patchCallbackQuery(span: Span) {
+  private _patchCallbackQuery(
+    span: Span,
+    startTime: HrTime,
+    metricAttributes: MetricAttributes
+  ) {
+    const thisPlugin = this;
     return (originalCallback: Function) => {
+      // the query calls back with itself as `this`
       return function (
+        this: mysqlTypes.Query,
         err: mysqlTypes.MysqlError | null,
         results?: any,
         fields?: mysqlTypes.FieldInfo[]
@@ -324,10 +387,70 @@ export class MySQLInstrumentation extends InstrumentationBase<
             code: SpanStatusCode.ERROR,
             message: err.message,
           });
+        } else {
+          thisPlugin._runResponseHook(span, this, results, fields);
         }
         span.end();
-        return originalCallback(...arguments);
+        thisPlugin._recordOperationDuration(
+          startTime,
+          metricAttributes,
+          err ?? undefined
+        );
+        return originalCallback.apply(this, arguments);
       };
     };
   }
+
+  private _runRequestHook(
+    span: Span,
+    query: mysqlTypes.Query,
+    connection: mysqlTypes.Connection | mysqlTypes.Pool
+  ) {
+    const { requestHook } = this.getConfig() as MySQLInstrumentationConfig;
+    if (typeof requestHook !== 'function') {
+      return;
+    }
+    safeExecuteInTheMiddle(
+      () => requestHook(span, { query, connection }),
+      err => {
+        if (err) {
+          diag.error('mysql instrumentation: request hook failed', err);
+        }
+      },
+      true
+    );
+  }
+
+  private _runResponseHook(
+    span: Span,
+    query: mysqlTypes.Query,
+    data: mysqlTypes.OkPacket | unknown[],
+    fields?: mysqlTypes.FieldInfo[]
+  ) {
+    const { responseHook } = this.getConfig() as MySQLInstrumentationConfig;
+    if (typeof responseHook !== 'function') {
+      return;
+    }
+    safeExecuteInTheMiddle(
+      () => responseHook(span, { query, data, fields }),
+      err => {
+        if (err) {
+          diag.error('mysql instrumentation: response hook failed', err);
+        }
+      },
+      true
+    );
+  }
+
+  private _recordOperationDuration(
+    startTime: HrTime,
+    metricAttributes: MetricAttributes,
+    err?: mysqlTypes.MysqlError
+  ) {
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    const attributes = err
+      ? { ...metricAttributes, 'error.type': err.code }
+      : metricAttributes;
+    this._operationDuration.record(seconds + nanos / 1e9, attributes);
+  }
 }
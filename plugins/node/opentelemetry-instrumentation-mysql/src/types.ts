@@ -14,6 +14,65 @@
  * limitations under the License.
  */
 
+import type * as mysqlTypes from 'mysql';
+import type * as api from '@opentelemetry/api';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
 
-export type MySQLInstrumentationConfig = InstrumentationConfig;
+export interface MySQLRequestHookInformation {
+  query: mysqlTypes.Query;
+  connection: mysqlTypes.Connection | mysqlTypes.Pool;
+}
+
+export interface MySQLInstrumentationExecutionRequestHook {
+  (span: api.Span, requestInfo: MySQLRequestHookInformation): void;
+}
+
+export interface MySQLResponseHookInformation {
+  query: mysqlTypes.Query;
+  /**
+   * Rows returned by a SELECT, or the `OkPacket` of a write statement
+   * (carrying `affectedRows`, `insertId` and `changedRows`).
+   */
+  data: mysqlTypes.OkPacket | unknown[];
+  fields?: mysqlTypes.FieldInfo[];
+}
+
+export interface MySQLInstrumentationExecutionResponseHook {
+  (span: api.Span, responseInfo: MySQLResponseHookInformation): void;
+}
+
+export interface MySQLInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Hook that allows adding custom span attributes once the query has been
+   * handed to the driver.
+   *
+   * @default undefined
+   */
+  requestHook?: MySQLInstrumentationExecutionRequestHook;
+
+  /**
+   * Hook that allows adding custom span attributes based on the data
+   * returned from the query. Only invoked for queries issued with a
+   * callback, as streamed results are not buffered.
+   *
+   * @default undefined
+   */
+  responseHook?: MySQLInstrumentationExecutionResponseHook;
+
+  /**
+   * How literals are stripped from the db.statement tag.
+   *
+   * @default 'obfuscate'
+   */
+  dbStatementSanitizer?: DbStatementSanitizer;
+
+  /**
+   * Custom serializer function for the db.statement tag. Takes precedence
+   * over `dbStatementSanitizer`.
+   */
+  dbStatementSerializer?: DbStatementSerializer<unknown[]>;
+}
@@ -14,7 +14,8 @@
  * limitations under the License.
  */
 
-import { SpanAttributes } from '@opentelemetry/api';
+import { diag, SpanAttributes } from '@opentelemetry/api';
+import { serializeDbStatement } from '@opentelemetry/sql-common';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import type {
   ConnectionConfig,
@@ -22,6 +23,7 @@ import type {
   Query,
   QueryOptions,
 } from 'mysql';
+import { MySQLInstrumentationConfig } from './types';
 
 /**
  * Get an SpanAttributes map from a mysql connection config object
@@ -67,7 +69,8 @@ function getJDBCString(
 }
 
 /**
- * Conjures up the value for the db.statement attribute by formatting a SQL query.
+ * Conjures up the value for the db.statement attribute by formatting a SQL
+ * query and sanitizing it, unless a custom serializer is configured.
  *
  * @returns the database statement being executed.
  */
@@ -79,17 +82,26 @@ export function getDbStatement(
     stringifyObjects?: boolean,
     timeZone?: string
   ) => string,
-  values?: any[]
+  values?: any[],
+  config: MySQLInstrumentationConfig = {}
 ): string {
-  if (typeof query === 'string') {
-    return values ? format(query, values) : query;
-  } else {
-    // According to https://github.com/mysqljs/mysql#performing-queries
-    // The values argument will override the values in the option object.
-    return values || query.values
-      ? format(query.sql, values || query.values)
-      : query.sql;
-  }
+  const sql = typeof query === 'string' ? query : query.sql;
+  // According to https://github.com/mysqljs/mysql#performing-queries
+  // The values argument will override the values in the option object.
+  const queryValues =
+    typeof query === 'string' ? values : values || query.values;
+
+  return serializeDbStatement(
+    config.dbStatementSerializer,
+    {
+      text: sql,
+      values: queryValues,
+      sanitizer: config.dbStatementSanitizer,
+      formattedText: queryValues ? format(sql, queryValues) : undefined,
+    },
+    { doubleQuotedStrings: true, backslashEscapes: true, hashComments: true },
+    diag
+  );
 }
 
 /**
@@ -24,8 +24,9 @@ import {
   ReadableSpan,
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
+import { sanitizeDbStatement } from '@opentelemetry/sql-common';
 import * as assert from 'assert';
-import { MySQLInstrumentation } from '../src';
+import { MySQLInstrumentation, MySQLInstrumentationConfig } from '../src';
 
 const port = Number(process.env.MYSQL_PORT) || 33306;
 const database = process.env.MYSQL_DATABASE || 'test_db';
@@ -150,6 +151,214 @@ describe('mysql@2.x', () => {
     });
   });
 
+  describe('hooks', () => {
+    afterEach(() => {
+      instrumentation.setConfig({});
+    });
+
+    it('should call requestHook with the query and connection', done => {
+      const config: MySQLInstrumentationConfig = {
+        requestHook: (span, { query, connection: conn }) => {
+          span.setAttribute('mysql.sql', query.sql);
+          span.setAttribute('mysql.thread_id', (conn as any).threadId ?? -1);
+        },
+      };
+      instrumentation.setConfig(config);
+      const sql = 'SELECT 1+1 as solution';
+      connection.query(sql, err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].attributes['mysql.sql'], sql);
+        assert.ok('mysql.thread_id' in spans[0].attributes);
+        done();
+      });
+    });
+
+    it('should call responseHook with the OkPacket of a write', done => {
+      const config: MySQLInstrumentationConfig = {
+        responseHook: (span, { data }) => {
+          const okPacket = data as mysqlTypes.OkPacket;
+          span.setAttribute('mysql.affected_rows', okPacket.affectedRows);
+          span.setAttribute('mysql.insert_id', okPacket.insertId);
+        },
+      };
+      instrumentation.setConfig(config);
+      connection.query(
+        'CREATE TEMPORARY TABLE hooks_test (id INT AUTO_INCREMENT PRIMARY KEY, v INT)',
+        err => {
+          assert.ifError(err);
+          memoryExporter.reset();
+          connection.query(
+            'INSERT INTO hooks_test (v) VALUES (1), (2)',
+            (err, res) => {
+              assert.ifError(err);
+              const spans = memoryExporter.getFinishedSpans();
+              assert.strictEqual(spans.length, 1);
+              assert.strictEqual(
+                spans[0].attributes['mysql.affected_rows'],
+                res.affectedRows
+              );
+              assert.strictEqual(
+                spans[0].attributes['mysql.insert_id'],
+                res.insertId
+              );
+              done();
+            }
+          );
+        }
+      );
+    });
+
+    it('should call responseHook with the returned rows', done => {
+      const config: MySQLInstrumentationConfig = {
+        responseHook: (span, { data, fields }) => {
+          span.setAttribute('mysql.row_count', (data as unknown[]).length);
+          span.setAttribute('mysql.field_count', fields?.length ?? 0);
+        },
+      };
+      instrumentation.setConfig(config);
+      connection.query('SELECT 1 as a, 2 as b', err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans[0].attributes['mysql.row_count'], 1);
+        assert.strictEqual(spans[0].attributes['mysql.field_count'], 2);
+        done();
+      });
+    });
+
+    it('should not fail the query when a hook throws', done => {
+      const config: MySQLInstrumentationConfig = {
+        requestHook: () => {
+          throw new Error('requestHook failed');
+        },
+        responseHook: () => {
+          throw new Error('responseHook failed');
+        },
+      };
+      instrumentation.setConfig(config);
+      connection.query('SELECT 1+1 as solution', (err, res) => {
+        assert.ifError(err);
+        assert.strictEqual(res[0].solution, 2);
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 1);
+        done();
+      });
+    });
+  });
+
+  describe('db.statement', () => {
+    afterEach(() => {
+      instrumentation.setConfig({});
+    });
+
+    it('should obfuscate literals by default', done => {
+      const sql = 'SELECT ? as a, "b" as b, 3 as c FROM dual WHERE 1 IN (1, 2)';
+      connection.query(sql, ['secret'], err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT ? as a, ? as b, ? as c FROM dual WHERE ? IN (?)'
+        );
+        done();
+      });
+    });
+
+    it('should obfuscate literals following a hash comment', done => {
+      const sql = "SELECT 1 as a # it's\n, 'secret' as b";
+      connection.query(sql, err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          "SELECT ? as a # it's\n, ? as b"
+        );
+        done();
+      });
+    });
+
+    it('should record the formatted query when the sanitizer is disabled', done => {
+      const config: MySQLInstrumentationConfig = {
+        dbStatementSanitizer: 'none',
+      };
+      instrumentation.setConfig(config);
+      const sql = 'SELECT ? as solution';
+      connection.query(sql, [1], err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT 1 as solution'
+        );
+        done();
+      });
+    });
+
+    it('should use the custom serializer when provided', done => {
+      const config: MySQLInstrumentationConfig = {
+        dbStatementSerializer: (sql, values) =>
+          `${sql} -- ${values?.length ?? 0} values`,
+      };
+      instrumentation.setConfig(config);
+      const sql = 'SELECT ? as solution';
+      connection.query({ sql, values: [1] }, err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT ? as solution -- 1 values'
+        );
+        done();
+      });
+    });
+  });
+
+  describe('metrics', () => {
+    let meter: testUtils.RecordingMeter;
+
+    beforeEach(() => {
+      meter = new testUtils.RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    it('should record the duration of a callback query', done => {
+      connection.query('SELECT 1+1 as solution', err => {
+        assert.ifError(err);
+        assert.strictEqual(meter.records.length, 1);
+        const [record] = meter.records;
+        assert.strictEqual(record.name, 'db.client.operation.duration');
+        assert.ok(record.value >= 0);
+        assert.deepStrictEqual(record.attributes, {
+          [SemanticAttributes.DB_SYSTEM]: 'mysql',
+          [SemanticAttributes.DB_OPERATION]: 'SELECT',
+          [SemanticAttributes.NET_PEER_NAME]: host,
+          [SemanticAttributes.NET_PEER_PORT]: String(port),
+          [SemanticAttributes.DB_NAME]: database,
+        });
+        done();
+      });
+    });
+
+    it('should record the duration of a streamed query', done => {
+      const query = connection.query('SELECT 1+1 as solution');
+      query.on('end', () => {
+        assert.strictEqual(meter.records.length, 1);
+        done();
+      });
+    });
+
+    it('should record the error type of a failed query', done => {
+      connection.query('SELECT * FROM does_not_exist', err => {
+        assert.ok(err);
+        assert.strictEqual(
+          meter.records[0].attributes?.['error.type'],
+          'ER_NO_SUCH_TABLE'
+        );
+        done();
+      });
+    });
+  });
+
   describe('#Connection', () => {
     it('should intercept connection.query(text: string)', done => {
       const span = provider.getTracer('default').startSpan('test span');
@@ -723,7 +932,7 @@ function assertSpan(
   assert.strictEqual(span.attributes[SemanticAttributes.DB_USER], user);
   assert.strictEqual(
     span.attributes[SemanticAttributes.DB_STATEMENT],
-    mysqlTypes.format(sql, values)
+    sanitizeDbStatement(mysqlTypes.format(sql, values))
   );
   if (errorMessage) {
     assert.strictEqual(span.status.message, errorMessage);
@@ -19,4 +19,8 @@ import { MySQL2Instrumentation } from './instrumentation';
 export * from './instrumentation';
 export default MySQL2Instrumentation;
 
-export { MySQL2InstrumentationConfig } from './types';
+export {
+  MySQL2InstrumentationConfig,
+  MySQL2InstrumentationExecutionResponseHook,
+  MySQL2ResponseHookInformation,
+} from './types';
@@ -15,17 +15,34 @@
  */
 
 import * as api from '@opentelemetry/api';
+import {
+  Attributes as MetricAttributes,
+  Histogram,
+  MeterProvider,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
 import {
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
   isWrapped,
+  safeExecuteInTheMiddle,
 } from '@opentelemetry/instrumentation';
-import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import {
+  DbSystemValues,
+  SemanticAttributes,
+} from '@opentelemetry/semantic-conventions';
+import {
+  createConnectionPoolInstruments,
+  getMetricAttributes,
+} from '@opentelemetry/sql-common';
 import type * as mysqlTypes from 'mysql2';
 import { MySQL2InstrumentationConfig } from './types';
 import {
+  addSqlCommenterCommentToQuery,
   getConnectionAttributes,
   getDbStatement,
+  getPoolName,
   getSpanName,
   once,
 } from './utils';
@@ -33,6 +50,18 @@ import { VERSION } from './version';
 
 type formatType = typeof mysqlTypes.format;
 
+// internals of the mysql2 `Pool`, missing from the types
+interface ApproxPool {
+  config: {
+    connectionLimit: number;
+    connectionConfig: mysqlTypes.ConnectionOptions;
+  };
+  _closed: boolean;
+  _allConnections: { length: number };
+  _freeConnections: { length: number };
+  _connectionQueue: { length: number };
+}
+
 export class MySQL2Instrumentation extends InstrumentationBase<
   typeof mysqlTypes
 > {
@@ -41,8 +70,49 @@ export class MySQL2Instrumentation extends InstrumentationBase<
     [SemanticAttributes.DB_SYSTEM]: MySQL2Instrumentation.COMPONENT,
   };
 
+  // pools are tracked from their getConnection() until their end()
+  private _pools = new Set<ApproxPool>();
+  private _operationDuration!: Histogram;
+
   constructor(config?: MySQL2InstrumentationConfig) {
     super('@opentelemetry/instrumentation-mysql2', VERSION, config);
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  override setConfig(config: MySQL2InstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): MySQL2InstrumentationConfig {
+    return this._config as MySQL2InstrumentationConfig;
+  }
+
+  private _updateMetricInstruments() {
+    this._operationDuration = this.meter.createHistogram(
+      'db.client.operation.duration',
+      {
+        description: 'Duration of database client operations.',
+        unit: 's',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    createConnectionPoolInstruments(this.meter, this._pools, {
+      getPoolName: pool => getPoolName(pool.config.connectionConfig),
+      getPoolStats: pool =>
+        pool._closed
+          ? undefined
+          : {
+              idle: pool._freeConnections.length,
+              used: pool._allConnections.length - pool._freeConnections.length,
+              max: pool.config.connectionLimit,
+              pending: pool._connectionQueue.length,
+            },
+    });
   }
 
   protected init() {
@@ -62,8 +132,34 @@ export class MySQL2Instrumentation extends InstrumentationBase<
           this._wrap(
             ConnectionPrototype,
             'query',
-            this._patchQuery(moduleExports.format) as any
+            this._patchQuery(moduleExports.format, false) as any
+          );
+
+          api.diag.debug('Patching Connection.prototype.execute');
+          if (isWrapped(ConnectionPrototype.execute)) {
+            this._unwrap(ConnectionPrototype, 'execute');
+          }
+          this._wrap(
+            ConnectionPrototype,
+            'execute',
+            this._patchQuery(moduleExports.format, true) as any
+          );
+
+          const PoolPrototype: mysqlTypes.Pool = moduleExports.Pool.prototype;
+          api.diag.debug('Patching Pool.prototype.getConnection');
+          if (isWrapped(PoolPrototype.getConnection)) {
+            this._unwrap(PoolPrototype, 'getConnection');
+          }
+          this._wrap(
+            PoolPrototype,
+            'getConnection',
+            this._patchGetConnection() as any
           );
+          api.diag.debug('Patching Pool.prototype.end');
+          if (isWrapped(PoolPrototype.end)) {
+            this._unwrap(PoolPrototype, 'end');
+          }
+          this._wrap(PoolPrototype, 'end', this._patchPoolEnd() as any);
 
           return moduleExports;
         },
@@ -72,15 +168,20 @@ export class MySQL2Instrumentation extends InstrumentationBase<
           const ConnectionPrototype: mysqlTypes.Connection =
             moduleExports.Connection.prototype;
           this._unwrap(ConnectionPrototype, 'query');
+          this._unwrap(ConnectionPrototype, 'execute');
+          this._unwrap(moduleExports.Pool.prototype, 'getConnection');
+          this._unwrap(moduleExports.Pool.prototype, 'end');
         }
       ),
     ];
   }
 
-  private _patchQuery(format: formatType) {
+  private _patchQuery(format: formatType, prepared: boolean) {
     return (originalQuery: Function): Function => {
       const thisPlugin = this;
-      api.diag.debug('MySQL2Instrumentation: patched mysql query');
+      api.diag.debug(
+        `MySQL2Instrumentation: patched mysql ${prepared ? 'execute' : 'query'}`
+      );
 
       return function query(
         this: mysqlTypes.Connection,
@@ -95,7 +196,13 @@ export class MySQL2Instrumentation extends InstrumentationBase<
           values = [_valuesOrCallback];
         }
 
-        const span = thisPlugin.tracer.startSpan(getSpanName(query), {
+        const startTime = hrTime();
+        const metricAttributes = getMetricAttributes(
+          DbSystemValues.MYSQL,
+          this.config,
+          query
+        );
+        const span = thisPlugin.tracer.startSpan(getSpanName(query, prepared), {
           kind: api.SpanKind.CLIENT,
           attributes: {
             ...MySQL2Instrumentation.COMMON_ATTRIBUTES,
@@ -103,7 +210,8 @@ export class MySQL2Instrumentation extends InstrumentationBase<
             [SemanticAttributes.DB_STATEMENT]: getDbStatement(
               query,
               format,
-              values
+              values,
+              thisPlugin.getConfig()
             ),
           },
         });
@@ -115,14 +223,23 @@ export class MySQL2Instrumentation extends InstrumentationBase<
             });
           }
           span.end();
+          thisPlugin._recordOperationDuration(startTime, metricAttributes, err);
         });
 
+        // prepared statements are cached by their text, which is left as is
+        if (
+          !prepared &&
+          thisPlugin.getConfig().addSqlCommenterCommentToQueries
+        ) {
+          arguments[0] = addSqlCommenterCommentToQuery(span, query);
+        }
+
         if (arguments.length === 1) {
           if (typeof (query as any).onResult === 'function') {
             thisPlugin._wrap(
               query as any,
               'onResult',
-              thisPlugin._patchCallbackQuery(endSpan)
+              thisPlugin._patchCallbackQuery(span, endSpan)
             );
           }
 
@@ -147,13 +264,13 @@ export class MySQL2Instrumentation extends InstrumentationBase<
           thisPlugin._wrap(
             arguments,
             1,
-            thisPlugin._patchCallbackQuery(endSpan)
+            thisPlugin._patchCallbackQuery(span, endSpan)
           );
         } else if (typeof arguments[2] === 'function') {
           thisPlugin._wrap(
             arguments,
             2,
-            thisPlugin._patchCallbackQuery(endSpan)
+            thisPlugin._patchCallbackQuery(span, endSpan)
           );
         }
 
@@ -162,16 +279,80 @@ export class MySQL2Instrumentation extends InstrumentationBase<
     };
   }
 
-  private _patchCallbackQuery(endSpan: Function) {
+  private _patchCallbackQuery(span: api.Span, endSpan: Function) {
+    const thisPlugin = this;
     return (originalCallback: Function) => {
       return function (
         err: mysqlTypes.QueryError | null,
         results?: any,
         fields?: mysqlTypes.FieldPacket[]
       ) {
+        if (!err) {
+          thisPlugin._runResponseHook(span, results, fields);
+        }
         endSpan(err);
         return originalCallback(...arguments);
       };
     };
   }
+
+  private _patchGetConnection() {
+    return (originalGetConnection: Function): Function => {
+      const thisPlugin = this;
+      api.diag.debug('MySQL2Instrumentation: patched mysql pool getConnection');
+
+      return function getConnection(this: ApproxPool) {
+        if (!this._closed) {
+          thisPlugin._pools.add(this);
+        }
+        return originalGetConnection.apply(this, arguments);
+      };
+    };
+  }
+
+  private _patchPoolEnd() {
+    return (originalEnd: Function): Function => {
+      const thisPlugin = this;
+      api.diag.debug('MySQL2Instrumentation: patched mysql pool end');
+
+      return function end(this: ApproxPool) {
+        // untrack the pool here rather than when observing the pool metrics,
+        // which never happens without a metrics SDK
+        thisPlugin._pools.delete(this);
+        return originalEnd.apply(this, arguments);
+      };
+    };
+  }
+
+  private _runResponseHook(
+    span: api.Span,
+    data: mysqlTypes.ResultSetHeader | mysqlTypes.OkPacket | unknown[],
+    fields?: mysqlTypes.FieldPacket[]
+  ) {
+    const { responseHook } = this.getConfig();
+    if (typeof responseHook !== 'function') {
+      return;
+    }
+    safeExecuteInTheMiddle(
+      () => responseHook(span, { data, fields }),
+      err => {
+        if (err) {
+          api.diag.error('mysql2 instrumentation: response hook failed', err);
+        }
+      },
+      true
+    );
+  }
+
+  private _recordOperationDuration(
+    startTime: api.HrTime,
+    metricAttributes: MetricAttributes,
+    err?: mysqlTypes.QueryError
+  ) {
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    const attributes = err
+      ? { ...metricAttributes, 'error.type': err.code }
+      : metricAttributes;
+    this._operationDuration.record(seconds + nanos / 1e9, attributes);
+  }
 }
@@ -14,6 +14,57 @@
  * limitations under the License.
  */
 
+import type * as mysqlTypes from 'mysql2';
+import type * as api from '@opentelemetry/api';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
 
-export type MySQL2InstrumentationConfig = InstrumentationConfig;
+export interface MySQL2ResponseHookInformation {
+  /**
+   * Rows returned by a SELECT, or the `ResultSetHeader` of a write statement
+   * (carrying `affectedRows`, `insertId` and `changedRows`).
+   */
+  data: mysqlTypes.ResultSetHeader | mysqlTypes.OkPacket | unknown[];
+  fields?: mysqlTypes.FieldPacket[];
+}
+
+export interface MySQL2InstrumentationExecutionResponseHook {
+  (span: api.Span, responseInfo: MySQL2ResponseHookInformation): void;
+}
+
+export interface MySQL2InstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Hook that allows adding custom span attributes based on the data
+   * returned from the query or prepared statement. Only invoked for queries
+   * issued with a callback, as streamed results are not buffered.
+   *
+   * @default undefined
+   */
+  responseHook?: MySQL2InstrumentationExecutionResponseHook;
+
+  /**
+   * How literals are stripped from the db.statement tag.
+   *
+   * @default 'obfuscate'
+   */
+  dbStatementSanitizer?: DbStatementSanitizer;
+
+  /**
+   * Custom serializer function for the db.statement tag. Takes precedence
+   * over `dbStatementSanitizer`.
+   */
+  dbStatementSerializer?: DbStatementSerializer<unknown[]>;
+
+  /**
+   * If true, a sqlcommenter comment holding the `traceparent` and
+   * `tracestate` of the query span is appended to the query text, unless the
+   * query already contains a comment. Prepared statements (`execute()`) are
+   * never modified.
+   *
+   * @default false
+   */
+  addSqlCommenterCommentToQueries?: boolean;
+}
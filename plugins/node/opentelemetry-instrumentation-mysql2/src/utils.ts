@@ -14,9 +14,21 @@
  * limitations under the License.
  */
 
-import { SpanAttributes } from '@opentelemetry/api';
+import { diag, Span, SpanAttributes } from '@opentelemetry/api';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import {
+  addSqlCommenterComment,
+  serializeDbStatement,
+  SqlDialectOptions,
+} from '@opentelemetry/sql-common';
 import type { Query, QueryOptions } from 'mysql2';
+import { MySQL2InstrumentationConfig } from './types';
+
+const MYSQL_DIALECT: SqlDialectOptions = {
+  doubleQuotedStrings: true,
+  backslashEscapes: true,
+  hashComments: true,
+};
 
 interface Config {
   host?: string;
@@ -42,6 +54,14 @@ export function getConnectionAttributes(config: Config): SpanAttributes {
   };
 }
 
+/**
+ * Names a pool after the server and database it connects to
+ */
+export function getPoolName(config: Config): string {
+  const { host, port, database } = getConfig(config);
+  return `${host || 'localhost'}:${port || 3306}/${database || ''}`;
+}
+
 function getConfig(config: any) {
   const { host, port, database, user } =
     (config && config.connectionConfig) || config || {};
@@ -67,7 +87,8 @@ function getJDBCString(
 }
 
 /**
- * Conjures up the value for the db.statement attribute by formatting a SQL query.
+ * Conjures up the value for the db.statement attribute by formatting a SQL
+ * query and sanitizing it, unless a custom serializer is configured.
  *
  * @returns the database statement being executed.
  */
@@ -79,30 +100,71 @@ export function getDbStatement(
     stringifyObjects?: boolean,
     timeZone?: string
   ) => string,
-  values?: any[]
+  values?: any[],
+  config: MySQL2InstrumentationConfig = {}
 ): string {
+  const sql = typeof query === 'string' ? query : query.sql;
+  // According to https://github.com/mysqljs/mysql#performing-queries
+  // The values argument will override the values in the option object.
+  const queryValues =
+    typeof query === 'string'
+      ? values
+      : values || (query as QueryOptions).values;
+
+  return serializeDbStatement(
+    config.dbStatementSerializer,
+    {
+      text: sql,
+      values: queryValues,
+      sanitizer: config.dbStatementSanitizer,
+      formattedText: queryValues ? format(sql, queryValues) : undefined,
+    },
+    MYSQL_DIALECT,
+    diag
+  );
+}
+
+/**
+ * Appends a sqlcommenter comment with the span context to the query text.
+ * Only strings and plain option objects are rewritten, `Query` instances
+ * built ahead of time are passed through untouched.
+ *
+ * @returns the query to pass to the original `query` function.
+ */
+export function addSqlCommenterCommentToQuery(
+  span: Span,
+  query: string | Query | QueryOptions
+): string | Query | QueryOptions {
   if (typeof query === 'string') {
-    return values ? format(query, values) : query;
-  } else {
-    // According to https://github.com/mysqljs/mysql#performing-queries
-    // The values argument will override the values in the option object.
-    return values || (query as QueryOptions).values
-      ? format(query.sql, values || (query as QueryOptions).values)
-      : query.sql;
+    return addSqlCommenterComment(span, query, MYSQL_DIALECT);
   }
+  if (
+    typeof query !== 'object' ||
+    query === null ||
+    Object.getPrototypeOf(query) !== Object.prototype ||
+    typeof query.sql !== 'string'
+  ) {
+    return query;
+  }
+  return {
+    ...query,
+    sql: addSqlCommenterComment(span, query.sql, MYSQL_DIALECT),
+  };
 }
 
 /**
  * The span name SHOULD be set to a low cardinality value
  * representing the statement executed on the database.
+ * Prepared statements run with `execute()` are prefixed with `execute`.
  *
  * @returns SQL statement without variable arguments or SQL verb
  */
-export function getSpanName(query: string | Query | QueryOptions): string {
-  if (typeof query === 'object') {
-    return query.sql;
-  }
-  return query.split(' ')[0];
+export function getSpanName(
+  query: string | Query | QueryOptions,
+  prepared = false
+): string {
+  const name = typeof query === 'object' ? query.sql : query.split(' ')[0];
+  return prepared ? `execute ${name}` : name;
 }
 
 export const once = (fn: Function) => {
@@ -24,8 +24,10 @@ import {
   ReadableSpan,
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { sanitizeDbStatement } from '@opentelemetry/sql-common';
 import * as assert from 'assert';
-import { MySQL2Instrumentation } from '../src';
+import { MySQL2Instrumentation, MySQL2InstrumentationConfig } from '../src';
 
 const LIB_VERSION = testUtils.getPackageVersion('mysql2');
 const port = Number(process.env.MYSQL_PORT) || 33306;
@@ -164,7 +166,326 @@ describe('mysql@2.x', () => {
     });
   });
 
+  describe('db.statement', () => {
+    afterEach(() => {
+      instrumentation.setConfig({});
+    });
+
+    it('should obfuscate literals by default', done => {
+      const sql = 'SELECT ? as a, "b" as b, 3 as c FROM dual WHERE 1 IN (1, 2)';
+      connection.query(sql, ['secret'], err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT ? as a, ? as b, ? as c FROM dual WHERE ? IN (?)'
+        );
+        done();
+      });
+    });
+
+    it('should obfuscate literals following a hash comment', done => {
+      const sql = "SELECT 1 as a # it's\n, 'secret' as b";
+      connection.query(sql, err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          "SELECT ? as a # it's\n, ? as b"
+        );
+        done();
+      });
+    });
+
+    it('should record the formatted query when the sanitizer is disabled', done => {
+      const config: MySQL2InstrumentationConfig = {
+        dbStatementSanitizer: 'none',
+      };
+      instrumentation.setConfig(config);
+      connection.query('SELECT ? as solution', [1], err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT 1 as solution'
+        );
+        done();
+      });
+    });
+
+    it('should use the custom serializer when provided', done => {
+      const config: MySQL2InstrumentationConfig = {
+        dbStatementSerializer: (sql, values) =>
+          `${sql} -- ${values?.length ?? 0} values`,
+      };
+      instrumentation.setConfig(config);
+      connection.query({ sql: 'SELECT ? as solution', values: [1] }, err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          'SELECT ? as solution -- 1 values'
+        );
+        done();
+      });
+    });
+  });
+
+  describe('addSqlCommenterCommentToQueries', () => {
+    const config: MySQL2InstrumentationConfig = {
+      addSqlCommenterCommentToQueries: true,
+    };
+
+    beforeEach(() => {
+      instrumentation.setConfig(config);
+    });
+
+    afterEach(() => {
+      instrumentation.setConfig({});
+    });
+
+    it('should append the traceparent of the query span', done => {
+      const query: mysqlTypes.Query = connection.query(
+        'SELECT 1 as solution',
+        err => {
+          assert.ifError(err);
+          const spans = memoryExporter.getFinishedSpans();
+          const { traceId, spanId } = spans[0].spanContext();
+          assert.strictEqual(
+            query.sql,
+            `SELECT 1 as solution /*traceparent='00-${traceId}-${spanId}-01'*/`
+          );
+          assert.strictEqual(
+            spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+            'SELECT ? as solution'
+          );
+          done();
+        }
+      );
+    });
+
+    it('should not modify queries that already contain a comment', done => {
+      const sql = 'SELECT 1 as solution /* existing */';
+      const query: mysqlTypes.Query = connection.query({ sql }, err => {
+        assert.ifError(err);
+        assert.strictEqual(query.sql, sql);
+        done();
+      });
+    });
+  });
+
+  describe('metrics', () => {
+    const poolName = `${host}:${port}/${database}`;
+    let meter: testUtils.RecordingMeter;
+
+    beforeEach(() => {
+      meter = new testUtils.RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    afterEach(() => {
+      instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+    });
+
+    it('should record the duration of a query', done => {
+      connection.query('SELECT 1+1 as solution', err => {
+        assert.ifError(err);
+        assert.strictEqual(meter.records.length, 1);
+        const [record] = meter.records;
+        assert.strictEqual(record.name, 'db.client.operation.duration');
+        assert.ok(record.value >= 0);
+        assert.deepStrictEqual(record.attributes, {
+          [SemanticAttributes.DB_SYSTEM]: 'mysql',
+          [SemanticAttributes.DB_OPERATION]: 'SELECT',
+          [SemanticAttributes.NET_PEER_NAME]: host,
+          [SemanticAttributes.NET_PEER_PORT]: String(port),
+          [SemanticAttributes.DB_NAME]: database,
+        });
+        done();
+      });
+    });
+
+    it('should record the duration of a prepared statement', done => {
+      connection.execute('SELECT ? as solution', [1], err => {
+        assert.ifError(err);
+        assert.strictEqual(meter.records.length, 1);
+        assert.strictEqual(
+          meter.records[0].attributes?.[SemanticAttributes.DB_OPERATION],
+          'SELECT'
+        );
+        done();
+      });
+    });
+
+    it('should record the error type of a failed query', done => {
+      connection.query('SELECT * FROM does_not_exist', err => {
+        assert.ok(err);
+        assert.strictEqual(
+          meter.records[0].attributes?.['error.type'],
+          'ER_NO_SUCH_TABLE'
+        );
+        done();
+      });
+    });
+
+    it('should observe the pool usage', done => {
+      pool.getConnection((err, conn) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(meter.observe('db.client.connections.usage'), [
+          {
+            value: 0,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'idle',
+            },
+          },
+          {
+            value: 1,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'used',
+            },
+          },
+        ]);
+        assert.deepStrictEqual(
+          meter.observe('db.client.connections.pending_requests'),
+          [
+            {
+              value: 0,
+              attributes: { 'db.client.connections.pool.name': poolName },
+            },
+          ]
+        );
+        assert.deepStrictEqual(meter.observe('db.client.connections.max'), [
+          {
+            value: 10,
+            attributes: { 'db.client.connections.pool.name': poolName },
+          },
+        ]);
+        conn.release();
+        done();
+      });
+    });
+
+    it('should keep observing a pool without connections', done => {
+      pool.getConnection((err, conn) => {
+        assert.ifError(err);
+        conn.destroy();
+        assert.deepStrictEqual(meter.observe('db.client.connections.usage'), [
+          {
+            value: 0,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'idle',
+            },
+          },
+          {
+            value: 0,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'used',
+            },
+          },
+        ]);
+        done();
+      });
+    });
+
+    it('should stop observing a pool once it has ended', done => {
+      pool.getConnection((err, conn) => {
+        assert.ifError(err);
+        conn.release();
+        pool.end(() => {
+          assert.deepStrictEqual(
+            meter.observe('db.client.connections.usage'),
+            []
+          );
+          // afterEach ends the pool again
+          pool = mysqlTypes.createPool({
+            port,
+            user,
+            host,
+            password,
+            database,
+          });
+          done();
+        });
+      });
+    });
+  });
+
+  describe('responseHook', () => {
+    afterEach(() => {
+      instrumentation.setConfig({});
+    });
+
+    it('should pass the result set header of a statement', done => {
+      instrumentation.setConfig({
+        responseHook: (span, { data }) => {
+          span.setAttribute(
+            'mysql2.affected_rows',
+            (data as mysqlTypes.ResultSetHeader).affectedRows
+          );
+        },
+      });
+      connection.query('SET @solution = 1', err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans[0].attributes['mysql2.affected_rows'], 0);
+        done();
+      });
+    });
+
+    it('should pass the rows and fields of a query', done => {
+      instrumentation.setConfig({
+        responseHook: (span, { data, fields }) => {
+          span.setAttribute('mysql2.row_count', (data as unknown[]).length);
+          span.setAttribute(
+            'mysql2.fields',
+            fields!.map(f => f.name)
+          );
+        },
+      });
+      connection.query('SELECT 1+1 as solution', err => {
+        assert.ifError(err);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans[0].attributes['mysql2.row_count'], 1);
+        assert.deepStrictEqual(spans[0].attributes['mysql2.fields'], [
+          'solution',
+        ]);
+        done();
+      });
+    });
+
+    it('should not fail the query when the hook throws', done => {
+      instrumentation.setConfig({
+        responseHook: () => {
+          throw new Error('responseHook failed');
+        },
+      });
+      connection.query('SELECT 1+1 as solution', (err, res: Result[]) => {
+        assert.ifError(err);
+        assert.strictEqual(res[0].solution, 2);
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 1);
+        done();
+      });
+    });
+  });
+
   describe('#Connection', () => {
+    it('should intercept connection.execute(text: string, values, callback)', done => {
+      const sql = 'SELECT ?+? as solution';
+      connection.execute(sql, [1, 1], (err, res: Result[]) => {
+        assert.ifError(err);
+        assert.strictEqual(res[0].solution, 2);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].name, 'execute SELECT');
+        assertSpan(spans[0], sql, [1, 1]);
+        done();
+      });
+    });
+
     it('should intercept connection.query(text: string)', done => {
       const span = provider.getTracer('default').startSpan('test span');
       context.with(trace.setSpan(context.active(), span), () => {
@@ -290,6 +611,39 @@ describe('mysql@2.x', () => {
   });
 
   describe('#Pool', () => {
+    it('should untrack the pool once it has ended', done => {
+      // no MeterProvider is configured, the pool metrics are never observed
+      pool.getConnection((err, conn) => {
+        assert.ifError(err);
+        conn.release();
+        assert.ok(instrumentation['_pools'].has(pool as never));
+        pool.end(() => {
+          assert.ok(!instrumentation['_pools'].has(pool as never));
+          // afterEach ends the pool again
+          pool = mysqlTypes.createPool({
+            port,
+            user,
+            host,
+            password,
+            database,
+          });
+          done();
+        });
+      });
+    });
+
+    it('should intercept pool.execute(text: string, values, callback)', done => {
+      const sql = 'SELECT ?+? as solution';
+      pool.execute(sql, [1, 1], (err, res: Result[]) => {
+        assert.ifError(err);
+        assert.strictEqual(res[0].solution, 2);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].name, 'execute SELECT');
+        done();
+      });
+    });
+
     it('should intercept pool.query(text: string)', done => {
       const span = provider.getTracer('default').startSpan('test span');
       context.with(trace.setSpan(context.active(), span), () => {
@@ -658,7 +1012,7 @@ function assertSpan(
   assert.strictEqual(span.attributes[SemanticAttributes.DB_USER], user);
   assert.strictEqual(
     span.attributes[SemanticAttributes.DB_STATEMENT],
-    mysqlTypes.format(sql, values)
+    sanitizeDbStatement(mysqlTypes.format(sql, values))
   );
   if (errorMessage) {
     assert.strictEqual(span.status.message, errorMessage);
@@ -23,4 +23,11 @@ export enum AttributeNames {
   PIPES = 'nestjs.pipes',
   INTERCEPTORS = 'nestjs.interceptors',
   GUARDS = 'nestjs.guards',
+  GUARD = 'nestjs.guard',
+  INTERCEPTOR = 'nestjs.interceptor',
+  INTERCEPTOR_PHASE = 'nestjs.interceptor.phase',
+  PIPE = 'nestjs.pipe',
+  EXCEPTION_FILTER = 'nestjs.exception_filter',
+  PATTERN = 'nestjs.pattern',
+  TRANSPORT = 'nestjs.transport',
 }
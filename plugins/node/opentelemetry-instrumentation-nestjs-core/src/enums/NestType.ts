@@ -18,4 +18,12 @@ export enum NestType {
   APP_CREATION = 'app_creation',
   REQUEST_CONTEXT = 'request_context',
   REQUEST_HANDLER = 'handler',
+  GUARD = 'guard',
+  INTERCEPTOR = 'interceptor',
+  PIPE = 'pipe',
+  EXCEPTION_FILTER = 'exception_filter',
+  MESSAGE_HANDLER = 'message_handler',
+  EVENT_HANDLER = 'event_handler',
+  MESSAGE_SEND = 'message_send',
+  EVENT_EMIT = 'event_emit',
 }
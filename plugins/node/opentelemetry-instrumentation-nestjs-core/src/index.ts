@@ -17,4 +17,5 @@
 import { Instrumentation } from './instrumentation';
 
 export * from './instrumentation';
+export * from './types';
 export { Instrumentation as NestInstrumentation };
@@ -17,7 +17,6 @@
 import * as api from '@opentelemetry/api';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   InstrumentationNodeModuleFile,
   isWrapped,
@@ -25,10 +24,90 @@ import {
 import type * as NestJS from '@nestjs/core';
 import type { NestFactory } from '@nestjs/core/nest-factory.js';
 import type { RouterExecutionContext } from '@nestjs/core/router/router-execution-context.js';
-import type { Controller } from '@nestjs/common/interfaces';
+import type * as GuardsConsumerModule from '@nestjs/core/guards/guards-consumer.js';
+import type { GuardsConsumer } from '@nestjs/core/guards/guards-consumer.js';
+import type * as InterceptorsConsumerModule from '@nestjs/core/interceptors/interceptors-consumer.js';
+import type { InterceptorsConsumer } from '@nestjs/core/interceptors/interceptors-consumer.js';
+import type * as PipesConsumerModule from '@nestjs/core/pipes/pipes-consumer.js';
+import type { PipesConsumer } from '@nestjs/core/pipes/pipes-consumer.js';
+import type * as BaseExceptionFilterContextModule from '@nestjs/core/exceptions/base-exception-filter-context.js';
+import type { BaseExceptionFilterContext } from '@nestjs/core/exceptions/base-exception-filter-context.js';
+import type * as ServerModule from '@nestjs/microservices/server/server.js';
+import type * as ClientProxyModule from '@nestjs/microservices/client/client-proxy.js';
+import type * as ClientNatsModule from '@nestjs/microservices/client/client-nats.js';
+import type * as ClientRmqModule from '@nestjs/microservices/client/client-rmq.js';
+import type * as ClientKafkaModule from '@nestjs/microservices/client/client-kafka.js';
+import type {
+  ClientProxy,
+  MessageHandler,
+  Server,
+} from '@nestjs/microservices';
+import type {
+  ArgumentMetadata,
+  CallHandler,
+  CanActivate,
+  ExceptionFilter,
+  ExecutionContext,
+  NestInterceptor,
+  PipeTransform,
+} from '@nestjs/common/interfaces';
+import type { Observable } from 'rxjs';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { VERSION } from './version';
 import { AttributeNames, NestType } from './enums';
+import { NestInstrumentationConfig } from './types';
+import {
+  extractContext,
+  getClientTransport,
+  getMessagingSystem,
+  getServerTransport,
+  injectHeaders,
+  injectNatsHeaders,
+  NatsHeaders,
+} from './microservices';
+
+const MICROSERVICES_COMPONENT = '@nestjs/microservices';
+
+type ExceptionFilterContext = {
+  func: ExceptionFilter['catch'];
+  exceptionMetatypes: unknown[];
+};
+
+/** The properties of the express and fastify requests read for the spans */
+interface HttpRequest {
+  method?: string;
+  originalUrl?: string;
+  url?: string;
+  route?: { path?: string };
+  routerPath?: string;
+}
+
+/** The protected members of `Server` and `ClientProxy` used here */
+interface MicroserviceInternals {
+  transportId?: number;
+  normalizePattern(pattern: unknown): string;
+}
+
+/** The protected members of `ClientNats` used here */
+interface ClientNatsInternals {
+  options: { headers?: { [key: string]: string } };
+  mergeHeaders(requestHeaders?: unknown): NatsHeaders | undefined;
+}
+
+/** The protected members of `ClientRMQ` used here */
+interface ClientRmqInternals {
+  mergeHeaders(requestHeaders?: {
+    [key: string]: string;
+  }): { [key: string]: string } | undefined;
+}
+
+/** The protected members of `ClientKafka` used here */
+interface ClientKafkaInternals {
+  serializer?: {
+    serialize(...args: unknown[]): { headers?: { [key: string]: unknown } };
+  };
+  initializeSerializer(options: unknown): void;
+}
 
 export class Instrumentation extends InstrumentationBase<typeof NestJS> {
   static readonly COMPONENT = '@nestjs/core';
@@ -36,8 +115,16 @@ export class Instrumentation extends InstrumentationBase<typeof NestJS> {
     component: Instrumentation.COMPONENT,
   };
 
-  constructor(config: InstrumentationConfig = {}) {
-    super('@opentelemetry/instrumentation-nestjs-core', VERSION);
+  constructor(config: NestInstrumentationConfig = {}) {
+    super('@opentelemetry/instrumentation-nestjs-core', VERSION, config);
+  }
+
+  override setConfig(config: NestInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): NestInstrumentationConfig {
+    return this._config as NestInstrumentationConfig;
   }
 
   init() {
@@ -60,10 +147,39 @@ export class Instrumentation extends InstrumentationBase<typeof NestJS> {
 
     module.files.push(
       this.getNestFactoryFileInstrumentation(['>=4.0.0']),
-      this.getRouterExecutionContextFileInstrumentation(['>=4.0.0'])
+      this.getRouterExecutionContextFileInstrumentation(['>=4.0.0']),
+      this.getGuardsConsumerFileInstrumentation(['>=4.0.0']),
+      this.getInterceptorsConsumerFileInstrumentation(['>=4.0.0']),
+      this.getPipesConsumerFileInstrumentation(['>=4.0.0']),
+      this.getExceptionFilterContextFileInstrumentation(['>=4.0.0'])
     );
 
-    return module;
+    const microservicesModule =
+      new InstrumentationNodeModuleDefinition<unknown>(
+        MICROSERVICES_COMPONENT,
+        ['>=7.0.0'],
+        (moduleExports, moduleVersion) => {
+          this._diag.debug(
+            `Patching ${MICROSERVICES_COMPONENT}@${moduleVersion}`
+          );
+          return moduleExports;
+        },
+        (moduleExports, moduleVersion) => {
+          this._diag.debug(
+            `Unpatching ${MICROSERVICES_COMPONENT}@${moduleVersion}`
+          );
+        }
+      );
+
+    microservicesModule.files.push(
+      this.getServerFileInstrumentation(['>=7.0.0']),
+      this.getClientProxyFileInstrumentation(['>=7.0.0']),
+      this.getClientNatsFileInstrumentation(['>=8.0.0']),
+      this.getClientRmqFileInstrumentation(['>=8.0.0']),
+      this.getClientKafkaFileInstrumentation(['>=7.0.0'])
+    );
+
+    return [module, microservicesModule];
   }
 
   getNestFactoryFileInstrumentation(versions: string[]) {
@@ -107,6 +223,229 @@ export class Instrumentation extends InstrumentationBase<typeof NestJS> {
     );
   }
 
+  getGuardsConsumerFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof GuardsConsumerModule>(
+      '@nestjs/core/guards/guards-consumer.js',
+      versions,
+      (GuardsConsumer, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          GuardsConsumer.GuardsConsumer.prototype,
+          'tryActivate',
+          createWrapTryActivate(
+            this.tracer,
+            moduleVersion,
+            () => !!this.getConfig().traceGuards
+          )
+        );
+        return GuardsConsumer;
+      },
+      GuardsConsumer => {
+        if (GuardsConsumer === undefined) return;
+        this._unwrap(GuardsConsumer.GuardsConsumer.prototype, 'tryActivate');
+      }
+    );
+  }
+
+  getInterceptorsConsumerFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof InterceptorsConsumerModule>(
+      '@nestjs/core/interceptors/interceptors-consumer.js',
+      versions,
+      (InterceptorsConsumer, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          InterceptorsConsumer.InterceptorsConsumer.prototype,
+          'intercept',
+          createWrapIntercept(
+            this.tracer,
+            moduleVersion,
+            () => !!this.getConfig().traceInterceptors
+          )
+        );
+        return InterceptorsConsumer;
+      },
+      InterceptorsConsumer => {
+        if (InterceptorsConsumer === undefined) return;
+        this._unwrap(
+          InterceptorsConsumer.InterceptorsConsumer.prototype,
+          'intercept'
+        );
+      }
+    );
+  }
+
+  getPipesConsumerFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof PipesConsumerModule>(
+      '@nestjs/core/pipes/pipes-consumer.js',
+      versions,
+      (PipesConsumer, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          PipesConsumer.PipesConsumer.prototype,
+          'applyPipes',
+          createWrapApplyPipes(
+            this.tracer,
+            moduleVersion,
+            () => !!this.getConfig().tracePipes
+          )
+        );
+        return PipesConsumer;
+      },
+      PipesConsumer => {
+        if (PipesConsumer === undefined) return;
+        this._unwrap(PipesConsumer.PipesConsumer.prototype, 'applyPipes');
+      }
+    );
+  }
+
+  getExceptionFilterContextFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<
+      typeof BaseExceptionFilterContextModule
+    >(
+      '@nestjs/core/exceptions/base-exception-filter-context.js',
+      versions,
+      (BaseExceptionFilterContext, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          BaseExceptionFilterContext.BaseExceptionFilterContext.prototype,
+          'createConcreteContext',
+          createWrapCreateConcreteContext(
+            this.tracer,
+            moduleVersion,
+            () => !!this.getConfig().traceExceptionFilters
+          )
+        );
+        return BaseExceptionFilterContext;
+      },
+      BaseExceptionFilterContext => {
+        if (BaseExceptionFilterContext === undefined) return;
+        this._unwrap(
+          BaseExceptionFilterContext.BaseExceptionFilterContext.prototype,
+          'createConcreteContext'
+        );
+      }
+    );
+  }
+
+  getServerFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof ServerModule>(
+      '@nestjs/microservices/server/server.js',
+      versions,
+      (ServerModule, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          ServerModule.Server.prototype,
+          'addHandler',
+          createWrapAddHandler(this.tracer, moduleVersion)
+        );
+        return ServerModule;
+      },
+      ServerModule => {
+        if (ServerModule === undefined) return;
+        this._unwrap(ServerModule.Server.prototype, 'addHandler');
+      }
+    );
+  }
+
+  getClientProxyFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof ClientProxyModule>(
+      '@nestjs/microservices/client/client-proxy.js',
+      versions,
+      (ClientProxyModule, moduleVersion) => {
+        const ClientProxyPrototype = ClientProxyModule.ClientProxy.prototype;
+        this.ensureWrapped(
+          moduleVersion,
+          ClientProxyPrototype,
+          'send',
+          createWrapClientSend(this.tracer, moduleVersion)
+        );
+        this.ensureWrapped(
+          moduleVersion,
+          ClientProxyPrototype,
+          'emit',
+          createWrapClientEmit(this.tracer, moduleVersion)
+        );
+        return ClientProxyModule;
+      },
+      ClientProxyModule => {
+        if (ClientProxyModule === undefined) return;
+        this._unwrap(ClientProxyModule.ClientProxy.prototype, 'send');
+        this._unwrap(ClientProxyModule.ClientProxy.prototype, 'emit');
+      }
+    );
+  }
+
+  getClientNatsFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof ClientNatsModule>(
+      '@nestjs/microservices/client/client-nats.js',
+      versions,
+      (ClientNatsModule, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          ClientNatsModule.ClientNats.prototype,
+          'mergeHeaders',
+          wrapNatsMergeHeaders
+        );
+        return ClientNatsModule;
+      },
+      ClientNatsModule => {
+        if (ClientNatsModule === undefined) return;
+        this._unwrap(
+          ClientNatsModule.ClientNats
+            .prototype as unknown as ClientNatsInternals,
+          'mergeHeaders'
+        );
+      }
+    );
+  }
+
+  getClientRmqFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof ClientRmqModule>(
+      '@nestjs/microservices/client/client-rmq.js',
+      versions,
+      (ClientRmqModule, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          ClientRmqModule.ClientRMQ.prototype,
+          'mergeHeaders',
+          wrapRmqMergeHeaders
+        );
+        return ClientRmqModule;
+      },
+      ClientRmqModule => {
+        if (ClientRmqModule === undefined) return;
+        this._unwrap(
+          ClientRmqModule.ClientRMQ.prototype as unknown as ClientRmqInternals,
+          'mergeHeaders'
+        );
+      }
+    );
+  }
+
+  getClientKafkaFileInstrumentation(versions: string[]) {
+    return new InstrumentationNodeModuleFile<typeof ClientKafkaModule>(
+      '@nestjs/microservices/client/client-kafka.js',
+      versions,
+      (ClientKafkaModule, moduleVersion) => {
+        this.ensureWrapped(
+          moduleVersion,
+          ClientKafkaModule.ClientKafka.prototype,
+          'initializeSerializer',
+          wrapKafkaInitializeSerializer
+        );
+        return ClientKafkaModule;
+      },
+      ClientKafkaModule => {
+        if (ClientKafkaModule === undefined) return;
+        this._unwrap(
+          ClientKafkaModule.ClientKafka
+            .prototype as unknown as ClientKafkaInternals,
+          'initializeSerializer'
+        );
+      }
+    );
+  }
+
   private ensureWrapped(
     moduleVersion: string | undefined,
     obj: any,
@@ -130,9 +469,9 @@ function createWrapNestFactoryCreate(
   return function wrapCreate(original: typeof NestFactory.create) {
     return function createWithTrace(
       this: typeof NestFactory,
-      nestModule: any
-      /* serverOrOptions */
+      ...args: Parameters<typeof original>
     ) {
+      const [nestModule] = args;
       const span = tracer.startSpan('Create Nest App', {
         attributes: {
           ...Instrumentation.COMMON_ATTRIBUTES,
@@ -145,7 +484,7 @@ function createWrapNestFactoryCreate(
 
       return api.context.with(spanContext, async () => {
         try {
-          return await original.apply(this, arguments as any);
+          return await original.apply(this, args);
         } catch (e) {
           throw addError(span, e);
         } finally {
@@ -162,17 +501,16 @@ function createWrapCreateHandler(tracer: api.Tracer, moduleVersion?: string) {
   ) {
     return function createHandlerWithTrace(
       this: RouterExecutionContext,
-      instance: Controller,
-      callback: (...args: any[]) => unknown
+      ...args: Parameters<typeof original>
     ) {
-      arguments[1] = createWrapHandler(tracer, moduleVersion, callback);
-      const handler = original.apply(this, arguments as any);
+      const [instance, callback] = args;
+      args[1] = createWrapHandler(tracer, moduleVersion, callback);
+      const handler = original.apply(this, args);
       return function (
-        this: any,
-        req: any,
-        res: any,
-        next: (...args: any[]) => unknown
+        this: unknown,
+        ...handlerArgs: Parameters<typeof handler>
       ) {
+        const req = handlerArgs[0] as HttpRequest;
         const callbackName = callback.name;
         const instanceName =
           instance.constructor && instance.constructor.name
@@ -198,7 +536,7 @@ function createWrapCreateHandler(tracer: api.Tracer, moduleVersion?: string) {
 
         return api.context.with(spanContext, async () => {
           try {
-            return await handler.apply(this, arguments as any);
+            return await handler.apply(this, handlerArgs);
           } catch (e) {
             throw addError(span, e);
           } finally {
@@ -253,6 +591,645 @@ function createWrapHandler(
   return wrappedHandler;
 }
 
+function createWrapTryActivate(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  isEnabled: () => boolean
+) {
+  return function wrapTryActivate(original: GuardsConsumer['tryActivate']) {
+    return function tryActivateWithTrace(
+      this: GuardsConsumer,
+      ...args: Parameters<typeof original>
+    ) {
+      const [guards, , instance, callback] = args;
+      if (isEnabled() && Array.isArray(guards)) {
+        const consumer = this;
+        args[0] = guards.map((guard): CanActivate => {
+          const guardName = getInstanceName(guard, 'UnnamedGuard');
+          return {
+            canActivate(context: ExecutionContext) {
+              const span = tracer.startSpan(guardName, {
+                attributes: {
+                  ...Instrumentation.COMMON_ATTRIBUTES,
+                  [AttributeNames.VERSION]: moduleVersion,
+                  [AttributeNames.TYPE]: NestType.GUARD,
+                  [AttributeNames.GUARD]: guardName,
+                  [AttributeNames.CONTROLLER]: getInstanceName(
+                    instance,
+                    'UnnamedInstance'
+                  ),
+                  [AttributeNames.CALLBACK]: callback.name,
+                },
+              });
+              // resolved here, the span covers the guard's observables too
+              return endSpanWhenSettled(span, () =>
+                consumer.pickResult(guard.canActivate(context))
+              );
+            },
+          };
+        });
+      }
+      return original.apply(this, args);
+    };
+  };
+}
+
+function createWrapIntercept(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  isEnabled: () => boolean
+) {
+  return function wrapIntercept(original: InterceptorsConsumer['intercept']) {
+    return function interceptWithTrace(
+      this: InterceptorsConsumer,
+      ...args: Parameters<typeof original>
+    ) {
+      const [interceptors, , instance, callback] = args;
+      if (isEnabled() && Array.isArray(interceptors)) {
+        args[0] = interceptors.map(interceptor =>
+          createTracedInterceptor(
+            tracer,
+            moduleVersion,
+            interceptor,
+            getInstanceName(instance, 'UnnamedInstance'),
+            callback.name
+          )
+        );
+      }
+      return original.apply(this, args);
+    };
+  };
+}
+
+/**
+ * Traces the work of an interceptor in two spans: `before` from the call of
+ * `intercept()` until it calls `next.handle()`, and `after` from the first
+ * notification of the handled observable until the observable returned by
+ * the interceptor terminates.
+ */
+function createTracedInterceptor(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  interceptor: NestInterceptor,
+  instanceName: string,
+  callbackName: string
+): NestInterceptor {
+  const interceptorName = getInstanceName(interceptor, 'UnnamedInterceptor');
+  const startSpan = (phase: 'before' | 'after', parentContext: api.Context) =>
+    tracer.startSpan(
+      `${interceptorName}.${phase}`,
+      {
+        attributes: {
+          ...Instrumentation.COMMON_ATTRIBUTES,
+          [AttributeNames.VERSION]: moduleVersion,
+          [AttributeNames.TYPE]: NestType.INTERCEPTOR,
+          [AttributeNames.INTERCEPTOR]: interceptorName,
+          [AttributeNames.INTERCEPTOR_PHASE]: phase,
+          [AttributeNames.CONTROLLER]: instanceName,
+          [AttributeNames.CALLBACK]: callbackName,
+        },
+      },
+      parentContext
+    );
+
+  return {
+    intercept(context: ExecutionContext, next: CallHandler) {
+      const parentContext = api.context.active();
+      const beforeSpan = startSpan('before', parentContext);
+      let afterSpan: api.Span | undefined;
+      let handled = false;
+
+      const handler: CallHandler = {
+        handle() {
+          if (!handled) {
+            handled = true;
+            beforeSpan.end();
+          }
+          // the next interceptors and the handler are siblings of this one
+          const handled$ = api.context.with(parentContext, () => next.handle());
+          return observeTermination(handled$, {
+            onNotification: () => {
+              afterSpan = afterSpan || startSpan('after', parentContext);
+            },
+          });
+        },
+      };
+
+      const endSpans = (error?: Error) => {
+        const span = afterSpan || (!handled ? beforeSpan : undefined);
+        handled = true;
+        if (span) {
+          if (error) addError(span, error);
+          span.end();
+        }
+      };
+
+      const onResult = (result: Observable<unknown>) => {
+        if (isObservable(result)) {
+          return observeTermination(result, {
+            onError: endSpans,
+            onComplete: () => endSpans(),
+          });
+        }
+        endSpans();
+        return result;
+      };
+
+      let result;
+      try {
+        result = api.context.with(
+          api.trace.setSpan(parentContext, beforeSpan),
+          () => interceptor.intercept(context, handler)
+        );
+      } catch (e) {
+        endSpans(e);
+        throw e;
+      }
+      return isPromise(result)
+        ? result.then(onResult, e => {
+            endSpans(e);
+            throw e;
+          })
+        : onResult(result);
+    },
+  };
+}
+
+function createWrapApplyPipes(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  isEnabled: () => boolean
+) {
+  return function wrapApplyPipes(original: PipesConsumer['applyPipes']) {
+    return function applyPipesWithTrace(
+      this: PipesConsumer,
+      ...args: Parameters<typeof original>
+    ) {
+      const transforms = args[2];
+      if (isEnabled() && Array.isArray(transforms)) {
+        args[2] = transforms.map((pipe): PipeTransform => {
+          const pipeName = getInstanceName(pipe, 'UnnamedPipe');
+          return {
+            transform(value: unknown, metadata: ArgumentMetadata) {
+              const span = tracer.startSpan(pipeName, {
+                attributes: {
+                  ...Instrumentation.COMMON_ATTRIBUTES,
+                  [AttributeNames.VERSION]: moduleVersion,
+                  [AttributeNames.TYPE]: NestType.PIPE,
+                  [AttributeNames.PIPE]: pipeName,
+                },
+              });
+              return endSpanWhenSettled(span, () =>
+                pipe.transform(value, metadata)
+              );
+            },
+          };
+        });
+      }
+      return original.apply(this, args);
+    };
+  };
+}
+
+function createWrapCreateConcreteContext(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  isEnabled: () => boolean
+) {
+  return function wrapCreateConcreteContext(
+    original: BaseExceptionFilterContext['createConcreteContext']
+  ) {
+    return function createConcreteContextWithTrace(
+      this: BaseExceptionFilterContext,
+      ...args: Parameters<typeof original>
+    ) {
+      const [metadata, contextId, inquirerId] = args;
+      const filters: ExceptionFilterContext[] = original.apply(this, args);
+      if (!Array.isArray(filters) || !filters.length) {
+        return filters;
+      }
+      // `filters` only holds the bound `catch` methods, resolve the instances
+      // again the same way to name the spans after them
+      const instances = (metadata as Array<Function | ExceptionFilter>)
+        .filter(
+          filter =>
+            filter &&
+            (typeof (filter as ExceptionFilter).catch === 'function' ||
+              (filter as Function).name)
+        )
+        .map(filter => this.getFilterInstance(filter, contextId, inquirerId))
+        .filter(instance => !!instance);
+
+      return filters.map((filter, i) => {
+        const filterName = getInstanceName(
+          instances[i],
+          'UnnamedExceptionFilter'
+        );
+        return {
+          ...filter,
+          func(...funcArgs: Parameters<ExceptionFilter['catch']>) {
+            if (!isEnabled()) {
+              return filter.func.apply(this, funcArgs);
+            }
+            const span = tracer.startSpan(filterName, {
+              attributes: {
+                ...Instrumentation.COMMON_ATTRIBUTES,
+                [AttributeNames.VERSION]: moduleVersion,
+                [AttributeNames.TYPE]: NestType.EXCEPTION_FILTER,
+                [AttributeNames.EXCEPTION_FILTER]: filterName,
+              },
+            });
+            return endSpanWhenSettled(span, () =>
+              filter.func.apply(this, funcArgs)
+            );
+          },
+        };
+      });
+    };
+  };
+}
+
+function createWrapAddHandler(tracer: api.Tracer, moduleVersion?: string) {
+  return function wrapAddHandler(original: Server['addHandler']) {
+    return function addHandlerWithTrace(
+      this: Server,
+      ...args: Parameters<typeof original>
+    ) {
+      const [pattern, callback, isEventHandler] = args;
+      const server = this as unknown as MicroserviceInternals;
+      const transport = getServerTransport(server.transportId);
+      // gRPC calls are traced by the instrumentation of the gRPC library
+      if (transport !== 'grpc') {
+        args[1] = createWrapMessageHandler(
+          tracer,
+          moduleVersion,
+          server.normalizePattern(pattern),
+          transport,
+          callback,
+          !!isEventHandler
+        );
+      }
+      return original.apply(this, args);
+    };
+  };
+}
+
+function createWrapMessageHandler(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  pattern: string,
+  transport: string | undefined,
+  handler: MessageHandler,
+  isEventHandler: boolean
+) {
+  const wrappedHandler: MessageHandler = function (
+    this: unknown,
+    ...args: Parameters<MessageHandler>
+  ) {
+    const parentContext = extractContext(transport, args[1]);
+    const span = tracer.startSpan(
+      `${pattern} process`,
+      {
+        kind: api.SpanKind.CONSUMER,
+        attributes: {
+          ...Instrumentation.COMMON_ATTRIBUTES,
+          [AttributeNames.VERSION]: moduleVersion,
+          [AttributeNames.TYPE]: isEventHandler
+            ? NestType.EVENT_HANDLER
+            : NestType.MESSAGE_HANDLER,
+          [AttributeNames.PATTERN]: pattern,
+          [AttributeNames.TRANSPORT]: transport,
+          ...getMessagingAttributes(pattern, transport),
+          [SemanticAttributes.MESSAGING_OPERATION]: 'process',
+        },
+      },
+      parentContext
+    );
+    const spanContext = api.trace.setSpan(parentContext, span);
+
+    return api.context.with(spanContext, async () => {
+      let result;
+      try {
+        result = await handler.apply(this, args);
+      } catch (e) {
+        addError(span, e);
+        span.end();
+        throw e;
+      }
+      // the response of a message is sent once its observable terminates
+      if (isObservable(result)) {
+        return observeTermination(result, {
+          onError: error => {
+            addError(span, error);
+            span.end();
+          },
+          onComplete: () => span.end(),
+        });
+      }
+      span.end();
+      return result;
+    });
+  };
+
+  // the handlers of an event are chained through `next`, set by the server
+  Object.defineProperty(wrappedHandler, 'next', {
+    get: () => handler.next,
+    set: (next: MessageHandler['next']) => (handler.next = next),
+  });
+  return wrappedHandler;
+}
+
+function createWrapClientSend(tracer: api.Tracer, moduleVersion?: string) {
+  return function wrapSend(original: ClientProxy['send']) {
+    return function sendWithTrace(
+      this: ClientProxy,
+      ...args: Parameters<typeof original>
+    ) {
+      const source = original.apply(this, args);
+      const transport = getClientTransport(this);
+      const ObservableClass = getObservableClass(source);
+      if (transport === 'grpc' || !ObservableClass) {
+        return source;
+      }
+      const route = (this as unknown as MicroserviceInternals).normalizePattern(
+        args[0]
+      );
+
+      // the message is only published once the observable is subscribed to
+      return new ObservableClass(subscriber => {
+        const span = startProducerSpan(
+          tracer,
+          moduleVersion,
+          route,
+          transport,
+          NestType.MESSAGE_SEND
+        );
+        let ended = false;
+        const endSpan = (error?: Error) => {
+          if (ended) return;
+          ended = true;
+          if (error) addError(span, error);
+          span.end();
+        };
+        const subscription = api.context.with(
+          api.trace.setSpan(api.context.active(), span),
+          () =>
+            observeTermination(source, {
+              onError: endSpan,
+              onComplete: () => endSpan(),
+            }).subscribe(subscriber)
+        );
+        return () => {
+          subscription.unsubscribe();
+          endSpan();
+        };
+      });
+    };
+  };
+}
+
+function createWrapClientEmit(tracer: api.Tracer, moduleVersion?: string) {
+  return function wrapEmit(original: ClientProxy['emit']) {
+    return function emitWithTrace(
+      this: ClientProxy,
+      ...args: Parameters<typeof original>
+    ) {
+      const transport = getClientTransport(this);
+      if (transport === 'grpc') {
+        return original.apply(this, args);
+      }
+      const span = startProducerSpan(
+        tracer,
+        moduleVersion,
+        (this as unknown as MicroserviceInternals).normalizePattern(args[0]),
+        transport,
+        NestType.EVENT_EMIT
+      );
+      // the event is dispatched right away, in the context of the span
+      const result = api.context.with(
+        api.trace.setSpan(api.context.active(), span),
+        () => original.apply(this, args)
+      );
+      if (isObservable(result)) {
+        result.subscribe({
+          error: (error: Error) => {
+            addError(span, error);
+            span.end();
+          },
+          complete: () => span.end(),
+        });
+      } else {
+        span.end();
+      }
+      return result;
+    };
+  };
+}
+
+function startProducerSpan(
+  tracer: api.Tracer,
+  moduleVersion: string | undefined,
+  pattern: string,
+  transport: string | undefined,
+  type: NestType
+) {
+  return tracer.startSpan(`${pattern} send`, {
+    kind: api.SpanKind.PRODUCER,
+    attributes: {
+      ...Instrumentation.COMMON_ATTRIBUTES,
+      [AttributeNames.VERSION]: moduleVersion,
+      [AttributeNames.TYPE]: type,
+      [AttributeNames.PATTERN]: pattern,
+      [AttributeNames.TRANSPORT]: transport,
+      ...getMessagingAttributes(pattern, transport),
+    },
+  });
+}
+
+function getMessagingAttributes(
+  pattern: string,
+  transport: string | undefined
+): api.SpanAttributes {
+  return transport
+    ? {
+        [SemanticAttributes.MESSAGING_SYSTEM]: getMessagingSystem(transport),
+        [SemanticAttributes.MESSAGING_DESTINATION]: pattern,
+      }
+    : {};
+}
+
+function wrapNatsMergeHeaders(original: ClientNatsInternals['mergeHeaders']) {
+  return function mergeHeadersWithTrace(
+    this: ClientNatsInternals,
+    ...args: Parameters<typeof original>
+  ) {
+    let headers = original.apply(this, args);
+    if (!api.trace.getSpan(api.context.active())) {
+      return headers;
+    }
+    if (!headers) {
+      // `MsgHdrs` can only be created by the `nats` package, which the client
+      // only does when headers are configured
+      const options = this.options;
+      this.options = { ...options, headers: {} };
+      try {
+        headers = original.apply(this, args);
+      } finally {
+        this.options = options;
+      }
+    }
+    if (headers) {
+      injectNatsHeaders(headers);
+    }
+    return headers;
+  };
+}
+
+function wrapRmqMergeHeaders(original: ClientRmqInternals['mergeHeaders']) {
+  return function mergeHeadersWithTrace(
+    this: ClientRmqInternals,
+    ...args: Parameters<typeof original>
+  ) {
+    const headers = original.apply(this, args);
+    if (!api.trace.getSpan(api.context.active())) {
+      return headers;
+    }
+    const tracedHeaders = { ...headers };
+    injectHeaders(tracedHeaders);
+    return tracedHeaders;
+  };
+}
+
+function wrapKafkaInitializeSerializer(
+  original: ClientKafkaInternals['initializeSerializer']
+) {
+  return function initializeSerializerWithTrace(
+    this: ClientKafkaInternals,
+    ...args: Parameters<typeof original>
+  ) {
+    const result = original.apply(this, args);
+    const serializer = this.serializer;
+    if (serializer && typeof serializer.serialize === 'function') {
+      this.serializer = Object.create(serializer, {
+        serialize: {
+          value: (...args: unknown[]) => {
+            const message = serializer.serialize(...args);
+            if (message && message.headers) {
+              injectHeaders(message.headers);
+            }
+            return message;
+          },
+        },
+      });
+    }
+    return result;
+  };
+}
+
+/**
+ * Runs `fn` in the context of `span` and ends the span once `fn` returned or,
+ * when it returns a promise, once that promise has settled.
+ */
+function endSpanWhenSettled<T>(span: api.Span, fn: () => T): T {
+  let result: T;
+  try {
+    result = api.context.with(
+      api.trace.setSpan(api.context.active(), span),
+      fn
+    );
+  } catch (e) {
+    addError(span, e);
+    span.end();
+    throw e;
+  }
+  if (isPromise(result)) {
+    return result.then(
+      value => {
+        span.end();
+        return value;
+      },
+      e => {
+        addError(span, e);
+        span.end();
+        throw e;
+      }
+    ) as unknown as T;
+  }
+  span.end();
+  return result;
+}
+
+/**
+ * Mirrors an rxjs `Observable` into a new one of the same library, calling the
+ * callbacks on its notifications. rxjs itself isn't a dependency, so the
+ * `Observable` class is looked up from the instance.
+ */
+function observeTermination<T>(
+  source: Observable<T>,
+  callbacks: {
+    onNotification?: () => void;
+    onError?: (error: Error) => void;
+    onComplete?: () => void;
+  }
+) {
+  const ObservableClass = getObservableClass(source);
+  if (!ObservableClass) {
+    return source;
+  }
+  return new ObservableClass<T>(subscriber =>
+    source.subscribe({
+      next(value: T) {
+        callbacks.onNotification?.();
+        subscriber.next(value);
+      },
+      error(error: Error) {
+        callbacks.onNotification?.();
+        callbacks.onError?.(error);
+        subscriber.error(error);
+      },
+      complete() {
+        callbacks.onNotification?.();
+        callbacks.onComplete?.();
+        subscriber.complete();
+      },
+    })
+  );
+}
+
+// the base class of the prototype chain defining `subscribe`, ie. `Observable`
+function getObservableClass(observable: object): typeof Observable | undefined {
+  let proto = Object.getPrototypeOf(observable);
+  while (proto) {
+    const parent = Object.getPrototypeOf(proto);
+    if (!parent || typeof parent.subscribe !== 'function') {
+      return proto.constructor;
+    }
+    proto = parent;
+  }
+  return undefined;
+}
+
+function isObservable(value: unknown): value is Observable<unknown> {
+  const observable = value as Observable<unknown> | undefined;
+  return (
+    !!observable &&
+    typeof observable.subscribe === 'function' &&
+    typeof observable.pipe === 'function'
+  );
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return !!value && typeof (value as Promise<unknown>).then === 'function';
+}
+
+function getInstanceName(instance: unknown, fallback: string) {
+  const constructor = instance ? (instance as object).constructor : undefined;
+  // plain objects are named after their role rather than `Object`
+  return constructor && constructor !== Object && constructor.name
+    ? constructor.name
+    : fallback;
+}
+
 const addError = (span: api.Span, error: Error) => {
   span.recordException(error);
   span.setStatus({ code: api.SpanStatusCode.ERROR, message: error.message });
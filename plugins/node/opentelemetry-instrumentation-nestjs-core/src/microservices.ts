@@ -0,0 +1,125 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as api from '@opentelemetry/api';
+
+/** Names of the `Transport` enum of `@nestjs/microservices`, by value */
+const TRANSPORTS = ['tcp', 'redis', 'nats', 'mqtt', 'grpc', 'rmq', 'kafka'];
+
+const CLIENT_TRANSPORTS: { [className: string]: string } = {
+  ClientTCP: 'tcp',
+  ClientRedis: 'redis',
+  ClientNats: 'nats',
+  ClientMqtt: 'mqtt',
+  ClientGrpcProxy: 'grpc',
+  ClientRMQ: 'rmq',
+  ClientKafka: 'kafka',
+};
+
+/** The `transportId` of a server, undefined for custom transport strategies */
+export function getServerTransport(transportId?: number): string | undefined {
+  return transportId === undefined ? undefined : TRANSPORTS[transportId];
+}
+
+/** The transport of the built-in client a `ClientProxy` extends */
+export function getClientTransport(client: object): string | undefined {
+  let proto = Object.getPrototypeOf(client);
+  while (proto && proto.constructor) {
+    const transport = CLIENT_TRANSPORTS[proto.constructor.name];
+    if (transport) {
+      return transport;
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return undefined;
+}
+
+export function getMessagingSystem(transport: string) {
+  return transport === 'rmq' ? 'rabbitmq' : transport;
+}
+
+/** Kafka header values are strings or buffers */
+const kafkaGetter: api.TextMapGetter<{ [key: string]: unknown }> = {
+  keys: carrier => Object.keys(carrier),
+  get: (carrier, key) => {
+    const value = carrier[key];
+    return Buffer.isBuffer(value) ? value.toString() : (value as string);
+  },
+};
+
+/** The `MsgHdrs` of the `nats` package */
+export interface NatsHeaders {
+  keys(): string[];
+  has(key: string): boolean;
+  get(key: string): string;
+  set(key: string, value: string): void;
+}
+
+/** The parts of the Kafka, NATS and RMQ contexts holding message headers */
+interface TransportContext {
+  getMessage?(): {
+    headers?: { [key: string]: unknown };
+    properties?: { headers?: { [key: string]: unknown } };
+  };
+  getHeaders?(): NatsHeaders | undefined;
+}
+
+const natsGetter: api.TextMapGetter<NatsHeaders> = {
+  keys: carrier => carrier.keys(),
+  get: (carrier, key) => (carrier.has(key) ? carrier.get(key) : undefined),
+};
+
+const natsSetter: api.TextMapSetter<NatsHeaders> = {
+  set: (carrier, key, value) => carrier.set(key, value),
+};
+
+/**
+ * Extracts the context propagated in the headers of the message a handler
+ * was called for. Transports without headers keep the active context.
+ */
+export function extractContext(transport: string | undefined, ctx: unknown) {
+  const active = api.context.active();
+  const context = ctx as TransportContext | undefined;
+  switch (transport) {
+    case 'kafka': {
+      const headers = context?.getMessage?.()?.headers;
+      return headers
+        ? api.propagation.extract(active, headers, kafkaGetter)
+        : active;
+    }
+    case 'nats': {
+      const headers = context?.getHeaders?.();
+      return headers
+        ? api.propagation.extract(active, headers, natsGetter)
+        : active;
+    }
+    case 'rmq': {
+      const headers = context?.getMessage?.()?.properties?.headers;
+      return headers ? api.propagation.extract(active, headers) : active;
+    }
+    default:
+      return active;
+  }
+}
+
+/** Injects the active context into headers held in a plain object */
+export function injectHeaders(headers: { [key: string]: unknown }) {
+  api.propagation.inject(api.context.active(), headers);
+}
+
+export function injectNatsHeaders(headers: NatsHeaders) {
+  api.propagation.inject(api.context.active(), headers, natsSetter);
+}
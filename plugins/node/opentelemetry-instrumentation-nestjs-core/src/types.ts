@@ -0,0 +1,31 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+
+export interface NestInstrumentationConfig extends InstrumentationConfig {
+  /** Create a span for each guard checking a request. Defaults to false */
+  traceGuards?: boolean;
+  /**
+   * Create spans for the work of each interceptor before and after
+   * `next.handle()`. Defaults to false
+   */
+  traceInterceptors?: boolean;
+  /** Create a span for each pipe transforming an argument. Defaults to false */
+  tracePipes?: boolean;
+  /** Create a span for each exception filter catching an error. Defaults to false */
+  traceExceptionFilters?: boolean;
+}
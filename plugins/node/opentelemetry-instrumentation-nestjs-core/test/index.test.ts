@@ -188,6 +188,160 @@ describe('nestjs-core', () => {
       },
     ]);
   });
+
+  it('should not capture guards, interceptors, pipes and filters by default', async () => {
+    assert.strictEqual(await request('/guarded'), 'Hello, guarded!\n');
+    assert.strictEqual(await request('/piped?name=Bob'), 'Hello, Bob!\n');
+
+    const types = memoryExporter
+      .getFinishedSpans()
+      .map(span => span.attributes['nestjs.type']);
+    assert.deepStrictEqual(types, [
+      'app_creation',
+      'handler',
+      'request_context',
+      'handler',
+      'request_context',
+    ]);
+  });
+
+  it('should capture guards', async () => {
+    instrumentation.setConfig({ traceGuards: true });
+    const instance = 'GuardedController';
+    const callback = 'getGuarded';
+
+    assert.strictEqual(await request('/guarded'), 'Hello, guarded!\n');
+
+    assertSpans(memoryExporter.getFinishedSpans(), [
+      {
+        type: 'app_creation',
+        service: 'test',
+        name: 'Create Nest App',
+        module: 'AppModule',
+      },
+      {
+        type: 'guard',
+        service: 'test',
+        name: 'MyGuard',
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      {
+        type: 'handler',
+        service: 'test',
+        name: callback,
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      null,
+    ]);
+    const [, guardSpan] = memoryExporter.getFinishedSpans();
+    assert.strictEqual(guardSpan.attributes['nestjs.guard'], 'MyGuard');
+    assert.strictEqual(guardSpan.attributes['nestjs.controller'], instance);
+  });
+
+  it('should capture interceptors before and after the handler', async () => {
+    instrumentation.setConfig({ traceInterceptors: true });
+    const instance = 'InterceptedController';
+    const callback = 'getIntercepted';
+
+    assert.strictEqual(await request('/intercepted'), 'HELLO, INTERCEPTED!\n');
+
+    assertSpans(memoryExporter.getFinishedSpans(), [
+      {
+        type: 'app_creation',
+        service: 'test',
+        name: 'Create Nest App',
+        module: 'AppModule',
+      },
+      {
+        type: 'interceptor',
+        service: 'test',
+        name: 'YellInterceptor.before',
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      {
+        type: 'handler',
+        service: 'test',
+        name: callback,
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      {
+        type: 'interceptor',
+        service: 'test',
+        name: 'YellInterceptor.after',
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      null,
+    ]);
+    const [, beforeSpan, , afterSpan] = memoryExporter.getFinishedSpans();
+    assert.strictEqual(
+      beforeSpan.attributes['nestjs.interceptor'],
+      'YellInterceptor'
+    );
+    assert.strictEqual(
+      beforeSpan.attributes['nestjs.interceptor.phase'],
+      'before'
+    );
+    assert.strictEqual(
+      afterSpan.attributes['nestjs.interceptor.phase'],
+      'after'
+    );
+  });
+
+  it('should capture pipes', async () => {
+    instrumentation.setConfig({ tracePipes: true });
+    const instance = 'PipedController';
+    const callback = 'getPiped';
+
+    assert.strictEqual(await request('/piped?name=Bob'), 'Hello, Bob!\n');
+
+    assertSpans(memoryExporter.getFinishedSpans(), [
+      {
+        type: 'app_creation',
+        service: 'test',
+        name: 'Create Nest App',
+        module: 'AppModule',
+      },
+      {
+        type: 'pipe',
+        service: 'test',
+        name: 'GreetingPipe',
+        parentSpanName: `${instance}.${callback}`,
+      },
+      {
+        type: 'handler',
+        service: 'test',
+        name: callback,
+        callback,
+        parentSpanName: `${instance}.${callback}`,
+      },
+      null,
+    ]);
+  });
+
+  it('should capture exception filters', async () => {
+    instrumentation.setConfig({ traceExceptionFilters: true });
+
+    assert.strictEqual(await request('/filtered'), 'Filtered!\n');
+
+    const spans = memoryExporter.getFinishedSpans();
+    assert.strictEqual(spans.length, 4);
+    const filterSpan = spans[3];
+    assert.strictEqual(filterSpan.name, 'TeapotFilter');
+    assert.strictEqual(
+      filterSpan.attributes['nestjs.type'],
+      'exception_filter'
+    );
+    assert.strictEqual(
+      filterSpan.attributes['nestjs.exception_filter'],
+      'TeapotFilter'
+    );
+    assert.deepStrictEqual(filterSpan.status, { code: SpanStatusCode.UNSET });
+  });
 });
 
 const assertSpans = (actualSpans: any[], expectedSpans: any[]) => {
@@ -0,0 +1,268 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import * as assert from 'assert';
+import { lastValueFrom } from 'rxjs';
+import { NestInstrumentation } from '../src';
+import { Microservice, setupMicroservice } from './setup';
+
+const instrumentation = new NestInstrumentation();
+instrumentation.enable();
+instrumentation.disable();
+const memoryExporter = new InMemorySpanExporter();
+
+import type * as microservicesTypes from '@nestjs/microservices';
+
+describe('nestjs-microservices', () => {
+  const provider = new NodeTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(memoryExporter));
+  instrumentation.setTracerProvider(provider);
+  const tracer = provider.getTracer('test');
+  let contextManager: AsyncHooksContextManager;
+  let microservices: typeof microservicesTypes;
+
+  before(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  after(() => {
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    contextManager = new AsyncHooksContextManager();
+    context.setGlobalContextManager(contextManager.enable());
+    instrumentation.enable();
+    microservices = require('@nestjs/microservices');
+  });
+
+  afterEach(() => {
+    memoryExporter.reset();
+    context.disable();
+    instrumentation.disable();
+  });
+
+  describe('TCP transport', () => {
+    const greetings: string[] = [];
+    let greeted: () => void;
+    let app: Microservice;
+    let client: microservicesTypes.ClientProxy;
+
+    beforeEach(async () => {
+      app = await setupMicroservice(name => {
+        greetings.push(name);
+        greeted();
+      });
+      client = microservices.ClientProxyFactory.create({
+        transport: microservices.Transport.TCP,
+        options: { host: 'localhost', port: app.port },
+      });
+      memoryExporter.reset();
+    });
+
+    afterEach(async () => {
+      client.close();
+      await app.close();
+    });
+
+    it('should capture messages', async () => {
+      const sum = await lastValueFrom(client.send('sum', [1, 2, 3]));
+      assert.strictEqual(sum, 6);
+
+      const [consumerSpan, producerSpan] = memoryExporter.getFinishedSpans();
+      assertMessagingSpan(producerSpan, 'sum send', SpanKind.PRODUCER, {
+        type: 'message_send',
+        pattern: 'sum',
+      });
+      assertMessagingSpan(consumerSpan, 'sum process', SpanKind.CONSUMER, {
+        type: 'message_handler',
+        pattern: 'sum',
+      });
+      assert.strictEqual(
+        consumerSpan.attributes[SemanticAttributes.MESSAGING_OPERATION],
+        'process'
+      );
+    });
+
+    it('should capture failed messages', async () => {
+      const error = await new Promise(resolve =>
+        client.send({ cmd: 'fail' }, {}).subscribe({ error: resolve })
+      );
+      assert.deepStrictEqual(error, { status: 'error', message: 'failed' });
+
+      const [consumerSpan, producerSpan] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(producerSpan.name, '{"cmd":"fail"} send');
+      assert.strictEqual(producerSpan.status.code, SpanStatusCode.ERROR);
+      assert.strictEqual(consumerSpan.name, '{"cmd":"fail"} process');
+      assert.strictEqual(consumerSpan.status.code, SpanStatusCode.ERROR);
+    });
+
+    it('should not publish messages before subscribing', () => {
+      client.send('sum', [1, 2]);
+      assert.strictEqual(memoryExporter.getFinishedSpans().length, 0);
+    });
+
+    it('should capture events', async () => {
+      const received = new Promise<void>(resolve => (greeted = resolve));
+      const parentSpan = tracer.startSpan('parent');
+      await context.with(trace.setSpan(context.active(), parentSpan), () =>
+        lastValueFrom(client.emit('greeted', 'Bob'))
+      );
+      await received;
+      // the handler span ends once the handler has returned
+      await new Promise(resolve => setImmediate(resolve));
+      parentSpan.end();
+
+      assert.deepStrictEqual(greetings, ['Bob']);
+      const producerSpan = memoryExporter
+        .getFinishedSpans()
+        .find(span => span.kind === SpanKind.PRODUCER)!;
+      const consumerSpan = memoryExporter
+        .getFinishedSpans()
+        .find(span => span.kind === SpanKind.CONSUMER)!;
+      assertMessagingSpan(producerSpan, 'greeted send', SpanKind.PRODUCER, {
+        type: 'event_emit',
+        pattern: 'greeted',
+      });
+      assert.strictEqual(
+        producerSpan.parentSpanId,
+        parentSpan.spanContext().spanId
+      );
+      assertMessagingSpan(consumerSpan, 'greeted process', SpanKind.CONSUMER, {
+        type: 'event_handler',
+        pattern: 'greeted',
+      });
+    });
+  });
+
+  describe('context propagation', () => {
+    const traceparent =
+      '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    const createServer = (transportId: number) => {
+      const server = new (class extends microservices.Server {
+        transportId = transportId;
+        listen() {}
+        close() {}
+      })();
+      server.addHandler('sum', (async (numbers: number[]) =>
+        numbers.reduce((a, b) => a + b, 0)) as any);
+      return server.getHandlerByPattern('sum')!;
+    };
+
+    const assertExtracted = () => {
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.name, 'sum process');
+      assert.strictEqual(
+        span.spanContext().traceId,
+        '0af7651916cd43dd8448eb211c80319c'
+      );
+      assert.strictEqual(span.parentSpanId, 'b7ad6b7169203331');
+    };
+
+    it('should extract the context from RMQ message headers', async () => {
+      const handler = createServer(microservices.Transport.RMQ);
+      const ctx = new microservices.RmqContext([
+        { properties: { headers: { traceparent } } },
+        {},
+        'sum',
+      ]);
+      assert.strictEqual(await handler([1, 2], ctx), 3);
+      assertExtracted();
+    });
+
+    it('should extract the context from Kafka message headers', async () => {
+      const handler = createServer(microservices.Transport.KAFKA);
+      const ctx = new microservices.KafkaContext([
+        { headers: { traceparent: Buffer.from(traceparent) } } as any,
+        0,
+        'sum',
+      ]);
+      assert.strictEqual(await handler([1, 2], ctx), 3);
+      assertExtracted();
+    });
+
+    it('should inject the context into RMQ message headers', () => {
+      // the client is not connected, which would require amqplib
+      const client = Object.create(microservices.ClientRMQ.prototype);
+      client.options = { headers: { 'x-app': 'test' } };
+      const span = tracer.startSpan('send');
+      const headers = context.with(trace.setSpan(ROOT_CONTEXT, span), () =>
+        client.mergeHeaders()
+      );
+      assert.strictEqual(headers['x-app'], 'test');
+      assert.strictEqual(
+        headers.traceparent,
+        `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`
+      );
+    });
+
+    it('should inject the context into Kafka message headers', () => {
+      // the client is not connected, which would require kafkajs
+      const client = Object.create(microservices.ClientKafka.prototype);
+      client.initializeSerializer({});
+      const span = tracer.startSpan('send');
+      const message = context.with(trace.setSpan(ROOT_CONTEXT, span), () =>
+        client.serializer.serialize({ value: 'hello' })
+      );
+      assert.strictEqual(message.value, 'hello');
+      assert.strictEqual(
+        message.headers.traceparent,
+        `00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`
+      );
+    });
+  });
+});
+
+const assertMessagingSpan = (
+  span: ReadableSpan,
+  name: string,
+  kind: SpanKind,
+  expected: { type: string; pattern: string }
+) => {
+  assert.strictEqual(span.name, name);
+  assert.strictEqual(span.kind, kind);
+  assert.strictEqual(span.attributes.component, '@nestjs/core');
+  assert.strictEqual(span.attributes['nestjs.type'], expected.type);
+  assert.strictEqual(span.attributes['nestjs.pattern'], expected.pattern);
+  assert.strictEqual(span.attributes['nestjs.transport'], 'tcp');
+  assert.strictEqual(
+    span.attributes[SemanticAttributes.MESSAGING_SYSTEM],
+    'tcp'
+  );
+  assert.strictEqual(
+    span.attributes[SemanticAttributes.MESSAGING_DESTINATION],
+    expected.pattern
+  );
+  assert.deepStrictEqual(span.status, { code: SpanStatusCode.UNSET });
+};
@@ -15,12 +15,15 @@
  */
 import * as http from 'http';
 import * as semver from 'semver';
-import { AddressInfo } from 'net';
+import { AddressInfo, createServer } from 'net';
 import {
+  ArgumentsHost,
   CanActivate,
+  ExceptionFilter,
   ExecutionContext,
   NestInterceptor,
   CallHandler,
+  PipeTransform,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -67,7 +70,8 @@ const decorateProperty = (obj: any, propName: string, decorators: any) => {
 const makeModule = (
   name = 'Unnamed',
   handler = (...args: unknown[]) => {},
-  controllerDecorators: any[] = []
+  controllerDecorators: any[] = [],
+  paramDecorators: any[] = []
 ) => {
   const common = require('@nestjs/common');
   const methodName = `get${name}`;
@@ -81,6 +85,9 @@ const makeModule = (
 
   Controller = __decorate(controllerDecorators, Controller);
   decorateProperty(Controller.prototype, methodName, [common.Get()]);
+  paramDecorators.forEach((decorator, index) =>
+    decorator(Controller.prototype, methodName, index)
+  );
 
   let Module = class {};
   Object.defineProperty(Module, 'name', { value: `${name}Module` });
@@ -157,6 +164,27 @@ export const setup = async (version: string): Promise<App> => {
     MetadataInterceptor
   );
 
+  let GreetingPipe = class GreetingPipe implements PipeTransform {
+    transform(value: unknown): unknown {
+      return `Hello, ${value}!\n`;
+    }
+  };
+  GreetingPipe = __decorate(
+    [
+      semver.intersects(version, '^4.0.0')
+        ? common.Pipe()
+        : common.Injectable(),
+    ],
+    GreetingPipe
+  );
+
+  let TeapotFilter = class TeapotFilter implements ExceptionFilter {
+    catch(exception: unknown, host: ArgumentsHost) {
+      host.switchToHttp().getResponse().status(418).send('Filtered!\n');
+    }
+  };
+  TeapotFilter = __decorate([common.Catch()], TeapotFilter);
+
   const [UsersController, UsersModule] = makeModule(
     'Users',
     () => 'Hello, world!\n',
@@ -180,6 +208,20 @@ export const setup = async (version: string): Promise<App> => {
     [common.Controller('errors')]
   );
 
+  const [PipedController, PipedModule] = makeModule(
+    'Piped',
+    (greeting: unknown) => greeting,
+    [common.Controller('piped'), common.UsePipes(GreetingPipe)],
+    [common.Query('name')]
+  );
+  const [FilteredController, FilteredModule] = makeModule(
+    'Filtered',
+    () => {
+      throw new Error('filtered error');
+    },
+    [common.Controller('filtered'), common.UseFilters(TeapotFilter)]
+  );
+
   const [MetadataController, MetadataModule] = makeModule(
     'Metadata',
     () => 'Hello, Metadata!\n',
@@ -195,6 +237,8 @@ export const setup = async (version: string): Promise<App> => {
             ErrorModule,
             GuardedModule,
             InterceptedModule,
+            PipedModule,
+            FilteredModule,
             MetadataModule,
           ],
           controllers: [
@@ -202,6 +246,8 @@ export const setup = async (version: string): Promise<App> => {
             ErrorController,
             GuardedController,
             InterceptedController,
+            PipedController,
+            FilteredController,
             MetadataController,
           ],
         }),
@@ -217,6 +263,8 @@ export const setup = async (version: string): Promise<App> => {
             ErrorModule,
             GuardedModule,
             InterceptedModule,
+            PipedModule,
+            FilteredModule,
             MetadataModule,
           ],
           controllers: [
@@ -224,6 +272,8 @@ export const setup = async (version: string): Promise<App> => {
             ErrorController,
             GuardedController,
             InterceptedController,
+            PipedController,
+            FilteredController,
             MetadataController,
           ],
         }),
@@ -242,6 +292,66 @@ export const setup = async (version: string): Promise<App> => {
   return app as App;
 };
 
+export type Microservice = App & {
+  port: number;
+};
+
+const getFreePort = () =>
+  new Promise<number>(resolve => {
+    const server = createServer().listen(0, 'localhost', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+
+export const setupMicroservice = async (
+  onGreeted: (name: string) => void
+): Promise<Microservice> => {
+  const core = require('@nestjs/core');
+  const common = require('@nestjs/common');
+  const microservices = require('@nestjs/microservices');
+
+  let MathController = class MathController {
+    sum(numbers: number[]) {
+      return numbers.reduce((a, b) => a + b, 0);
+    }
+
+    fail() {
+      throw new microservices.RpcException('failed');
+    }
+
+    greeted(name: string) {
+      onGreeted(name);
+    }
+  };
+  MathController = __decorate([common.Controller()], MathController);
+  decorateProperty(MathController.prototype, 'sum', [
+    microservices.MessagePattern('sum'),
+  ]);
+  decorateProperty(MathController.prototype, 'fail', [
+    microservices.MessagePattern({ cmd: 'fail' }),
+  ]);
+  decorateProperty(MathController.prototype, 'greeted', [
+    microservices.EventPattern('greeted'),
+  ]);
+
+  let MathModule = class MathModule {};
+  MathModule = __decorate(
+    [common.Module({ controllers: [MathController] })],
+    MathModule
+  );
+
+  const port = await getFreePort();
+  const app = await core.NestFactory.createMicroservice(MathModule, {
+    transport: microservices.Transport.TCP,
+    options: { host: 'localhost', port },
+    logger: false,
+  });
+  await app.listen();
+
+  return { close: () => app.close(), port };
+};
+
 export const getRequester = (app: any) => {
   const port = (app.httpServer.address() as AddressInfo).port;
   return (path: string) => {
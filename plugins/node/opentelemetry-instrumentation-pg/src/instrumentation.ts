@@ -23,10 +23,21 @@ import {
   context,
   diag,
   trace,
+  HrTime,
   Span,
   SpanKind,
   SpanStatusCode,
 } from '@opentelemetry/api';
+import {
+  Histogram,
+  MeterProvider,
+  ValueType,
+} from '@opentelemetry/api-metrics';
+import { hrTime, hrTimeDuration } from '@opentelemetry/core';
+import {
+  createConnectionPoolInstruments,
+  POOL_NAME_ATTRIBUTE,
+} from '@opentelemetry/sql-common';
 import * as pgTypes from 'pg';
 import * as pgPoolTypes from 'pg-pool';
 import {
@@ -46,17 +57,52 @@ import {
 import { VERSION } from './version';
 
 const PG_POOL_COMPONENT = 'pg-pool';
+
 export class PgInstrumentation extends InstrumentationBase {
   static readonly COMPONENT = 'pg';
 
   static readonly BASE_SPAN_NAME = PgInstrumentation.COMPONENT + '.query';
 
+  // pools are tracked from their connect() until their end()
+  private _pools = new Set<PgPoolExtended>();
+  private _connectionWaitTime!: Histogram;
+
   constructor(config: PgInstrumentationConfig = {}) {
     super(
       '@opentelemetry/instrumentation-pg',
       VERSION,
       Object.assign({}, config)
     );
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._connectionWaitTime = this.meter.createHistogram(
+      'db.client.connections.wait_time',
+      {
+        description:
+          'The time it took to obtain an open connection from the pool.',
+        unit: 'ms',
+        valueType: ValueType.DOUBLE,
+      }
+    );
+    createConnectionPoolInstruments(this.meter, this._pools, {
+      getPoolName: pool => utils.getPoolName(pool.options),
+      getPoolStats: pool =>
+        pool.ended
+          ? undefined
+          : {
+              idle: pool.idleCount,
+              used: pool.totalCount - pool.idleCount,
+              max: pool.options.max,
+              pending: pool.waitingCount,
+            },
+    });
   }
 
   protected init() {
@@ -95,12 +141,23 @@ export class PgInstrumentation extends InstrumentationBase {
           'connect',
           this._getPoolConnectPatch() as never
         );
+        if (isWrapped(moduleExports.prototype.end)) {
+          this._unwrap(moduleExports.prototype, 'end');
+        }
+        this._wrap(
+          moduleExports.prototype,
+          'end',
+          this._getPoolEndPatch() as never
+        );
         return moduleExports;
       },
       moduleExports => {
         if (isWrapped(moduleExports.prototype.connect)) {
           this._unwrap(moduleExports.prototype, 'connect');
         }
+        if (isWrapped(moduleExports.prototype.end)) {
+          this._unwrap(moduleExports.prototype, 'end');
+        }
       }
     );
 
@@ -129,7 +186,12 @@ export class PgInstrumentation extends InstrumentationBase {
               params
             );
           } else {
-            span = utils.handleTextQuery.call(this, plugin.tracer, query);
+            span = utils.handleTextQuery.call(
+              this,
+              plugin.tracer,
+              plugin.getConfig() as PgInstrumentationConfig,
+              query
+            );
           }
         } else if (typeof args[0] === 'object') {
           const queryConfig = args[0] as NormalizedQueryConfig;
@@ -148,6 +210,13 @@ export class PgInstrumentation extends InstrumentationBase {
           );
         }
 
+        if (
+          (plugin.getConfig() as PgInstrumentationConfig)
+            .addSqlCommenterCommentToQueries
+        ) {
+          args[0] = utils.addSqlCommenterCommentToQuery(span, args[0]);
+        }
+
         // Bind callback to parent span
         if (args.length > 0) {
           const parentSpan = trace.getSpan(context.active());
@@ -221,10 +290,27 @@ export class PgInstrumentation extends InstrumentationBase {
     };
   }
 
+  private _getPoolEndPatch() {
+    const plugin = this;
+    return (originalEnd: typeof pgPoolTypes.prototype.end) => {
+      return function end(this: PgPoolExtended, callback?: () => void) {
+        // untrack the pool here rather than when observing the pool metrics,
+        // which never happens without a metrics SDK
+        plugin._pools.delete(this);
+        return originalEnd.call(this, callback as never);
+      };
+    };
+  }
+
   private _getPoolConnectPatch() {
     const plugin = this;
     return (originalConnect: typeof pgPoolTypes.prototype.connect) => {
       return function connect(this: PgPoolExtended, callback?: PgPoolCallback) {
+        if (!this.ending) {
+          plugin._pools.add(this);
+        }
+        const startTime = hrTime();
+        const poolName = utils.getPoolName(this.options);
         const jdbcString = utils.getJDBCString(this.options);
         // setup span
         const span = plugin.tracer.startSpan(`${PG_POOL_COMPONENT}.connect`, {
@@ -244,9 +330,16 @@ export class PgInstrumentation extends InstrumentationBase {
 
         if (callback) {
           const parentSpan = trace.getSpan(context.active());
+          const originalCallback = callback;
           callback = utils.patchCallbackPGPool(
             span,
-            callback
+            function (
+              this: PgPoolExtended,
+              ...args: Parameters<PgPoolCallback>
+            ) {
+              plugin._recordConnectionWaitTime(startTime, poolName);
+              return originalCallback.apply(this, args);
+            }
           ) as PgPoolCallback;
           // If a parent span exists, bind the callback
           if (parentSpan) {
@@ -268,12 +361,14 @@ export class PgInstrumentation extends InstrumentationBase {
               .then(result => {
                 // Return a pass-along promise which ends the span and then goes to user's orig resolvers
                 return new Promise(resolve => {
+                  plugin._recordConnectionWaitTime(startTime, poolName);
                   span.end();
                   resolve(result);
                 });
               })
               .catch((error: Error) => {
                 return new Promise((_, reject) => {
+                  plugin._recordConnectionWaitTime(startTime, poolName);
                   span.setStatus({
                     code: SpanStatusCode.ERROR,
                     message: error.message,
@@ -290,4 +385,11 @@ export class PgInstrumentation extends InstrumentationBase {
       };
     };
   }
+
+  private _recordConnectionWaitTime(startTime: HrTime, poolName: string) {
+    const [seconds, nanos] = hrTimeDuration(startTime, hrTime());
+    this._connectionWaitTime.record(seconds * 1e3 + nanos / 1e6, {
+      [POOL_NAME_ATTRIBUTE]: poolName,
+    });
+  }
 }
@@ -18,6 +18,10 @@ import * as pgTypes from 'pg';
 import * as pgPoolTypes from 'pg-pool';
 import type * as api from '@opentelemetry/api';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
+import {
+  DbStatementSanitizer,
+  DbStatementSerializer,
+} from '@opentelemetry/sql-common';
 
 export interface PgResponseHookInformation {
   data: pgTypes.QueryResult | pgTypes.QueryArrayResult;
@@ -40,6 +44,28 @@ export interface PgInstrumentationConfig extends InstrumentationConfig {
    * @default undefined
    */
   responseHook?: PgInstrumentationExecutionResponseHook;
+
+  /**
+   * How literals are stripped from the db.statement tag.
+   *
+   * @default 'obfuscate'
+   */
+  dbStatementSanitizer?: DbStatementSanitizer;
+
+  /**
+   * Custom serializer function for the db.statement tag. Takes precedence
+   * over `dbStatementSanitizer`.
+   */
+  dbStatementSerializer?: DbStatementSerializer<unknown[]>;
+
+  /**
+   * If true, a sqlcommenter comment holding the `traceparent` and
+   * `tracestate` of the query span is appended to the query text, unless the
+   * query already contains a comment or is a named (prepared) query.
+   *
+   * @default false
+   */
+  addSqlCommenterCommentToQueries?: boolean;
 }
 
 export type PostgresCallback = (err: Error, res: object) => unknown;
@@ -76,8 +102,11 @@ export interface PgPoolOptionsParams {
   user: string;
   idleTimeoutMillis: number; // the minimum amount of time that an object may sit idle in the pool before it is eligible for eviction due to idle time
   maxClient: number; // maximum size of the pool
+  max: number; // maximum size of the pool, as normalized by pg-pool
 }
 
 export interface PgPoolExtended extends pgPoolTypes<pgTypes.Client> {
   options: PgPoolOptionsParams;
+  ending?: boolean; // set by pg-pool once `end()` is called
+  ended?: boolean; // set by pg-pool once `end()` has drained the pool
 }
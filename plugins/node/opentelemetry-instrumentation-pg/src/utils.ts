@@ -38,6 +38,10 @@ import {
 import * as pgTypes from 'pg';
 import { PgInstrumentation } from './';
 import { safeExecuteInTheMiddle } from '@opentelemetry/instrumentation';
+import {
+  addSqlCommenterComment,
+  serializeDbStatement,
+} from '@opentelemetry/sql-common';
 
 function arrayStringifyHelper(arr: Array<unknown>): string {
   return '[' + arr.toString() + ']';
@@ -57,6 +61,40 @@ export function getJDBCString(params: PgClientConnectionParams) {
   return `jdbc:postgresql://${host}:${port}/${database}`;
 }
 
+/**
+ * @returns the name used to key connection pool metrics, in the
+ * `host:port/database` form recommended by the semantic conventions.
+ */
+export function getPoolName(params: PgClientConnectionParams) {
+  const host = params.host || 'localhost';
+  const port = params.port || 5432;
+  const database = params.database || '';
+  return `${host}:${port}/${database}`;
+}
+
+/**
+ * Conjures up the value for the db.statement attribute, using the configured
+ * serializer or sanitizer.
+ *
+ * @returns the database statement being executed.
+ */
+export function getDbStatement(
+  instrumentationConfig: PgInstrumentationConfig,
+  queryText: string,
+  values?: unknown[]
+): string {
+  return serializeDbStatement(
+    instrumentationConfig.dbStatementSerializer,
+    {
+      text: queryText,
+      values,
+      sanitizer: instrumentationConfig.dbStatementSanitizer,
+    },
+    undefined,
+    diag
+  );
+}
+
 // Private helper function to start a span
 function pgStartSpan(tracer: Tracer, client: PgClientExtended, name: string) {
   const jdbcString = getJDBCString(client.connectionParameters);
@@ -87,7 +125,14 @@ export function handleConfigQuery(
 
   // Set attributes
   if (queryConfig.text) {
-    span.setAttribute(SemanticAttributes.DB_STATEMENT, queryConfig.text);
+    span.setAttribute(
+      SemanticAttributes.DB_STATEMENT,
+      getDbStatement(
+        instrumentationConfig,
+        queryConfig.text,
+        queryConfig.values
+      )
+    );
   }
   if (
     instrumentationConfig.enhancedDatabaseReporting &&
@@ -106,6 +151,33 @@ export function handleConfigQuery(
   return span;
 }
 
+/**
+ * Appends a sqlcommenter comment with the span context to the query text.
+ * Named queries are prepared statements cached by pg by their name, and
+ * submittables (e.g. cursors) own their text, so both are left untouched.
+ *
+ * @returns the query to pass to the original `query` function.
+ */
+export function addSqlCommenterCommentToQuery(span: Span, query: unknown) {
+  if (typeof query === 'string') {
+    return addSqlCommenterComment(span, query);
+  }
+  const queryConfig = query as NormalizedQueryConfig & { submit?: unknown };
+  if (
+    typeof queryConfig !== 'object' ||
+    queryConfig === null ||
+    queryConfig.name ||
+    typeof queryConfig.submit === 'function' ||
+    typeof queryConfig.text !== 'string'
+  ) {
+    return query;
+  }
+  return {
+    ...queryConfig,
+    text: addSqlCommenterComment(span, queryConfig.text),
+  };
+}
+
 // Queries where args[1] is a 'values' array
 export function handleParameterizedQuery(
   this: PgClientExtended,
@@ -120,7 +192,10 @@ export function handleParameterizedQuery(
   const span = pgStartSpan(tracer, this, name);
 
   // Set attributes
-  span.setAttribute(SemanticAttributes.DB_STATEMENT, query);
+  span.setAttribute(
+    SemanticAttributes.DB_STATEMENT,
+    getDbStatement(instrumentationConfig, query, values)
+  );
   if (instrumentationConfig.enhancedDatabaseReporting) {
     span.setAttribute(AttributeNames.PG_VALUES, arrayStringifyHelper(values));
   }
@@ -132,6 +207,7 @@ export function handleParameterizedQuery(
 export function handleTextQuery(
   this: PgClientExtended,
   tracer: Tracer,
+  instrumentationConfig: PgInstrumentationConfig,
   query: string
 ) {
   // Set child span name
@@ -140,7 +216,10 @@ export function handleTextQuery(
   const span = pgStartSpan(tracer, this, name);
 
   // Set attributes
-  span.setAttribute(SemanticAttributes.DB_STATEMENT, query);
+  span.setAttribute(
+    SemanticAttributes.DB_STATEMENT,
+    getDbStatement(instrumentationConfig, query)
+  );
 
   return span;
 }
@@ -39,6 +39,7 @@ import * as assert from 'assert';
 import * as pg from 'pg';
 import * as pgPool from 'pg-pool';
 import { AttributeNames } from '../src/enums/AttributeNames';
+import { PgPoolExtended } from '../src/types';
 import { TimedEvent } from './types';
 import {
   SemanticAttributes,
@@ -319,6 +320,7 @@ describe('pg-pool', () => {
     describe('when specifying a responseHook configuration', () => {
       const dataAttributeName = 'pg_data';
       const query = 'SELECT 0::text';
+      const statement = 'SELECT ?::text';
       const events: TimedEvent[] = [];
 
       describe('AND valid responseHook', () => {
@@ -327,7 +329,7 @@ describe('pg-pool', () => {
         };
         const pgAttributes = {
           ...DEFAULT_PG_ATTRIBUTES,
-          [SemanticAttributes.DB_STATEMENT]: query,
+          [SemanticAttributes.DB_STATEMENT]: statement,
           [dataAttributeName]: '{"rowCount":1}',
         };
 
@@ -411,7 +413,7 @@ describe('pg-pool', () => {
         };
         const pgAttributes = {
           ...DEFAULT_PG_ATTRIBUTES,
-          [SemanticAttributes.DB_STATEMENT]: query,
+          [SemanticAttributes.DB_STATEMENT]: statement,
         };
 
         beforeEach(async () => {
@@ -465,4 +467,103 @@ describe('pg-pool', () => {
       });
     });
   });
+
+  it('should untrack pools once they have ended', async () => {
+    // no MeterProvider is configured, the pool metrics are never observed
+    create();
+    const endedPool: PgPoolExtended = new (require('pg-pool'))(CONFIG);
+    const client = await endedPool.connect();
+    client.release();
+    assert.ok(instrumentation['_pools'].has(endedPool));
+
+    await endedPool.end();
+    assert.ok(!instrumentation['_pools'].has(endedPool));
+  });
+
+  describe('metrics', () => {
+    const poolName = `${CONFIG.host}:${CONFIG.port}/${CONFIG.database}`;
+    let meter: testUtils.RecordingMeter;
+
+    beforeEach(() => {
+      create();
+      meter = new testUtils.RecordingMeter();
+      instrumentation.setMeterProvider({ getMeter: () => meter });
+    });
+
+    it('should record the connection wait time', async () => {
+      const client = await pool.connect();
+      client.release();
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'db.client.connections.wait_time');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        'db.client.connections.pool.name': poolName,
+      });
+    });
+
+    it('should observe the pool usage', async () => {
+      const client = await pool.connect();
+      try {
+        assert.deepStrictEqual(meter.observe('db.client.connections.usage'), [
+          {
+            value: 0,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'idle',
+            },
+          },
+          {
+            value: 1,
+            attributes: {
+              'db.client.connections.pool.name': poolName,
+              'db.client.connections.state': 'used',
+            },
+          },
+        ]);
+        assert.deepStrictEqual(
+          meter.observe('db.client.connections.pending_requests'),
+          [
+            {
+              value: 0,
+              attributes: { 'db.client.connections.pool.name': poolName },
+            },
+          ]
+        );
+        assert.deepStrictEqual(meter.observe('db.client.connections.max'), [
+          {
+            value: 10,
+            attributes: { 'db.client.connections.pool.name': poolName },
+          },
+        ]);
+      } finally {
+        client.release();
+      }
+    });
+
+    it('should observe pools without clients until they have ended', async () => {
+      const client = await pool.connect();
+      client.release(true);
+      assert.deepStrictEqual(meter.observe('db.client.connections.usage'), [
+        {
+          value: 0,
+          attributes: {
+            'db.client.connections.pool.name': poolName,
+            'db.client.connections.state': 'idle',
+          },
+        },
+        {
+          value: 0,
+          attributes: {
+            'db.client.connections.pool.name': poolName,
+            'db.client.connections.state': 'used',
+          },
+        },
+      ]);
+
+      await pool.end();
+      assert.deepStrictEqual(meter.observe('db.client.connections.max'), []);
+      pool = new (require('pg-pool'))(CONFIG);
+    });
+  });
 });
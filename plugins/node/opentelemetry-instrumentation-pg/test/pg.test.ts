@@ -394,15 +394,48 @@ describe('pg', () => {
       });
     });
 
+    describe('when addSqlCommenterCommentToQueries is enabled', () => {
+      beforeEach(() => {
+        create({ addSqlCommenterCommentToQueries: true });
+      });
+
+      afterEach(() => {
+        create();
+      });
+
+      it('should send the traceparent of the query span to the server', async () => {
+        const query = 'SELECT current_query() AS query';
+        const res = await client.query(query);
+        const spans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(spans.length, 1);
+        const { traceId, spanId } = spans[0].spanContext();
+        assert.strictEqual(
+          res.rows[0].query,
+          `${query} /*traceparent='00-${traceId}-${spanId}-01'*/`
+        );
+        assert.strictEqual(
+          spans[0].attributes[SemanticAttributes.DB_STATEMENT],
+          query
+        );
+      });
+
+      it('should not modify named queries', async () => {
+        const query = 'SELECT current_query() AS query';
+        const res = await client.query({ name: 'current-query', text: query });
+        assert.strictEqual(res.rows[0].query, query);
+      });
+    });
+
     describe('when specifying a responseHook configuration', () => {
       const dataAttributeName = 'pg_data';
       const query = 'SELECT 0::text';
+      const statement = 'SELECT ?::text';
       const events: TimedEvent[] = [];
 
       describe('AND valid responseHook', () => {
         const attributes = {
           ...DEFAULT_ATTRIBUTES,
-          [SemanticAttributes.DB_STATEMENT]: query,
+          [SemanticAttributes.DB_STATEMENT]: statement,
           [dataAttributeName]: '{"rowCount":1}',
         };
         beforeEach(async () => {
@@ -436,7 +469,7 @@ describe('pg', () => {
         it('should attach response hook data to resulting spans for query returning a Promise', async () => {
           const attributes = {
             ...DEFAULT_ATTRIBUTES,
-            [SemanticAttributes.DB_STATEMENT]: query,
+            [SemanticAttributes.DB_STATEMENT]: statement,
             [dataAttributeName]: '{"rowCount":1}',
           };
 
@@ -461,7 +494,7 @@ describe('pg', () => {
       describe('AND invalid responseHook', () => {
         const attributes = {
           ...DEFAULT_ATTRIBUTES,
-          [SemanticAttributes.DB_STATEMENT]: query,
+          [SemanticAttributes.DB_STATEMENT]: statement,
         };
 
         beforeEach(async () => {
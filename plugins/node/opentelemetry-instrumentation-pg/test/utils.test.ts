@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { context } from '@opentelemetry/api';
+import { context, trace, TraceFlags } from '@opentelemetry/api';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 import {
@@ -22,6 +22,7 @@ import {
   InMemorySpanExporter,
   SimpleSpanProcessor,
 } from '@opentelemetry/sdk-trace-base';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import * as assert from 'assert';
 import * as pg from 'pg';
 import { PgInstrumentationConfig } from '../src';
@@ -149,4 +150,126 @@ describe('utils.ts', () => {
       assert.strictEqual(pgValues, '[0]');
     });
   });
+
+  describe('.getPoolName()', () => {
+    it('names the pool after its host, port and database', () => {
+      assert.strictEqual(
+        utils.getPoolName({
+          host: 'db.example.com',
+          port: 6543,
+          database: 'orders',
+          user: 'postgres',
+        }),
+        'db.example.com:6543/orders'
+      );
+    });
+
+    it('falls back to postgres defaults', () => {
+      assert.strictEqual(
+        utils.getPoolName({} as PgClientExtended['connectionParameters']),
+        'localhost:5432/'
+      );
+    });
+  });
+
+  describe('.addSqlCommenterCommentToQuery()', () => {
+    const span = trace.wrapSpanContext({
+      traceId: 'd4cda95b652f4a1592b449d5929fda1b',
+      spanId: '6e0c63257de34c92',
+      traceFlags: TraceFlags.SAMPLED,
+    });
+    const comment =
+      "/*traceparent='00-d4cda95b652f4a1592b449d5929fda1b-6e0c63257de34c92-01'*/";
+
+    it('adds the comment to text queries', () => {
+      assert.strictEqual(
+        utils.addSqlCommenterCommentToQuery(span, 'SELECT NOW()'),
+        `SELECT NOW() ${comment}`
+      );
+    });
+
+    it('adds the comment to a copy of unnamed config queries', () => {
+      const queryConfig = { text: 'SELECT $1::text', values: ['0'] };
+      assert.deepStrictEqual(
+        utils.addSqlCommenterCommentToQuery(span, queryConfig),
+        { text: `SELECT $1::text ${comment}`, values: ['0'] }
+      );
+      assert.strictEqual(queryConfig.text, 'SELECT $1::text');
+    });
+
+    it('does not modify named queries', () => {
+      const queryConfig = { name: 'get-now', text: 'SELECT NOW()' };
+      assert.strictEqual(
+        utils.addSqlCommenterCommentToQuery(span, queryConfig),
+        queryConfig
+      );
+    });
+
+    it('does not modify queries that already contain a comment', () => {
+      const query = 'SELECT NOW() -- now';
+      assert.strictEqual(
+        utils.addSqlCommenterCommentToQuery(span, query),
+        query
+      );
+    });
+  });
+
+  describe('.getDbStatement()', () => {
+    const query = "SELECT * FROM users WHERE email = 'jane@example.com'";
+
+    it('obfuscates literals by default', () => {
+      assert.strictEqual(
+        utils.getDbStatement(instrumentationConfig, query),
+        'SELECT * FROM users WHERE email = ?'
+      );
+    });
+
+    it('keeps the statement when the sanitizer is disabled', () => {
+      assert.strictEqual(
+        utils.getDbStatement({ dbStatementSanitizer: 'none' }, query),
+        query
+      );
+    });
+
+    it('uses the custom serializer when provided', () => {
+      const config: PgInstrumentationConfig = {
+        dbStatementSerializer: (text, values) =>
+          `${text.split(' ')[0]} ${JSON.stringify(values)}`,
+      };
+      assert.strictEqual(
+        utils.getDbStatement(config, 'SELECT $1::text', ['0']),
+        'SELECT ["0"]'
+      );
+    });
+
+    it('falls back to the sanitized statement when the serializer throws', () => {
+      const config: PgInstrumentationConfig = {
+        dbStatementSerializer: () => {
+          throw new Error('serializer error');
+        },
+      };
+      assert.strictEqual(
+        utils.getDbStatement(config, query),
+        'SELECT * FROM users WHERE email = ?'
+      );
+    });
+  });
+
+  describe('.handleTextQuery()', () => {
+    it('sanitizes db.statement', () => {
+      const querySpan = utils.handleTextQuery.call(
+        client,
+        tracer,
+        instrumentationConfig,
+        "SELECT 'secret'"
+      );
+      querySpan.end();
+
+      const readableSpan = getLatestSpan();
+      assert.strictEqual(
+        readableSpan.attributes[SemanticAttributes.DB_STATEMENT],
+        'SELECT ?'
+      );
+    });
+  });
 });
@@ -14,19 +14,37 @@
  * limitations under the License.
  */
 
-import { diag } from '@opentelemetry/api';
+import { diag, Span } from '@opentelemetry/api';
+import { MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  CacheLookupCounters,
+  createCacheLookupCounters,
+  getRedisCacheLookups,
+  recordCacheLookups,
+} from '@opentelemetry/cache-common';
 import {
   isWrapped,
   InstrumentationBase,
   InstrumentationNodeModuleDefinition,
+  InstrumentationNodeModuleFile,
 } from '@opentelemetry/instrumentation';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import type * as redisTypes from 'redis';
 import {
   getTracedCreateClient,
   getTracedCreateStreamTrace,
   getTracedInternalSendCommand,
+  getTracedV4Connect,
+  getTracedV4ExtendWithCommands,
+  getTracedV4Multi,
+  getTracedV4MultiAddCommand,
+  getTracedV4MultiExec,
+  getTracedV4SendCommand,
 } from './utils';
-import { RedisInstrumentationConfig } from './types';
+import {
+  RedisInstrumentationConfig,
+  RedisV4TransformCommandArguments,
+} from './types';
 import { VERSION } from './version';
 
 const DEFAULT_CONFIG: RedisInstrumentationConfig = {
@@ -38,8 +56,20 @@ export class RedisInstrumentation extends InstrumentationBase<
 > {
   static readonly COMPONENT = 'redis';
 
+  private _cacheLookupCounters!: CacheLookupCounters;
+
   constructor(protected override _config: RedisInstrumentationConfig = {}) {
     super('@opentelemetry/instrumentation-redis', VERSION, _config);
+    this._updateMetricInstruments();
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._cacheLookupCounters = createCacheLookupCounters(this.meter);
   }
 
   override setConfig(config: RedisInstrumentationConfig = {}) {
@@ -101,19 +131,219 @@ export class RedisInstrumentation extends InstrumentationBase<
           this._unwrap(moduleExports, 'createClient');
         }
       ),
+      new InstrumentationNodeModuleDefinition<any>(
+        '@node-redis/client',
+        ['^1.0.0'],
+        undefined,
+        undefined,
+        [
+          this._getV4CommanderModuleFile(),
+          this._getV4ClientModuleFile(),
+          this._getV4MultiCommandModuleFile(),
+        ]
+      ),
     ];
   }
+
+  private _getV4CommanderModuleFile() {
+    return new InstrumentationNodeModuleFile<any>(
+      '@node-redis/client/dist/lib/commander.js',
+      ['^1.0.0'],
+      (moduleExports, moduleVersion) => {
+        diag.debug(`Patching @node-redis/client@${moduleVersion} commander`);
+        if (isWrapped(moduleExports.extendWithCommands)) {
+          this._unwrap(moduleExports, 'extendWithCommands');
+        }
+        this._wrap(
+          moduleExports,
+          'extendWithCommands',
+          this._getPatchV4ExtendWithCommands(moduleExports)
+        );
+        return moduleExports;
+      },
+      moduleExports => {
+        if (moduleExports === undefined) return;
+        this._unwrap(moduleExports, 'extendWithCommands');
+      }
+    );
+  }
+
+  private _getV4ClientModuleFile() {
+    return new InstrumentationNodeModuleFile<any>(
+      '@node-redis/client/dist/lib/client/index.js',
+      ['^1.0.0'],
+      (moduleExports, moduleVersion) => {
+        diag.debug(`Patching @node-redis/client@${moduleVersion} client`);
+        const clientPrototype = moduleExports?.default?.prototype;
+        if (!clientPrototype) {
+          return moduleExports;
+        }
+        if (isWrapped(clientPrototype.sendCommand)) {
+          this._unwrap(clientPrototype, 'sendCommand');
+        }
+        this._wrap(
+          clientPrototype,
+          'sendCommand',
+          this._getPatchV4SendCommand()
+        );
+        if (isWrapped(clientPrototype.connect)) {
+          this._unwrap(clientPrototype, 'connect');
+        }
+        this._wrap(clientPrototype, 'connect', this._getPatchV4Connect());
+        if (isWrapped(clientPrototype.multi)) {
+          this._unwrap(clientPrototype, 'multi');
+        }
+        this._wrap(clientPrototype, 'multi', this._getPatchV4Multi());
+        return moduleExports;
+      },
+      moduleExports => {
+        const clientPrototype = moduleExports?.default?.prototype;
+        if (clientPrototype === undefined) return;
+        this._unwrap(clientPrototype, 'sendCommand');
+        this._unwrap(clientPrototype, 'connect');
+        this._unwrap(clientPrototype, 'multi');
+      }
+    );
+  }
+
+  private _getV4MultiCommandModuleFile() {
+    return new InstrumentationNodeModuleFile<any>(
+      '@node-redis/client/dist/lib/client/multi-command.js',
+      ['^1.0.0'],
+      (moduleExports, moduleVersion) => {
+        diag.debug(`Patching @node-redis/client@${moduleVersion} multi`);
+        const multiPrototype = moduleExports?.default?.prototype;
+        if (!multiPrototype) {
+          return moduleExports;
+        }
+        if (isWrapped(multiPrototype.addCommand)) {
+          this._unwrap(multiPrototype, 'addCommand');
+        }
+        this._wrap(
+          multiPrototype,
+          'addCommand',
+          this._getPatchV4MultiAddCommand()
+        );
+        if (isWrapped(multiPrototype.exec)) {
+          this._unwrap(multiPrototype, 'exec');
+        }
+        this._wrap(multiPrototype, 'exec', this._getPatchV4MultiExec());
+        return moduleExports;
+      },
+      moduleExports => {
+        const multiPrototype = moduleExports?.default?.prototype;
+        if (multiPrototype === undefined) return;
+        this._unwrap(multiPrototype, 'addCommand');
+        this._unwrap(multiPrototype, 'exec');
+      }
+    );
+  }
+
   /**
    * Patch internal_send_command(...) to trace requests
    */
   private _getPatchInternalSendCommand() {
+    const instrumentation = this;
     const tracer = this.tracer;
     const config = this._config;
     return function internal_send_command(original: Function) {
-      return getTracedInternalSendCommand(tracer, original, config);
+      return getTracedInternalSendCommand(
+        tracer,
+        original,
+        config,
+        instrumentation._recordCacheLookups
+      );
     };
   }
 
+  /**
+   * Patch the executor of node-redis v4 commands to trace requests
+   */
+  private _getPatchV4ExtendWithCommands(commanderExports: {
+    extendWithCommands: Function;
+    transformCommandArguments: RedisV4TransformCommandArguments;
+  }) {
+    const instrumentation = this;
+    return function extendWithCommands(original: Function) {
+      return getTracedV4ExtendWithCommands(
+        instrumentation.tracer,
+        original,
+        commanderExports.transformCommandArguments,
+        () => isWrapped(commanderExports.extendWithCommands),
+        () => instrumentation._config,
+        instrumentation._recordCacheLookups
+      );
+    };
+  }
+
+  private _getPatchV4SendCommand() {
+    const instrumentation = this;
+    const tracer = this.tracer;
+    return function sendCommand(original: Function) {
+      return getTracedV4SendCommand(
+        tracer,
+        original,
+        () => instrumentation._config,
+        instrumentation._recordCacheLookups
+      );
+    };
+  }
+
+  private _getPatchV4Connect() {
+    const instrumentation = this;
+    const tracer = this.tracer;
+    return function connect(original: Function) {
+      return getTracedV4Connect(
+        tracer,
+        original,
+        () => instrumentation._config
+      );
+    };
+  }
+
+  private _getPatchV4Multi() {
+    return function multi(original: Function) {
+      return getTracedV4Multi(original);
+    };
+  }
+
+  private _getPatchV4MultiAddCommand() {
+    return function addCommand(original: Function) {
+      return getTracedV4MultiAddCommand(original);
+    };
+  }
+
+  private _getPatchV4MultiExec() {
+    const instrumentation = this;
+    const tracer = this.tracer;
+    return function exec(original: Function) {
+      return getTracedV4MultiExec(
+        tracer,
+        original,
+        () => instrumentation._config,
+        instrumentation._recordCacheLookups
+      );
+    };
+  }
+
+  private _recordCacheLookups = (
+    span: Span,
+    cmdName: string,
+    cmdArgs: Array<string | Buffer>,
+    response: unknown
+  ) => {
+    const lookups = getRedisCacheLookups(cmdName, cmdArgs, response);
+    if (lookups) {
+      recordCacheLookups(
+        span,
+        this._cacheLookupCounters,
+        lookups,
+        { [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT },
+        this._config.cacheKeyPrefix
+      );
+    }
+  };
+
   private _getPatchCreateClient() {
     const tracer = this.tracer;
     return function createClient(original: Function) {
@@ -15,6 +15,7 @@
  */
 
 import { Span } from '@opentelemetry/api';
+import { CacheKeyPrefixFunction } from '@opentelemetry/cache-common';
 import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 import type * as redisTypes from 'redis';
 
@@ -37,6 +38,39 @@ export interface RedisPluginClientTypes {
   address?: string;
 }
 
+// shapes of the node-redis v4 internals from
+// https://github.com/redis/node-redis/tree/master/packages/client/lib
+export type RedisV4CommandArguments = Array<string | Buffer>;
+
+export interface RedisV4Command {
+  transformArguments(...args: unknown[]): RedisV4CommandArguments;
+}
+
+export type RedisV4CommandsExecutor = (
+  command: RedisV4Command,
+  args: unknown[]
+) => Promise<unknown>;
+
+export interface RedisV4ExtendWithCommandsConfig {
+  BaseClass: Function;
+  commands: Record<string, RedisV4Command>;
+  executor: RedisV4CommandsExecutor;
+}
+
+export type RedisV4TransformCommandArguments = (
+  command: RedisV4Command,
+  args: unknown[]
+) => { args: RedisV4CommandArguments; options?: unknown };
+
+export interface RedisV4ClientTypes {
+  options?: {
+    socket?: {
+      host?: string;
+      port?: number;
+    };
+  };
+}
+
 /**
  * Function that can be used to serialize db.statement tag
  * @param cmdName - The name of the command (eg. set, get, mset)
@@ -67,6 +101,17 @@ export interface RedisResponseCustomAttributeFunction {
   ): void;
 }
 
+/**
+ * Records the keys looked up by a command on its span and in the cache
+ * metrics, once it is replied to
+ */
+export type CacheLookupsRecorder = (
+  span: Span,
+  cmdName: string,
+  cmdArgs: Array<string | Buffer>,
+  response: unknown
+) => void;
+
 export interface RedisInstrumentationConfig extends InstrumentationConfig {
   /** Custom serializer function for the db.statement tag */
   dbStatementSerializer?: DbStatementSerializer;
@@ -76,4 +121,10 @@ export interface RedisInstrumentationConfig extends InstrumentationConfig {
 
   /** Require parent to create redis span, default when unset is false */
   requireParentSpan?: boolean;
+
+  /**
+   * Custom function extracting the prefix of the keys looked up by `GET`,
+   * `MGET` and `HGET`, default is the part of the key before its first `:`
+   */
+  cacheKeyPrefix?: CacheKeyPrefixFunction;
 }
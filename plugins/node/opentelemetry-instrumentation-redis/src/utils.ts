@@ -23,12 +23,19 @@ import {
   SpanStatusCode,
   trace,
   diag,
+  SpanAttributes,
 } from '@opentelemetry/api';
 import {
+  CacheLookupsRecorder,
   DbStatementSerializer,
   RedisCommand,
   RedisInstrumentationConfig,
   RedisPluginClientTypes,
+  RedisV4ClientTypes,
+  RedisV4Command,
+  RedisV4CommandArguments,
+  RedisV4ExtendWithCommandsConfig,
+  RedisV4TransformCommandArguments,
 } from './types';
 import { EventEmitter } from 'events';
 import { RedisInstrumentation } from './';
@@ -77,7 +84,8 @@ const defaultDbStatementSerializer: DbStatementSerializer = cmdName => cmdName;
 export const getTracedInternalSendCommand = (
   tracer: Tracer,
   original: Function,
-  config?: RedisInstrumentationConfig
+  config?: RedisInstrumentationConfig,
+  recordCacheLookups?: CacheLookupsRecorder
 ) => {
   return function internal_send_command_trace(
     this: RedisPluginClientTypes,
@@ -133,6 +141,9 @@ export const getTracedInternalSendCommand = (
         err: Error | null,
         reply: T
       ) {
+        if (!err) {
+          recordCacheLookups?.(span, cmd.command, cmd.args, reply);
+        }
         if (config?.responseHook) {
           const responseHook = config.responseHook;
           safeExecuteInTheMiddle(
@@ -164,3 +175,309 @@ export const getTracedInternalSendCommand = (
     }
   };
 };
+
+const getV4ConnectionAttributes = (
+  client: RedisV4ClientTypes
+): SpanAttributes => {
+  const attributes: SpanAttributes = {};
+  const socket = client.options?.socket;
+  if (socket?.host) {
+    attributes[SemanticAttributes.NET_PEER_NAME] = socket.host;
+  }
+  if (socket?.port) {
+    attributes[SemanticAttributes.NET_PEER_PORT] = socket.port;
+  }
+  return attributes;
+};
+
+const startV4CommandSpan = (
+  tracer: Tracer,
+  client: RedisV4ClientTypes,
+  redisArgs: RedisV4CommandArguments,
+  config?: RedisInstrumentationConfig
+): Span | undefined => {
+  const hasNoParentSpan = trace.getSpan(context.active()) === undefined;
+  if (config?.requireParentSpan === true && hasNoParentSpan) {
+    return undefined;
+  }
+
+  const [commandName, ...commandArgs] = redisArgs.map(arg => arg.toString());
+  const dbStatementSerializer =
+    config?.dbStatementSerializer || defaultDbStatementSerializer;
+  return tracer.startSpan(`${RedisInstrumentation.COMPONENT}-${commandName}`, {
+    kind: SpanKind.CLIENT,
+    attributes: {
+      [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+      [SemanticAttributes.DB_STATEMENT]: dbStatementSerializer(
+        commandName,
+        commandArgs
+      ),
+      ...getV4ConnectionAttributes(client),
+    },
+  });
+};
+
+const endV4CommandSpan = (
+  span: Span,
+  redisArgs: RedisV4CommandArguments,
+  reply: unknown,
+  err?: Error,
+  config?: RedisInstrumentationConfig,
+  recordCacheLookups?: CacheLookupsRecorder
+) => {
+  const [commandName, ...commandArgs] = redisArgs.map(arg => arg.toString());
+  if (!err) {
+    recordCacheLookups?.(span, commandName, commandArgs, reply);
+  }
+  if (config?.responseHook) {
+    const responseHook = config.responseHook;
+    safeExecuteInTheMiddle(
+      () => {
+        responseHook(span, commandName, commandArgs, reply);
+      },
+      err => {
+        if (err) {
+          diag.error('Error executing responseHook', err);
+        }
+      },
+      true
+    );
+  }
+  endSpan(span, err);
+};
+
+const traceV4Command = <T>(
+  tracer: Tracer,
+  client: RedisV4ClientTypes,
+  redisArgs: RedisV4CommandArguments,
+  execute: () => Promise<T>,
+  config?: RedisInstrumentationConfig,
+  recordCacheLookups?: CacheLookupsRecorder
+): Promise<T> => {
+  const span = startV4CommandSpan(tracer, client, redisArgs, config);
+  if (!span) {
+    return execute();
+  }
+
+  let result: Promise<T>;
+  try {
+    result = execute();
+  } catch (rethrow) {
+    endSpan(span, rethrow);
+    throw rethrow; // rethrow after ending span
+  }
+  return result.then(
+    reply => {
+      endV4CommandSpan(
+        span,
+        redisArgs,
+        reply,
+        undefined,
+        config,
+        recordCacheLookups
+      );
+      return reply;
+    },
+    err => {
+      endV4CommandSpan(span, redisArgs, undefined, err, config);
+      throw err;
+    }
+  );
+};
+
+/**
+ * The executor is bound to the client class once, when the module is loaded,
+ * so whether to trace and with which config is decided on every command.
+ */
+export const getTracedV4ExtendWithCommands = (
+  tracer: Tracer,
+  original: Function,
+  transformCommandArguments: RedisV4TransformCommandArguments,
+  isEnabled: () => boolean,
+  getConfig: () => RedisInstrumentationConfig | undefined,
+  recordCacheLookups?: CacheLookupsRecorder
+) => {
+  return function extendWithCommands_trace(
+    this: unknown,
+    extendConfig: RedisV4ExtendWithCommandsConfig
+  ) {
+    // commands of multi are only queued, they are traced on exec
+    if (extendConfig?.BaseClass?.name !== 'RedisClient') {
+      return original.apply(this, arguments);
+    }
+
+    const executor = extendConfig.executor;
+    return original.call(this, {
+      ...extendConfig,
+      executor: function commandsExecutor_trace(
+        this: RedisV4ClientTypes,
+        command: RedisV4Command,
+        args: unknown[]
+      ) {
+        if (!isEnabled()) {
+          return executor.call(this, command, args);
+        }
+
+        let redisArgs: RedisV4CommandArguments;
+        try {
+          redisArgs = transformCommandArguments(command, args).args;
+        } catch (err) {
+          // let the executor report invalid arguments
+          return executor.call(this, command, args);
+        }
+        return traceV4Command(
+          tracer,
+          this,
+          redisArgs,
+          () => executor.call(this, command, args),
+          getConfig(),
+          recordCacheLookups
+        );
+      },
+    });
+  };
+};
+
+export const getTracedV4SendCommand = (
+  tracer: Tracer,
+  original: Function,
+  getConfig: () => RedisInstrumentationConfig | undefined,
+  recordCacheLookups?: CacheLookupsRecorder
+) => {
+  return function sendCommand_trace(
+    this: RedisV4ClientTypes,
+    redisArgs: RedisV4CommandArguments
+  ) {
+    if (!Array.isArray(redisArgs) || redisArgs.length === 0) {
+      return original.apply(this, arguments);
+    }
+    const args = arguments;
+    return traceV4Command(
+      tracer,
+      this,
+      redisArgs,
+      () => original.apply(this, args),
+      getConfig(),
+      recordCacheLookups
+    );
+  };
+};
+
+export const getTracedV4Connect = (
+  tracer: Tracer,
+  original: Function,
+  getConfig: () => RedisInstrumentationConfig | undefined
+) => {
+  return function connect_trace(this: RedisV4ClientTypes) {
+    const hasNoParentSpan = trace.getSpan(context.active()) === undefined;
+    if (getConfig()?.requireParentSpan === true && hasNoParentSpan) {
+      return original.apply(this, arguments);
+    }
+
+    const span = tracer.startSpan(`${RedisInstrumentation.COMPONENT}-connect`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+        ...getV4ConnectionAttributes(this),
+      },
+    });
+
+    let result: Promise<unknown>;
+    try {
+      result = original.apply(this, arguments);
+    } catch (rethrow) {
+      endSpan(span, rethrow);
+      throw rethrow; // rethrow after ending span
+    }
+    return result.then(
+      reply => {
+        endSpan(span);
+        return reply;
+      },
+      err => {
+        endSpan(span, err);
+        throw err;
+      }
+    );
+  };
+};
+
+// commands queued on a multi, which are traced once it is executed
+const v4MultiCommands = new WeakMap<
+  object,
+  { client: RedisV4ClientTypes; commands: RedisV4CommandArguments[] }
+>();
+
+export const getTracedV4Multi = (original: Function) => {
+  return function multi_trace(this: RedisV4ClientTypes) {
+    const multi = original.apply(this, arguments);
+    v4MultiCommands.set(multi, { client: this, commands: [] });
+    return multi;
+  };
+};
+
+export const getTracedV4MultiAddCommand = (original: Function) => {
+  return function addCommand_trace(
+    this: object,
+    redisArgs: RedisV4CommandArguments
+  ) {
+    if (Array.isArray(redisArgs) && redisArgs.length) {
+      v4MultiCommands.get(this)?.commands.push(redisArgs);
+    }
+    return original.apply(this, arguments);
+  };
+};
+
+export const getTracedV4MultiExec = (
+  tracer: Tracer,
+  original: Function,
+  getConfig: () => RedisInstrumentationConfig | undefined,
+  recordCacheLookups?: CacheLookupsRecorder
+) => {
+  return function exec_trace(this: object) {
+    const multi = v4MultiCommands.get(this);
+    if (!multi) {
+      return original.apply(this, arguments);
+    }
+
+    const config = getConfig();
+    const commands = multi.commands;
+    multi.commands = [];
+    const spans = commands.map(redisArgs =>
+      startV4CommandSpan(tracer, multi.client, redisArgs, config)
+    );
+
+    let result: Promise<unknown[]>;
+    try {
+      result = original.apply(this, arguments);
+    } catch (rethrow) {
+      spans.forEach(span => span && endSpan(span, rethrow));
+      throw rethrow; // rethrow after ending spans
+    }
+    return result.then(
+      replies => {
+        spans.forEach((span, i) => {
+          if (span) {
+            endV4CommandSpan(
+              span,
+              commands[i],
+              replies?.[i],
+              undefined,
+              config,
+              recordCacheLookups
+            );
+          }
+        });
+        return replies;
+      },
+      err => {
+        spans.forEach((span, i) => {
+          if (span) {
+            endV4CommandSpan(span, commands[i], undefined, err, config);
+          }
+        });
+        throw err;
+      }
+    );
+  };
+};
@@ -0,0 +1,419 @@
+/*
+ * Copyright The OpenTelemetry Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  SpanStatusCode,
+  context,
+  SpanKind,
+  SpanStatus,
+  trace,
+  Span,
+} from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import * as testUtils from '@opentelemetry/contrib-test-utils';
+import {
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import * as assert from 'assert';
+import { RedisInstrumentation } from '../src';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+
+const instrumentation = new RedisInstrumentation();
+instrumentation.enable();
+instrumentation.disable();
+
+import type * as redisTypes from '@node-redis/client';
+import { RedisResponseCustomAttributeFunction } from '../src/types';
+import {
+  CacheAttributeNames,
+  CacheMetricNames,
+} from '@opentelemetry/cache-common';
+
+const memoryExporter = new InMemorySpanExporter();
+
+const CONFIG = {
+  host: process.env.OPENTELEMETRY_REDIS_HOST || 'localhost',
+  port: Number(process.env.OPENTELEMETRY_REDIS_PORT || 63790),
+};
+
+const URL = `redis://${CONFIG.host}:${CONFIG.port}`;
+
+const DEFAULT_ATTRIBUTES = {
+  [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+  [SemanticAttributes.NET_PEER_NAME]: CONFIG.host,
+  [SemanticAttributes.NET_PEER_PORT]: CONFIG.port,
+};
+
+const unsetStatus: SpanStatus = {
+  code: SpanStatusCode.UNSET,
+};
+
+describe('redis@4.x', () => {
+  const provider = new NodeTracerProvider();
+  const tracer = provider.getTracer('external');
+  let redis: typeof redisTypes;
+  let client: ReturnType<typeof redisTypes.createClient>;
+  const shouldTestLocal = process.env.RUN_REDIS_TESTS_LOCAL;
+  const shouldTest = process.env.RUN_REDIS_TESTS || shouldTestLocal;
+
+  let contextManager: AsyncHooksContextManager;
+  beforeEach(() => {
+    contextManager = new AsyncHooksContextManager().enable();
+    context.setGlobalContextManager(contextManager);
+  });
+
+  afterEach(() => {
+    context.disable();
+  });
+
+  before(function () {
+    // needs to be "function" to have MochaContext "this" context
+    if (!shouldTest) {
+      // this.skip() workaround
+      // https://github.com/mochajs/mocha/issues/2683#issuecomment-375629901
+      this.test!.parent!.pending = true;
+      this.skip();
+    }
+
+    if (shouldTestLocal) {
+      testUtils.startDocker('redis');
+    }
+
+    provider.addSpanProcessor(new SimpleSpanProcessor(memoryExporter));
+    instrumentation.setTracerProvider(provider);
+    instrumentation.enable();
+    redis = require('@node-redis/client');
+  });
+
+  after(() => {
+    instrumentation.disable();
+    if (shouldTestLocal) {
+      testUtils.cleanUpDocker('redis');
+    }
+  });
+
+  describe('#connect()', () => {
+    it('should create a span for connecting', async () => {
+      const span = tracer.startSpan('test span');
+      const newClient = redis.createClient({ url: URL });
+      await context.with(trace.setSpan(context.active(), span), () =>
+        newClient.connect()
+      );
+      await newClient.disconnect();
+      span.end();
+
+      const [connectSpan] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(connectSpan.name, 'redis-connect');
+      testUtils.assertSpan(
+        connectSpan,
+        SpanKind.CLIENT,
+        {
+          [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+          [SemanticAttributes.NET_PEER_NAME]: CONFIG.host,
+          [SemanticAttributes.NET_PEER_PORT]: CONFIG.port,
+        },
+        [],
+        unsetStatus
+      );
+      testUtils.assertPropagation(connectSpan, span);
+      memoryExporter.reset();
+    });
+  });
+
+  describe('commands', () => {
+    before(async () => {
+      client = redis.createClient({ url: URL });
+      await client.connect();
+    });
+
+    beforeEach(async () => {
+      await client.set('test', 'data');
+      memoryExporter.reset();
+    });
+
+    after(async () => {
+      await client.disconnect();
+    });
+
+    afterEach(async () => {
+      await client.del('hash');
+      memoryExporter.reset();
+    });
+
+    it('should create a child span for a command', async () => {
+      const span = tracer.startSpan('test span');
+      const reply = await context.with(
+        trace.setSpan(context.active(), span),
+        () => client.get('test')
+      );
+      span.end();
+
+      assert.strictEqual(reply, 'data');
+      const endedSpans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(endedSpans.length, 2);
+      assert.strictEqual(endedSpans[0].name, 'redis-GET');
+      testUtils.assertSpan(
+        endedSpans[0],
+        SpanKind.CLIENT,
+        {
+          ...DEFAULT_ATTRIBUTES,
+          [SemanticAttributes.DB_STATEMENT]: 'GET',
+          [CacheAttributeNames.CACHE_HIT]: true,
+        },
+        [],
+        unsetStatus
+      );
+      testUtils.assertPropagation(endedSpans[0], span);
+    });
+
+    it('should create a span for sendCommand', async () => {
+      await client.sendCommand(['HSET', 'hash', 'random', 'random']);
+
+      const endedSpans = memoryExporter.getFinishedSpans();
+      assert.strictEqual(endedSpans.length, 1);
+      assert.strictEqual(endedSpans[0].name, 'redis-HSET');
+      assert.strictEqual(
+        endedSpans[0].attributes[SemanticAttributes.DB_STATEMENT],
+        'HSET'
+      );
+    });
+
+    it('should create a span for every command of multi().exec()', async () => {
+      const replies = await client
+        .multi()
+        .set('key', 'value')
+        .get('key')
+        .exec();
+
+      assert.deepStrictEqual(replies, ['OK', 'value']);
+      const endedSpans = memoryExporter.getFinishedSpans();
+      assert.deepStrictEqual(
+        endedSpans.map(span => span.name),
+        ['redis-SET', 'redis-GET']
+      );
+    });
+
+    it('should set error status on a failing command', async () => {
+      await client.hGet('test', 'field').then(
+        () => assert.fail('HGET on a string should fail'),
+        err => assert.ok(err instanceof Error)
+      );
+
+      const [span] = memoryExporter.getFinishedSpans();
+      assert.strictEqual(span.name, 'redis-HGET');
+      assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+    });
+
+    describe('Removing instrumentation', () => {
+      before(() => {
+        instrumentation.disable();
+      });
+
+      after(() => {
+        instrumentation.enable();
+      });
+
+      it('should not create a span for a command', async () => {
+        await client.get('test');
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 0);
+      });
+    });
+
+    describe('dbStatementSerializer config', () => {
+      const dbStatementSerializer = (cmdName: string, cmdArgs: string[]) => {
+        return Array.isArray(cmdArgs) && cmdArgs.length
+          ? `${cmdName} ${cmdArgs.join(' ')}`
+          : cmdName;
+      };
+
+      before(() => {
+        instrumentation.disable();
+        instrumentation.setConfig({ dbStatementSerializer });
+        instrumentation.enable();
+      });
+
+      it('should properly execute the db statement serializer', async () => {
+        await client.hSet('hash', 'random', 'random');
+
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          span.attributes[SemanticAttributes.DB_STATEMENT],
+          'HSET hash random random'
+        );
+      });
+    });
+
+    describe('responseHook config', () => {
+      const dataFieldName = 'redis.data';
+
+      const responseHook: RedisResponseCustomAttributeFunction = (
+        span: Span,
+        _cmdName: string,
+        _cmdArgs: string[],
+        response: unknown
+      ) => {
+        span.setAttribute(dataFieldName, new String(response).toString());
+      };
+
+      before(() => {
+        instrumentation.disable();
+        instrumentation.setConfig({ responseHook });
+        instrumentation.enable();
+      });
+
+      it('should apply responseHook to a command', async () => {
+        await client.get('test');
+
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(span.attributes[dataFieldName], 'data');
+      });
+
+      it('should apply responseHook to the commands of multi', async () => {
+        await client.multi().get('test').exec();
+
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(span.attributes[dataFieldName], 'data');
+      });
+
+      it('should apply a responseHook set after patching to sendCommand', async () => {
+        instrumentation.setConfig({
+          responseHook: (span, _cmdName, _cmdArgs, response) => {
+            span.setAttribute('redis.late', new String(response).toString());
+          },
+        });
+        await client.sendCommand(['GET', 'test']);
+
+        const [span] = memoryExporter.getFinishedSpans();
+        assert.strictEqual(span.attributes['redis.late'], 'data');
+      });
+    });
+
+    describe('cache lookups', () => {
+      let meter: testUtils.RecordingMeter;
+
+      beforeEach(() => {
+        meter = new testUtils.RecordingMeter();
+        instrumentation.setMeterProvider({ getMeter: () => meter });
+      });
+
+      afterEach(() => {
+        instrumentation.setMeterProvider(NOOP_METER_PROVIDER);
+        instrumentation.setConfig({});
+      });
+
+      it('should record a cache hit and a cache miss', async () => {
+        await client.set('session:1', 'data');
+        memoryExporter.reset();
+
+        await client.get('session:1');
+        await client.hGet('hash', 'missing');
+        await client.del('session:1');
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT],
+          true
+        );
+        assert.strictEqual(
+          endedSpans[1].attributes[CacheAttributeNames.CACHE_HIT],
+          false
+        );
+        assert.strictEqual(
+          endedSpans[2].attributes[CacheAttributeNames.CACHE_HIT],
+          undefined
+        );
+        assert.deepStrictEqual(meter.records, [
+          {
+            name: CacheMetricNames.CACHE_HITS,
+            value: 1,
+            attributes: {
+              [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: 'session',
+            },
+          },
+          {
+            name: CacheMetricNames.CACHE_MISSES,
+            value: 1,
+            attributes: {
+              [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: '',
+            },
+          },
+        ]);
+      });
+
+      it('should count the cache hits and misses of mGet', async () => {
+        await client.mGet(['test', 'missing']);
+
+        const endedSpans = memoryExporter.getFinishedSpans();
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT_COUNT],
+          1
+        );
+        assert.strictEqual(
+          endedSpans[0].attributes[CacheAttributeNames.CACHE_MISS_COUNT],
+          1
+        );
+      });
+
+      it('should use the cacheKeyPrefix function from config', async () => {
+        instrumentation.setConfig({ cacheKeyPrefix: () => 'prefix' });
+
+        await client.get('test');
+
+        assert.deepStrictEqual(
+          meter.records.map(record => record.attributes),
+          [
+            {
+              [SemanticAttributes.DB_SYSTEM]: RedisInstrumentation.COMPONENT,
+              [CacheAttributeNames.CACHE_KEY_PREFIX]: 'prefix',
+            },
+          ]
+        );
+      });
+    });
+
+    describe('requireParentSpan config', () => {
+      before(() => {
+        instrumentation.disable();
+        instrumentation.setConfig({ requireParentSpan: true });
+        instrumentation.enable();
+      });
+
+      after(() => {
+        instrumentation.disable();
+        instrumentation.setConfig({});
+        instrumentation.enable();
+      });
+
+      it('should not create span without parent span', async () => {
+        await client.get('test');
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 0);
+      });
+
+      it('should create span when a parent span exists', async () => {
+        const span = tracer.startSpan('test span');
+        await context.with(trace.setSpan(context.active(), span), () =>
+          client.get('test')
+        );
+        assert.strictEqual(memoryExporter.getFinishedSpans().length, 1);
+      });
+    });
+  });
+});
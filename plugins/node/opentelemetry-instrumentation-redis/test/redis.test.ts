@@ -21,6 +21,7 @@ import {
   SpanStatus,
   trace,
   Span,
+  SpanAttributes,
 } from '@opentelemetry/api';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
@@ -39,6 +40,7 @@ instrumentation.disable();
 
 import * as redisTypes from 'redis';
 import { RedisResponseCustomAttributeFunction } from '../src/types';
+import { CacheAttributeNames } from '@opentelemetry/cache-common';
 
 const memoryExporter = new InMemorySpanExporter();
 
@@ -97,6 +99,7 @@ describe('redis@2.x', () => {
   });
 
   after(() => {
+    instrumentation.disable();
     if (shouldTestLocal) {
       testUtils.cleanUpDocker('redis');
     }
@@ -130,6 +133,7 @@ describe('redis@2.x', () => {
       description: string;
       command: string;
       args: string[];
+      attributes?: SpanAttributes;
       method: (cb: redisTypes.Callback<unknown>) => unknown;
     }> = [
       {
@@ -143,6 +147,7 @@ describe('redis@2.x', () => {
         description: 'get',
         command: 'get',
         args: ['test'],
+        attributes: { [CacheAttributeNames.CACHE_HIT]: true },
         method: (cb: redisTypes.Callback<string | null>) =>
           client.get('test', cb),
       },
@@ -186,6 +191,7 @@ describe('redis@2.x', () => {
           const attributes = {
             ...DEFAULT_ATTRIBUTES,
             [SemanticAttributes.DB_STATEMENT]: operation.command,
+            ...operation.attributes,
           };
           const span = tracer.startSpan('test span');
           context.with(trace.setSpan(context.active(), span), () => {
@@ -224,6 +230,25 @@ describe('redis@2.x', () => {
       });
     });
 
+    describe('Instrumenting cache lookups', () => {
+      it('should count the cache hits and misses of mget', done => {
+        client.mget(['test', 'missing', 'test'], err => {
+          assert.ifError(err);
+          const endedSpans = memoryExporter.getFinishedSpans();
+          assert.strictEqual(endedSpans.length, 1);
+          assert.strictEqual(
+            endedSpans[0].attributes[CacheAttributeNames.CACHE_HIT_COUNT],
+            2
+          );
+          assert.strictEqual(
+            endedSpans[0].attributes[CacheAttributeNames.CACHE_MISS_COUNT],
+            1
+          );
+          done();
+        });
+      });
+    });
+
     describe('Removing instrumentation', () => {
       before(() => {
         instrumentation.disable();
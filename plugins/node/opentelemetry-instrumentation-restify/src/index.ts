@@ -17,4 +17,5 @@
 import { RestifyInstrumentation } from './instrumentation';
 
 export * from './instrumentation';
+export { RestifyInstrumentationConfig } from './types';
 export default RestifyInstrumentation;
@@ -15,6 +15,12 @@
  */
 
 import * as api from '@opentelemetry/api';
+import { Histogram, MeterProvider } from '@opentelemetry/api-metrics';
+import {
+  createServerDurationHistogram,
+  recordServerDuration,
+  setHttpRoute,
+} from '@opentelemetry/http-common';
 import * as restify from 'restify';
 import { Server } from 'restify';
 import * as types from './types';
@@ -23,7 +29,6 @@ import { VERSION } from './version';
 import * as constants from './constants';
 import {
   InstrumentationBase,
-  InstrumentationConfig,
   InstrumentationNodeModuleDefinition,
   InstrumentationNodeModuleFile,
   isWrapped,
@@ -37,12 +42,35 @@ const { diag } = api;
 export class RestifyInstrumentation extends InstrumentationBase<
   typeof restify
 > {
-  constructor(config: InstrumentationConfig = {}) {
-    super(`@opentelemetry/instrumentation-${constants.MODULE_NAME}`, VERSION);
+  constructor(config: types.RestifyInstrumentationConfig = {}) {
+    super(
+      `@opentelemetry/instrumentation-${constants.MODULE_NAME}`,
+      VERSION,
+      Object.assign({}, config)
+    );
+    this._updateMetricInstruments();
   }
 
   private _moduleVersion?: string;
   private _isDisabled = false;
+  private _serverDuration!: Histogram;
+
+  override setConfig(config: types.RestifyInstrumentationConfig = {}) {
+    this._config = Object.assign({}, config);
+  }
+
+  override getConfig(): types.RestifyInstrumentationConfig {
+    return this._config as types.RestifyInstrumentationConfig;
+  }
+
+  override setMeterProvider(meterProvider: MeterProvider) {
+    super.setMeterProvider(meterProvider);
+    this._updateMetricInstruments();
+  }
+
+  private _updateMetricInstruments() {
+    this._serverDuration = createServerDurationHistogram(this.meter);
+  }
 
   init() {
     const module = new InstrumentationNodeModuleDefinition<typeof restify>(
@@ -155,10 +183,21 @@ export class RestifyInstrumentation extends InstrumentationBase<
         if (this._isDisabled) {
           return handler(req, res, next);
         }
+        if (this.getConfig().recordServerDuration) {
+          recordServerDuration(
+            api.context.active(),
+            this._serverDuration,
+            req,
+            res
+          );
+        }
         const route =
           typeof req.getRoute === 'function'
             ? req.getRoute()?.path
             : req.route?.path;
+        if (typeof route === 'string') {
+          setHttpRoute(api.context.active(), req, route);
+        }
 
         // replace HTTP instrumentations name with one that contains a route
         const httpMetadata = getRPCMetadata(api.context.active());
@@ -206,10 +245,7 @@ export class RestifyInstrumentation extends InstrumentationBase<
 
         let newContext = api.trace.setSpan(api.context.active(), span);
         if (httpMetadata) {
-          newContext = setRPCMetadata(
-            newContext,
-            Object.assign(httpMetadata, { route })
-          );
+          newContext = setRPCMetadata(newContext, httpMetadata);
         }
         return api.context.with(
           newContext,
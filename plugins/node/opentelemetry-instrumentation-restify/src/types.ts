@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 import { Span } from '@opentelemetry/api';
+import { InstrumentationConfig } from '@opentelemetry/instrumentation';
 import * as restify from 'restify';
 
 export enum LayerType {
@@ -43,3 +44,14 @@ export type NestedRequestHandlers = Array<
 export interface InstrumentationSpan extends Span {
   name?: string;
 }
+
+/**
+ * Options available for the Restify Instrumentation
+ */
+export interface RestifyInstrumentationConfig extends InstrumentationConfig {
+  /**
+   * Record the `http.server.duration` histogram, labeled with the route, for
+   * requests that are not traced by the http instrumentation
+   */
+  recordServerDuration?: boolean;
+}
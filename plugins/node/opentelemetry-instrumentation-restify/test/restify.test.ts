@@ -16,6 +16,8 @@
 
 import * as restify from 'restify';
 import { context, trace } from '@opentelemetry/api';
+import { NOOP_METER_PROVIDER } from '@opentelemetry/api-metrics';
+import { RecordingMeter } from '@opentelemetry/contrib-test-utils';
 import { RPCType, setRPCMetadata } from '@opentelemetry/core';
 import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
@@ -31,6 +33,7 @@ const plugin = new RestifyInstrumentation();
 import * as assert from 'assert';
 import * as http from 'http';
 import { AddressInfo } from 'net';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 
 const httpRequest = {
   get: (options: http.ClientRequestArgs | string) => {
@@ -127,6 +130,8 @@ describe('Restify Instrumentation', () => {
 
   afterEach(() => {
     memoryExporter.reset();
+    plugin.setConfig({});
+    plugin.setMeterProvider(NOOP_METER_PROVIDER);
     context.disable();
     server.close();
   });
@@ -453,6 +458,27 @@ describe('Restify Instrumentation', () => {
       assert.strictEqual(memoryExporter.getFinishedSpans().length, 3);
       assert.strictEqual(res, '{"route":"bar"}');
     });
+
+    it('should record http.server.duration with the route', async () => {
+      const meter = new RecordingMeter();
+      plugin.setMeterProvider({ getMeter: () => meter });
+      plugin.setConfig({ recordServerDuration: true });
+
+      const res = await httpRequest.get(`http://localhost:${port}/route/bar`);
+      assert.strictEqual(res, '{"route":"bar"}');
+
+      assert.strictEqual(meter.records.length, 1);
+      const [record] = meter.records;
+      assert.strictEqual(record.name, 'http.server.duration');
+      assert.ok(record.value >= 0);
+      assert.deepStrictEqual(record.attributes, {
+        [SemanticAttributes.HTTP_SCHEME]: 'http',
+        [SemanticAttributes.HTTP_FLAVOR]: '1.1',
+        [SemanticAttributes.HTTP_STATUS_CODE]: '200',
+        [SemanticAttributes.HTTP_METHOD]: 'GET',
+        [SemanticAttributes.HTTP_ROUTE]: '/route/:param',
+      });
+    });
   });
 
   describe('Disabling restify instrumentation', () => {